@@ -6,6 +6,9 @@
  * quality (UTMOS), and cost measurements.
  */
 
+/** Where a row came from: the bundled corpus, an external dataset file, the team-local store, or the estimation model. */
+export type BenchmarkSource = "bundled" | "dataset" | "local" | "estimate";
+
 export interface BenchmarkEntry {
   stt: string;
   sttModel: string;
@@ -17,23 +20,165 @@ export interface BenchmarkEntry {
   quality: number;
   costPerMin: number;
   mos?: number;
+  /** Mean time spent in each pipeline stage; sums to roughly latencyMs. */
+  latencyBreakdown?: LatencyBreakdown;
+  /** End-to-end latency distribution across measured turns. */
+  latencyPercentiles?: LatencyPercentiles;
   languages: string[];
+  /** Measurements for a single language, keyed by language name. Missing languages use the aggregate figures above. */
+  languageMetrics?: Record<string, LanguageMetrics>;
+  /** Calls (or turns) behind the aggregate figures, when known. */
+  sampleSize?: number;
+  /** Measured accuracy on calls that switch between two languages mid-conversation. */
+  codeSwitching?: CodeSwitchingMetrics[];
+  source?: BenchmarkSource;
+  /** Present only on estimated rows (source "estimate"). */
+  estimate?: EstimateDetails;
   notes?: string;
 }
 
+export interface EstimateDetails {
+  method: "additive-component-model";
+  confidence: "low" | "medium";
+  /** 95% interval for each metric. */
+  bounds: {
+    latencyMs: [number, number];
+    quality: [number, number];
+    costPerMin: [number, number];
+  };
+  /** Number of measured rows each component appears in. */
+  componentSupport: { stt: number; llm: number; tts: number };
+  trainingRows: number;
+}
+
+export interface LatencyBreakdown {
+  /** End of speech to final transcript. */
+  sttFinalizationMs: number;
+  /** Final transcript to first LLM token. */
+  llmTtftMs: number;
+  /** First LLM token to first audio byte. */
+  ttsTtfbMs: number;
+}
+
+export interface LatencyPercentiles {
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface LanguageMetrics {
+  latencyMs: number;
+  latencyPercentiles?: LatencyPercentiles;
+  quality: number;
+  costPerMin?: number;
+  /** STT word accuracy, 0-1. */
+  sttAccuracy?: number;
+  /** Calls measured for this language. */
+  sampleSize: number;
+}
+
+export interface CodeSwitchingMetrics {
+  /** The two languages mixed within a call, e.g. ["Thai", "English"]. */
+  languages: [string, string];
+  /** STT word accuracy on mixed-language turns, 0-1. */
+  sttAccuracy: number;
+  /** Calls measured, when known. */
+  sampleSize?: number;
+}
+
 export interface UseCasePriorities {
   latency: number;
   quality: number;
   cost: number;
 }
 
+export const PROVIDER_FEATURES = [
+  "streaming",
+  "diarization",
+  "word_timestamps",
+  "custom_vocabulary",
+  "function_calling",
+  "ssml",
+  "voice_cloning",
+  "barge_in",
+] as const;
+
+export type ProviderFeature = (typeof PROVIDER_FEATURES)[number];
+
+/**
+ * Pipeline stages that must provide a feature for a stack to have it.
+ * Streaming must hold end to end; barge-in needs STT interim results and
+ * cancellable TTS output.
+ */
+export const FEATURE_STAGES: Record<ProviderFeature, Array<"stt" | "llm" | "tts">> = {
+  streaming: ["stt", "llm", "tts"],
+  diarization: ["stt"],
+  word_timestamps: ["stt"],
+  custom_vocabulary: ["stt"],
+  function_calling: ["llm"],
+  ssml: ["tts"],
+  voice_cloning: ["tts"],
+  barge_in: ["stt", "tts"],
+};
+
+export interface ModelCapabilities {
+  features: ProviderFeature[];
+  /** LLM context window in tokens. */
+  maxContextTokens?: number;
+}
+
+export const CERTIFICATIONS = ["hipaa", "gdpr", "pdpa"] as const;
+
+export type Certification = (typeof CERTIFICATIONS)[number];
+
+export const DATA_REGIONS = ["us", "eu", "apac"] as const;
+
+export type DataRegion = (typeof DATA_REGIONS)[number];
+
+/** Cloud region written to generated deployment configs for each data-residency region. */
+export const DEPLOYMENT_REGIONS: Record<DataRegion, string> = {
+  us: "us-east-1",
+  eu: "eu-central-1",
+  apac: "ap-southeast-1",
+};
+
+export interface ProviderCompliance {
+  /** Regions the provider can keep processing and storage in. */
+  regions: DataRegion[];
+  /** Certifications or agreements the provider offers (a signed BAA counts as HIPAA). */
+  certifications: Certification[];
+}
+
+export interface ProviderDetails {
+  url: string;
+  models: string[];
+  strengths: string;
+  /** Capabilities per model, keyed by model name. Models without an entry are unknown, not unsupported. */
+  capabilities?: Record<string, ModelCapabilities>;
+  /** Data residency and certifications. Providers without it are unknown, not non-compliant. */
+  compliance?: ProviderCompliance;
+}
+
+export type ProviderCatalog = Record<"stt" | "llm" | "tts", Record<string, ProviderDetails>>;
+
+/** Snapshot date of the bundled corpus below. External datasets carry their own. */
+export const BENCHMARK_DATA_SNAPSHOT = "2026-02-15T00:00:00Z";
+
 export const BENCHMARK_DATA: BenchmarkEntry[] = [
   {
     stt: "Deepgram", sttModel: "nova-3",
     llm: "OpenAI", llmModel: "gpt-4.1-mini",
     tts: "Cartesia", ttsModel: "sonic-3",
     latencyMs: 168, quality: 4.5, costPerMin: 0.007, mos: 4.3,
+    latencyBreakdown: { sttFinalizationMs: 48, llmTtftMs: 84, ttsTtfbMs: 36 },
+    latencyPercentiles: { p50: 160, p95: 241, p99: 318 },
     languages: ["Thai", "English", "Vietnamese", "Indonesian", "Japanese", "Korean"],
+    languageMetrics: {
+      English: { latencyMs: 152, latencyPercentiles: { p50: 146, p95: 214, p99: 281 }, quality: 4.6, sttAccuracy: 0.95, sampleSize: 4200 },
+      Thai: { latencyMs: 196, latencyPercentiles: { p50: 184, p95: 297, p99: 402 }, quality: 4.3, sttAccuracy: 0.71, sampleSize: 1850 },
+      Japanese: { latencyMs: 174, quality: 4.4, sttAccuracy: 0.89, sampleSize: 920 },
+    },
+    codeSwitching: [{ languages: ["Thai", "English"], sttAccuracy: 0.71 }],
     notes: "Best overall for APAC multilingual. Production-proven across enterprise deployments."
   },
   {
@@ -41,7 +186,13 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "Groq", llmModel: "llama-4-maverick",
     tts: "Cartesia", ttsModel: "sonic-3",
     latencyMs: 156, quality: 4.2, costPerMin: 0.005,
+    latencyBreakdown: { sttFinalizationMs: 48, llmTtftMs: 72, ttsTtfbMs: 36 },
+    latencyPercentiles: { p50: 151, p95: 212, p99: 274 },
     languages: ["Thai", "English"],
+    languageMetrics: {
+      English: { latencyMs: 141, latencyPercentiles: { p50: 137, p95: 193, p99: 251 }, quality: 4.3, sttAccuracy: 0.95, sampleSize: 1300 },
+      Thai: { latencyMs: 179, latencyPercentiles: { p50: 171, p95: 248, p99: 322 }, quality: 4.0, sttAccuracy: 0.71, sampleSize: 760 },
+    },
     notes: "Lowest latency option. Groq inference is fast but quality slightly lower."
   },
   {
@@ -49,6 +200,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "OpenAI", llmModel: "gpt-4.1",
     tts: "ElevenLabs", ttsModel: "turbo_v2.5",
     latencyMs: 215, quality: 4.5, costPerMin: 0.014, mos: 4.5,
+    latencyBreakdown: { sttFinalizationMs: 48, llmTtftMs: 112, ttsTtfbMs: 55 },
+    latencyPercentiles: { p50: 204, p95: 322, p99: 431 },
     languages: ["Thai", "English", "Japanese"],
     notes: "Highest naturalness. ElevenLabs excels for emotional/expressive voices."
   },
@@ -57,6 +210,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "OpenAI", llmModel: "gpt-4.1-mini",
     tts: "Cartesia", ttsModel: "sonic-3",
     latencyMs: 178, quality: 4.4, costPerMin: 0.008, mos: 4.2,
+    latencyBreakdown: { sttFinalizationMs: 62, llmTtftMs: 80, ttsTtfbMs: 36 },
+    latencyPercentiles: { p50: 171, p95: 258, p99: 342 },
     languages: ["English", "Vietnamese", "Filipino", "Cantonese"],
     notes: "Strong for Southeast Asian languages. AssemblyAI universal model handles accents well."
   },
@@ -65,6 +220,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "OpenAI", llmModel: "gpt-4.1",
     tts: "ElevenLabs", ttsModel: "eleven_v3",
     latencyMs: 287, quality: 4.8, costPerMin: 0.022, mos: 4.8,
+    latencyBreakdown: { sttFinalizationMs: 105, llmTtftMs: 118, ttsTtfbMs: 64 },
+    latencyPercentiles: { p50: 271, p95: 436, p99: 590 },
     languages: ["English", "Japanese", "Korean"],
     notes: "Premium quality, highest cost. Best for high-stakes conversations (insurance, healthcare)."
   },
@@ -73,7 +230,14 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "OpenAI", llmModel: "gpt-4.1-mini",
     tts: "Rime", ttsModel: "arcana-v3",
     latencyMs: 205, quality: 4.2, costPerMin: 0.008,
+    latencyBreakdown: { sttFinalizationMs: 78, llmTtftMs: 82, ttsTtfbMs: 45 },
+    latencyPercentiles: { p50: 196, p95: 298, p99: 391 },
     languages: ["Thai", "English", "Cantonese"],
+    languageMetrics: {
+      Thai: { latencyMs: 212, latencyPercentiles: { p50: 203, p95: 309, p99: 404 }, quality: 4.3, sttAccuracy: 0.94, sampleSize: 1420 },
+      English: { latencyMs: 198, latencyPercentiles: { p50: 190, p95: 287, p99: 377 }, quality: 4.2, sttAccuracy: 0.94, sampleSize: 610 },
+    },
+    codeSwitching: [{ languages: ["Thai", "English"], sttAccuracy: 0.94 }],
     notes: "Speechmatics leads for Thai code-switching (94% vs Deepgram 71%)."
   },
   {
@@ -81,6 +245,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "Google", llmModel: "gemini-2.5-pro",
     tts: "PlayHT", ttsModel: "play-3.0-mini",
     latencyMs: 268, quality: 4.1, costPerMin: 0.008, mos: 4.1,
+    latencyBreakdown: { sttFinalizationMs: 48, llmTtftMs: 158, ttsTtfbMs: 62 },
+    latencyPercentiles: { p50: 252, p95: 415, p99: 566 },
     languages: ["English", "Indonesian", "Filipino"],
     notes: "Good balance for Indonesian/Filipino markets."
   },
@@ -89,6 +255,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "Groq", llmModel: "llama-4-maverick",
     tts: "Cartesia", ttsModel: "sonic-3",
     latencyMs: 195, quality: 4.0, costPerMin: 0.006,
+    latencyBreakdown: { sttFinalizationMs: 88, llmTtftMs: 71, ttsTtfbMs: 36 },
+    latencyPercentiles: { p50: 187, p95: 271, p99: 352 },
     languages: ["English", "Vietnamese", "Japanese", "Korean"],
     notes: "Budget option with decent quality. Good for high-volume, cost-sensitive deployments."
   },
@@ -97,6 +265,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "ElevenLabs", llmModel: "eleven-turbo",
     tts: "ElevenLabs", ttsModel: "eleven_v3",
     latencyMs: 142, quality: 4.1, costPerMin: 0.004,
+    latencyBreakdown: { sttFinalizationMs: 48, llmTtftMs: 50, ttsTtfbMs: 44 },
+    latencyPercentiles: { p50: 137, p95: 198, p99: 262 },
     languages: ["Thai", "English", "Vietnamese", "Indonesian"],
     notes: "ElevenLabs end-to-end. Lowest latency when using their full stack."
   },
@@ -105,7 +275,13 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "Google", llmModel: "gemini-2.5-flash",
     tts: "Cartesia", ttsModel: "sonic-3",
     latencyMs: 148, quality: 4.2, costPerMin: 0.004,
+    latencyBreakdown: { sttFinalizationMs: 48, llmTtftMs: 64, ttsTtfbMs: 36 },
+    latencyPercentiles: { p50: 142, p95: 209, p99: 281 },
     languages: ["English", "Thai", "Vietnamese", "Filipino", "Indonesian"],
+    languageMetrics: {
+      English: { latencyMs: 139, latencyPercentiles: { p50: 134, p95: 196, p99: 262 }, quality: 4.3, sttAccuracy: 0.95, sampleSize: 2600 },
+      Vietnamese: { latencyMs: 163, latencyPercentiles: { p50: 156, p95: 231, p99: 309 }, quality: 4.0, sttAccuracy: 0.86, sampleSize: 540 },
+    },
     notes: "Best cost-to-performance ratio. Gemini Flash is surprisingly good for voice agents."
   },
   {
@@ -113,6 +289,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "Anthropic", llmModel: "claude-sonnet-4-5",
     tts: "Cartesia", ttsModel: "sonic-3",
     latencyMs: 198, quality: 4.6, costPerMin: 0.009,
+    latencyBreakdown: { sttFinalizationMs: 48, llmTtftMs: 114, ttsTtfbMs: 36 },
+    latencyPercentiles: { p50: 188, p95: 305, p99: 412 },
     languages: ["English", "Japanese", "Korean", "Thai"],
     notes: "Claude excels at nuanced conversations. Best for complex reasoning in voice agents."
   },
@@ -121,6 +299,8 @@ export const BENCHMARK_DATA: BenchmarkEntry[] = [
     llm: "ElevenLabs", llmModel: "eleven-turbo",
     tts: "ElevenLabs", ttsModel: "turbo_v2.5",
     latencyMs: 210, quality: 4.0, costPerMin: 0.006,
+    latencyBreakdown: { sttFinalizationMs: 62, llmTtftMs: 58, ttsTtfbMs: 90 },
+    latencyPercentiles: { p50: 201, p95: 297, p99: 388 },
     languages: ["English", "Cantonese", "Japanese"],
     notes: "Solid mid-range option for East Asian languages."
   },
@@ -144,25 +324,114 @@ export const SUPPORTED_LANGUAGES = [
   "Japanese", "Korean", "Cantonese", "Mandarin", "Malay",
 ];
 
-export const PROVIDER_INFO = {
+export const PROVIDER_INFO: ProviderCatalog = {
   stt: {
-    "Deepgram": { url: "https://deepgram.com", models: ["nova-3", "nova-2"], strengths: "Fast, accurate, good multilingual" },
-    "AssemblyAI": { url: "https://assemblyai.com", models: ["universal-3-pro"], strengths: "Best for accented speech, speaker diarization" },
-    "OpenAI": { url: "https://openai.com", models: ["gpt-4o-transcribe", "whisper-large-v3"], strengths: "Highest accuracy, slower" },
-    "Speechmatics": { url: "https://speechmatics.com", models: ["enhanced"], strengths: "Best for code-switching (Thai/English)" },
-    "Google": { url: "https://cloud.google.com/speech-to-text", models: ["chirp-3"], strengths: "Wide language coverage, competitive pricing" },
+    "Deepgram": {
+      url: "https://deepgram.com", models: ["nova-3", "nova-2"], strengths: "Fast, accurate, good multilingual",
+      capabilities: {
+        "nova-3": { features: ["streaming", "diarization", "word_timestamps", "custom_vocabulary", "barge_in"] },
+        "nova-2": { features: ["streaming", "diarization", "word_timestamps", "custom_vocabulary", "barge_in"] },
+      },
+      compliance: { regions: ["us", "eu"], certifications: ["hipaa", "gdpr"] },
+    },
+    "AssemblyAI": {
+      url: "https://assemblyai.com", models: ["universal-3-pro"], strengths: "Best for accented speech, speaker diarization",
+      capabilities: {
+        "universal-3-pro": { features: ["streaming", "diarization", "word_timestamps", "custom_vocabulary", "barge_in"] },
+      },
+      compliance: { regions: ["us", "eu"], certifications: ["hipaa", "gdpr"] },
+    },
+    "OpenAI": {
+      url: "https://openai.com", models: ["gpt-4o-transcribe", "whisper-large-v3"], strengths: "Highest accuracy, slower",
+      capabilities: {
+        "gpt-4o-transcribe": { features: ["streaming", "custom_vocabulary", "barge_in"] },
+        "whisper-large-v3": { features: ["word_timestamps", "custom_vocabulary"] },
+      },
+      compliance: { regions: ["us", "eu"], certifications: ["hipaa", "gdpr"] },
+    },
+    "Speechmatics": {
+      url: "https://speechmatics.com", models: ["enhanced"], strengths: "Best for code-switching (Thai/English)",
+      capabilities: {
+        "enhanced": { features: ["streaming", "diarization", "word_timestamps", "custom_vocabulary", "barge_in"] },
+      },
+      compliance: { regions: ["eu", "us", "apac"], certifications: ["hipaa", "gdpr", "pdpa"] },
+    },
+    "Google": {
+      url: "https://cloud.google.com/speech-to-text", models: ["chirp-3"], strengths: "Wide language coverage, competitive pricing",
+      capabilities: {
+        "chirp-3": { features: ["streaming", "diarization", "word_timestamps", "custom_vocabulary", "barge_in"] },
+      },
+      compliance: { regions: ["us", "eu", "apac"], certifications: ["hipaa", "gdpr", "pdpa"] },
+    },
   },
   llm: {
-    "OpenAI": { url: "https://openai.com", models: ["gpt-4.1-mini", "gpt-4.1"], strengths: "Best general-purpose, reliable" },
-    "Anthropic": { url: "https://anthropic.com", models: ["claude-sonnet-4-5"], strengths: "Nuanced reasoning, safety, complex conversations" },
-    "Google": { url: "https://ai.google.dev", models: ["gemini-2.5-flash", "gemini-2.5-pro"], strengths: "Fast, cost-effective, multilingual" },
-    "Groq": { url: "https://groq.com", models: ["llama-4-maverick"], strengths: "Ultra-low latency inference" },
-    "ElevenLabs": { url: "https://elevenlabs.io", models: ["eleven-turbo"], strengths: "Lowest latency in ElevenLabs stack" },
+    "OpenAI": {
+      url: "https://openai.com", models: ["gpt-4.1-mini", "gpt-4.1"], strengths: "Best general-purpose, reliable",
+      capabilities: {
+        "gpt-4.1-mini": { features: ["streaming", "function_calling"], maxContextTokens: 1_047_576 },
+        "gpt-4.1": { features: ["streaming", "function_calling"], maxContextTokens: 1_047_576 },
+      },
+      compliance: { regions: ["us", "eu"], certifications: ["hipaa", "gdpr"] },
+    },
+    "Anthropic": {
+      url: "https://anthropic.com", models: ["claude-sonnet-4-5"], strengths: "Nuanced reasoning, safety, complex conversations",
+      capabilities: {
+        "claude-sonnet-4-5": { features: ["streaming", "function_calling"], maxContextTokens: 200_000 },
+      },
+      compliance: { regions: ["us"], certifications: ["hipaa", "gdpr"] },
+    },
+    "Google": {
+      url: "https://ai.google.dev", models: ["gemini-2.5-flash", "gemini-2.5-pro"], strengths: "Fast, cost-effective, multilingual",
+      capabilities: {
+        "gemini-2.5-flash": { features: ["streaming", "function_calling"], maxContextTokens: 1_048_576 },
+        "gemini-2.5-pro": { features: ["streaming", "function_calling"], maxContextTokens: 1_048_576 },
+      },
+      compliance: { regions: ["us", "eu", "apac"], certifications: ["hipaa", "gdpr", "pdpa"] },
+    },
+    "Groq": {
+      url: "https://groq.com", models: ["llama-4-maverick"], strengths: "Ultra-low latency inference",
+      capabilities: {
+        "llama-4-maverick": { features: ["streaming", "function_calling"], maxContextTokens: 131_072 },
+      },
+      compliance: { regions: ["us"], certifications: ["gdpr"] },
+    },
+    "ElevenLabs": {
+      url: "https://elevenlabs.io", models: ["eleven-turbo"], strengths: "Lowest latency in ElevenLabs stack",
+      capabilities: {
+        "eleven-turbo": { features: ["streaming", "function_calling"] },
+      },
+      compliance: { regions: ["us", "eu"], certifications: ["hipaa", "gdpr"] },
+    },
   },
   tts: {
-    "Cartesia": { url: "https://cartesia.ai", models: ["sonic-3"], strengths: "Lowest TTFB, natural prosody, multilingual" },
-    "ElevenLabs": { url: "https://elevenlabs.io", models: ["eleven_v3", "turbo_v2.5"], strengths: "Most natural, expressive, emotional range" },
-    "PlayHT": { url: "https://play.ht", models: ["play-3.0-mini"], strengths: "Good quality-to-cost ratio" },
-    "Rime": { url: "https://rime.ai", models: ["arcana-v3"], strengths: "Consistent quality, good for Asian languages" },
+    "Cartesia": {
+      url: "https://cartesia.ai", models: ["sonic-3"], strengths: "Lowest TTFB, natural prosody, multilingual",
+      capabilities: {
+        "sonic-3": { features: ["streaming", "word_timestamps", "ssml", "voice_cloning", "barge_in"] },
+      },
+      compliance: { regions: ["us"], certifications: ["hipaa", "gdpr"] },
+    },
+    "ElevenLabs": {
+      url: "https://elevenlabs.io", models: ["eleven_v3", "turbo_v2.5"], strengths: "Most natural, expressive, emotional range",
+      capabilities: {
+        "eleven_v3": { features: ["streaming", "word_timestamps", "voice_cloning", "barge_in"] },
+        "turbo_v2.5": { features: ["streaming", "word_timestamps", "ssml", "voice_cloning", "barge_in"] },
+      },
+      compliance: { regions: ["us", "eu"], certifications: ["hipaa", "gdpr"] },
+    },
+    "PlayHT": {
+      url: "https://play.ht", models: ["play-3.0-mini"], strengths: "Good quality-to-cost ratio",
+      capabilities: {
+        "play-3.0-mini": { features: ["streaming", "voice_cloning", "barge_in"] },
+      },
+      compliance: { regions: ["us"], certifications: ["gdpr"] },
+    },
+    "Rime": {
+      url: "https://rime.ai", models: ["arcana-v3"], strengths: "Consistent quality, good for Asian languages",
+      capabilities: {
+        "arcana-v3": { features: ["streaming", "word_timestamps", "barge_in"] },
+      },
+      compliance: { regions: ["us"], certifications: [] },
+    },
   },
 };
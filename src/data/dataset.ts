@@ -0,0 +1,263 @@
+/**
+ * Benchmark dataset loading.
+ *
+ * The server ships with the corpus in benchmarks.ts. Teams with their own
+ * measurements can point it at a JSON or YAML file instead, either with the
+ * VOICEFORGE_DATASET environment variable or the --dataset CLI flag. Files
+ * are validated against DATASET_SCHEMA; a file that fails validation is
+ * reported and the bundled corpus is used instead.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  BENCHMARK_DATA,
+  BENCHMARK_DATA_SNAPSHOT,
+  CERTIFICATIONS,
+  DATA_REGIONS,
+  PROVIDER_FEATURES,
+  PROVIDER_INFO,
+  SUPPORTED_LANGUAGES,
+  USE_CASE_PRIORITIES,
+  type BenchmarkEntry,
+  type ProviderCatalog,
+  type UseCasePriorities,
+} from "./benchmarks.js";
+
+export const DATASET_ENV_VAR = "VOICEFORGE_DATASET";
+export const DATASET_CLI_FLAG = "--dataset";
+
+export interface BenchmarkDataset {
+  name: string;
+  source: "bundled" | "file";
+  path: string | null;
+  dataSnapshot: string;
+  benchmarks: BenchmarkEntry[];
+  useCasePriorities: Record<string, UseCasePriorities>;
+  supportedLanguages: string[];
+  providerInfo: ProviderCatalog;
+  /** Row-level problems found while loading. Non-empty means the bundled data was used. */
+  loadErrors: string[];
+}
+
+const nonEmpty = z.string().trim().min(1);
+
+const latencyPercentilesSchema = z.object({
+  p50: z.number().positive(),
+  p95: z.number().positive(),
+  p99: z.number().positive(),
+}).refine(({ p50, p95, p99 }) => p50 <= p95 && p95 <= p99, { message: "Percentiles must satisfy p50 <= p95 <= p99" });
+
+const latencyBreakdownSchema = z.object({
+  sttFinalizationMs: z.number().nonnegative().describe("End of speech to final transcript"),
+  llmTtftMs: z.number().nonnegative().describe("Final transcript to first LLM token"),
+  ttsTtfbMs: z.number().nonnegative().describe("First LLM token to first audio byte"),
+});
+
+const languageMetricsSchema = z.object({
+  latencyMs: z.number().positive(),
+  latencyPercentiles: latencyPercentilesSchema.optional(),
+  quality: z.number().min(0).max(5),
+  costPerMin: z.number().nonnegative().optional(),
+  sttAccuracy: z.number().min(0).max(1).optional().describe("STT word accuracy, 0-1"),
+  sampleSize: z.number().int().positive().describe("Calls measured for this language"),
+});
+
+const codeSwitchingSchema = z.object({
+  languages: z.tuple([nonEmpty, nonEmpty]).describe("The two languages mixed within a call"),
+  sttAccuracy: z.number().min(0).max(1).describe("STT word accuracy on mixed-language turns, 0-1"),
+  sampleSize: z.number().int().positive().optional(),
+});
+
+const benchmarkEntrySchema = z.object({
+  stt: nonEmpty,
+  sttModel: nonEmpty,
+  llm: nonEmpty,
+  llmModel: nonEmpty,
+  tts: nonEmpty,
+  ttsModel: nonEmpty,
+  latencyMs: z.number().positive().describe("End-to-end turn latency in milliseconds"),
+  quality: z.number().min(0).max(5).describe("UTMOS score, 0-5"),
+  costPerMin: z.number().nonnegative().describe("USD per conversation minute"),
+  mos: z.number().min(0).max(5).optional(),
+  latencyBreakdown: latencyBreakdownSchema.optional(),
+  latencyPercentiles: latencyPercentilesSchema.optional(),
+  languages: z.array(nonEmpty).min(1),
+  languageMetrics: z.record(z.string(), languageMetricsSchema).optional(),
+  sampleSize: z.number().int().positive().optional(),
+  codeSwitching: z.array(codeSwitchingSchema).optional(),
+  notes: z.string().optional(),
+});
+
+const useCasePrioritiesSchema = z.object({
+  latency: z.number().nonnegative(),
+  quality: z.number().nonnegative(),
+  cost: z.number().nonnegative(),
+});
+
+const modelCapabilitiesSchema = z.object({
+  features: z.array(z.enum(PROVIDER_FEATURES)),
+  maxContextTokens: z.number().int().positive().optional().describe("LLM context window in tokens"),
+});
+
+const providerDetailsSchema = z.object({
+  url: z.string(),
+  models: z.array(nonEmpty).min(1),
+  strengths: z.string(),
+  capabilities: z.record(z.string(), modelCapabilitiesSchema).optional().describe("Capabilities per model, keyed by model name"),
+  compliance: z.object({
+    regions: z.array(z.enum(DATA_REGIONS)),
+    certifications: z.array(z.enum(CERTIFICATIONS)),
+  }).optional().describe("Data residency regions and certifications"),
+});
+
+export const DATASET_SCHEMA = z.object({
+  $schema: z.string().optional(),
+  name: nonEmpty.optional().describe("Human-readable dataset name reported by voiceforge_health"),
+  data_snapshot: nonEmpty.describe("ISO-8601 date the measurements were taken"),
+  benchmarks: z.array(benchmarkEntrySchema).min(1),
+  use_case_priorities: z.record(z.string(), useCasePrioritiesSchema).optional(),
+  supported_languages: z.array(nonEmpty).min(1).optional(),
+  provider_info: z.object({
+    stt: z.record(z.string(), providerDetailsSchema),
+    llm: z.record(z.string(), providerDetailsSchema),
+    tts: z.record(z.string(), providerDetailsSchema),
+  }).optional(),
+});
+
+type DatasetFile = z.infer<typeof DATASET_SCHEMA>;
+
+export function getDatasetJsonSchema(): Record<string, unknown> {
+  return zodToJsonSchema(DATASET_SCHEMA, { $refStrategy: "none" }) as Record<string, unknown>;
+}
+
+export function getBundledDataset(): BenchmarkDataset {
+  return {
+    name: "voiceforge-bundled",
+    source: "bundled",
+    path: null,
+    dataSnapshot: BENCHMARK_DATA_SNAPSHOT,
+    benchmarks: BENCHMARK_DATA.map((row) => ({ ...row, source: "bundled" as const })),
+    useCasePriorities: USE_CASE_PRIORITIES,
+    supportedLanguages: SUPPORTED_LANGUAGES,
+    providerInfo: PROVIDER_INFO,
+    loadErrors: [],
+  };
+}
+
+/** Reads `--flag value` or `--flag=value` from argv. */
+export function readCliOption(argv: string[], flag: string): string | null {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag && argv[i + 1]) return argv[i + 1];
+    if (arg.startsWith(`${flag}=`)) return arg.slice(flag.length + 1) || null;
+  }
+  return null;
+}
+
+/** CLI flag wins over the environment variable. */
+export function resolveDatasetPath(argv: string[], env: NodeJS.ProcessEnv): string | null {
+  return readCliOption(argv, DATASET_CLI_FLAG) ?? (env[DATASET_ENV_VAR]?.trim() || null);
+}
+
+function describeRow(row: unknown): string {
+  if (!row || typeof row !== "object") return "";
+  const { stt, sttModel, llm, llmModel, tts, ttsModel } = row as Record<string, unknown>;
+  const parts = [[stt, sttModel], [llm, llmModel], [tts, ttsModel]]
+    .map((pair) => pair.filter((value) => typeof value === "string" && value).join(" "))
+    .filter(Boolean);
+  return parts.length ? ` (${parts.join(" + ")})` : "";
+}
+
+function formatIssuePath(issuePath: (string | number)[], raw: unknown): string {
+  const [section, index, ...rest] = issuePath;
+  if (section === "benchmarks" && typeof index === "number") {
+    const rows = (raw as { benchmarks?: unknown[] }).benchmarks ?? [];
+    const field = rest.length ? `.${rest.map(String).join(".")}` : "";
+    return `benchmarks[${index}]${describeRow(rows[index])}${field}`;
+  }
+  return issuePath.length ? issuePath.map(String).join(".") : "<root>";
+}
+
+/** Checks that cannot be expressed per-field: rows must reference known languages and providers. */
+function crossCheckDataset(data: DatasetFile): string[] {
+  const errors: string[] = [];
+  const languages = new Set((data.supported_languages ?? SUPPORTED_LANGUAGES).map((lang) => lang.toLowerCase()));
+  const providers = data.provider_info ?? PROVIDER_INFO;
+
+  data.benchmarks.forEach((row, index) => {
+    const label = `benchmarks[${index}]${describeRow(row)}`;
+    for (const language of row.languages) {
+      if (!languages.has(language.toLowerCase())) {
+        errors.push(`${label}.languages: "${language}" is not in supported_languages`);
+      }
+    }
+    const rowLanguages = new Set(row.languages.map((language) => language.toLowerCase()));
+    for (const language of Object.keys(row.languageMetrics ?? {})) {
+      if (!rowLanguages.has(language.toLowerCase())) {
+        errors.push(`${label}.languageMetrics.${language}: language is not listed in the row's languages`);
+      }
+    }
+    (row.codeSwitching ?? []).forEach((pair, pairIndex) => {
+      for (const language of pair.languages) {
+        if (!rowLanguages.has(language.toLowerCase())) {
+          errors.push(`${label}.codeSwitching[${pairIndex}]: "${language}" is not listed in the row's languages`);
+        }
+      }
+    });
+    if (!providers.stt[row.stt]) errors.push(`${label}.stt: "${row.stt}" is not a known STT provider`);
+    if (!providers.llm[row.llm]) errors.push(`${label}.llm: "${row.llm}" is not a known LLM provider`);
+    if (!providers.tts[row.tts]) errors.push(`${label}.tts: "${row.tts}" is not a known TTS provider`);
+  });
+
+  return errors;
+}
+
+function parseDatasetText(filePath: string, text: string): unknown {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === ".yaml" || extension === ".yml") return parseYaml(text);
+  return JSON.parse(text);
+}
+
+/**
+ * Loads and validates a dataset file. Never throws: on any failure the bundled
+ * dataset is returned with `loadErrors` describing what went wrong.
+ */
+export function loadDataset(filePath: string | null): BenchmarkDataset {
+  const bundled = getBundledDataset();
+  if (!filePath) return bundled;
+
+  const absolutePath = path.resolve(filePath);
+  const fallback = (loadErrors: string[]): BenchmarkDataset => ({ ...bundled, path: absolutePath, loadErrors });
+
+  let raw: unknown;
+  try {
+    raw = parseDatasetText(absolutePath, readFileSync(absolutePath, "utf8"));
+  } catch (error) {
+    return fallback([`${absolutePath}: ${error instanceof Error ? error.message : "could not be read"}`]);
+  }
+
+  const parsed = DATASET_SCHEMA.safeParse(raw);
+  if (!parsed.success) {
+    return fallback(parsed.error.issues.map((issue) => `${formatIssuePath(issue.path, raw)}: ${issue.message}`));
+  }
+
+  const crossErrors = crossCheckDataset(parsed.data);
+  if (crossErrors.length > 0) return fallback(crossErrors);
+
+  const data = parsed.data;
+  return {
+    name: data.name ?? path.basename(absolutePath),
+    source: "file",
+    path: absolutePath,
+    dataSnapshot: data.data_snapshot,
+    benchmarks: data.benchmarks.map((row) => ({ ...row, source: "dataset" as const })),
+    useCasePriorities: data.use_case_priorities ?? USE_CASE_PRIORITIES,
+    supportedLanguages: data.supported_languages ?? SUPPORTED_LANGUAGES,
+    providerInfo: data.provider_info ?? PROVIDER_INFO,
+    loadErrors: [],
+  };
+}
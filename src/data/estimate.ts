@@ -0,0 +1,191 @@
+/**
+ * Metric estimates for stacks that have no benchmark row.
+ *
+ * Latency, quality and cost are modelled as additive per-component effects:
+ *
+ *   metric ≈ baseline + effect(STT model) + effect(LLM model) + effect(TTS model)
+ *
+ * Effects are fitted by backfitting over the measured rows, which separates a
+ * component's contribution from the components it was usually paired with.
+ * Each effect is shrunk toward zero by one pseudo-row so components seen once
+ * do not absorb all of their row's noise. Bounds are ±1.96 × the model's
+ * leave-one-out prediction error, widened for components that appear in few rows.
+ */
+
+import type { BenchmarkEntry, EstimateDetails } from "./benchmarks.js";
+
+type Metric = "latencyMs" | "quality" | "costPerMin";
+type Stage = "stt" | "llm" | "tts";
+
+export interface StackComponents {
+  stt: string;
+  sttModel: string;
+  llm: string;
+  llmModel: string;
+  tts: string;
+  ttsModel: string;
+}
+
+export type EstimateResult =
+  | { ok: true; entry: BenchmarkEntry & { estimate: EstimateDetails } }
+  | { ok: false; missing: string[] };
+
+const METRICS: Metric[] = ["latencyMs", "quality", "costPerMin"];
+const STAGES: Stage[] = ["stt", "llm", "tts"];
+const BACKFIT_ITERATIONS = 25;
+const SHRINKAGE_ROWS = 1;
+const MIN_HOLDOUT_PREDICTIONS = 3;
+const Z_95 = 1.96;
+
+const componentKey = (stage: Stage, provider: string, model: string): string =>
+  `${stage}:${provider}:${model}`.toLowerCase();
+
+const keyFor = (stage: Stage, stack: StackComponents): string =>
+  stage === "stt"
+    ? componentKey(stage, stack.stt, stack.sttModel)
+    : stage === "llm"
+      ? componentKey(stage, stack.llm, stack.llmModel)
+      : componentKey(stage, stack.tts, stack.ttsModel);
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+interface FittedMetric {
+  baseline: number;
+  effects: Map<string, number>;
+}
+
+function predictMetric(fitted: FittedMetric, stack: StackComponents): number | null {
+  let value = fitted.baseline;
+  for (const stage of STAGES) {
+    const effect = fitted.effects.get(keyFor(stage, stack));
+    if (effect === undefined) return null;
+    value += effect;
+  }
+  return value;
+}
+
+function fitMetric(rows: BenchmarkEntry[], metric: Metric): FittedMetric {
+  const baseline = mean(rows.map((row) => row[metric]));
+  const effects = new Map<string, number>();
+  const predict = (row: BenchmarkEntry, skip?: Stage): number =>
+    baseline + STAGES.reduce((sum, stage) => (stage === skip ? sum : sum + (effects.get(keyFor(stage, row)) ?? 0)), 0);
+
+  for (let iteration = 0; iteration < BACKFIT_ITERATIONS; iteration++) {
+    for (const stage of STAGES) {
+      const partials = new Map<string, number[]>();
+      for (const row of rows) {
+        const key = keyFor(stage, row);
+        const residuals = partials.get(key) ?? [];
+        residuals.push(row[metric] - predict(row, stage));
+        partials.set(key, residuals);
+      }
+      for (const [key, residuals] of partials) {
+        effects.set(key, residuals.reduce((sum, value) => sum + value, 0) / (residuals.length + SHRINKAGE_ROWS));
+      }
+    }
+  }
+
+  return { baseline, effects };
+}
+
+/**
+ * Root-mean-square error of predicting each row from a model fitted without it.
+ * Falls back to the metric's spread across rows when too few rows can be held out.
+ */
+function holdoutError(rows: BenchmarkEntry[], metric: Metric): { error: number; predictions: number } {
+  const squaredErrors = rows.flatMap((row, index) => {
+    const predicted = predictMetric(fitMetric(rows.filter((_, other) => other !== index), metric), row);
+    return predicted === null ? [] : [(row[metric] - predicted) ** 2];
+  });
+  if (squaredErrors.length >= MIN_HOLDOUT_PREDICTIONS) {
+    return { error: Math.sqrt(mean(squaredErrors)), predictions: squaredErrors.length };
+  }
+  const average = mean(rows.map((row) => row[metric]));
+  return { error: Math.sqrt(mean(rows.map((row) => (row[metric] - average) ** 2))), predictions: squaredErrors.length };
+}
+
+const roundTo = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+export interface StackEstimator {
+  estimate(stack: StackComponents): EstimateResult;
+  /** Every STT/LLM/TTS component seen in the corpus, for enumerating untested stacks. */
+  components: Record<Stage, StackComponents[]>;
+}
+
+export function buildEstimator(rows: BenchmarkEntry[]): StackEstimator {
+  const fitted = Object.fromEntries(METRICS.map((metric) => [metric, fitMetric(rows, metric)])) as Record<Metric, FittedMetric>;
+  const errors = Object.fromEntries(METRICS.map((metric) => [metric, holdoutError(rows, metric)])) as Record<Metric, { error: number; predictions: number }>;
+  const support = new Map<string, number>();
+  const languagesByComponent = new Map<string, Set<string>>();
+  for (const row of rows) {
+    for (const stage of STAGES) {
+      const key = keyFor(stage, row);
+      support.set(key, (support.get(key) ?? 0) + 1);
+      const languages = languagesByComponent.get(key) ?? new Set<string>();
+      row.languages.forEach((language) => languages.add(language));
+      languagesByComponent.set(key, languages);
+    }
+  }
+
+  const components = Object.fromEntries(STAGES.map((stage) => {
+    const seen = new Map<string, StackComponents>();
+    for (const row of rows) {
+      seen.set(keyFor(stage, row), {
+        stt: row.stt, sttModel: row.sttModel,
+        llm: row.llm, llmModel: row.llmModel,
+        tts: row.tts, ttsModel: row.ttsModel,
+      });
+    }
+    return [stage, [...seen.values()]];
+  })) as Record<Stage, StackComponents[]>;
+
+  const estimate = (stack: StackComponents): EstimateResult => {
+    const missing = STAGES.filter((stage) => !support.has(keyFor(stage, stack))).map((stage) =>
+      stage === "stt" ? `STT ${stack.stt} ${stack.sttModel}` : stage === "llm" ? `LLM ${stack.llm} ${stack.llmModel}` : `TTS ${stack.tts} ${stack.ttsModel}`
+    );
+    if (missing.length > 0) return { ok: false, missing };
+
+    const counts = { stt: support.get(keyFor("stt", stack))!, llm: support.get(keyFor("llm", stack))!, tts: support.get(keyFor("tts", stack))! };
+    const spread = Math.sqrt(1 + (1 / counts.stt + 1 / counts.llm + 1 / counts.tts) / 3);
+    const point = (metric: Metric): number => predictMetric(fitted[metric], stack)!;
+    const bound = (metric: Metric, min: number, max: number, digits: number): [number, number] => {
+      const half = Z_95 * errors[metric].error * spread;
+      const value = point(metric);
+      return [roundTo(Math.min(max, Math.max(min, value - half)), digits), roundTo(Math.min(max, Math.max(min, value + half)), digits)];
+    };
+
+    const minSupport = Math.min(counts.stt, counts.llm, counts.tts);
+    const validated = METRICS.every((metric) => errors[metric].predictions >= MIN_HOLDOUT_PREDICTIONS);
+    const languages = [...languagesByComponent.get(keyFor("stt", stack))!].filter((language) =>
+      languagesByComponent.get(keyFor("llm", stack))!.has(language) && languagesByComponent.get(keyFor("tts", stack))!.has(language)
+    );
+
+    return {
+      ok: true,
+      entry: {
+        stt: stack.stt, sttModel: stack.sttModel,
+        llm: stack.llm, llmModel: stack.llmModel,
+        tts: stack.tts, ttsModel: stack.ttsModel,
+        latencyMs: Math.max(1, Math.round(point("latencyMs"))),
+        quality: roundTo(Math.min(5, Math.max(0, point("quality"))), 2),
+        costPerMin: roundTo(Math.max(0, point("costPerMin")), 4),
+        languages,
+        source: "estimate",
+        notes: "Estimated from per-component contributions; no direct benchmark for this combination.",
+        estimate: {
+          method: "additive-component-model",
+          confidence: validated && minSupport >= 3 ? "medium" : "low",
+          bounds: {
+            latencyMs: bound("latencyMs", 1, Number.POSITIVE_INFINITY, 0),
+            quality: bound("quality", 0, 5, 2),
+            costPerMin: bound("costPerMin", 0, Number.POSITIVE_INFINITY, 4),
+          },
+          componentSupport: counts,
+          trainingRows: rows.length,
+        },
+      },
+    };
+  };
+
+  return { estimate, components };
+}
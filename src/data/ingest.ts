@@ -0,0 +1,330 @@
+/**
+ * Turn-level call log ingestion.
+ *
+ * Teams export per-turn measurements from their own deployments as CSV or
+ * JSONL. Each turn names the stack, the language, the measured end-to-end
+ * latency, a UTMOS (or MOS) score and the per-minute cost. Turns are
+ * aggregated per stack into BenchmarkEntry rows tagged `source: "local"`.
+ */
+
+import type { BenchmarkEntry, LanguageMetrics, LatencyPercentiles } from "./benchmarks.js";
+
+export type TurnLogFormat = "csv" | "jsonl";
+
+/** A turn as read from the log, before provider and language names are resolved. */
+export interface RawTurn {
+  line: number;
+  stack?: string;
+  stt?: string;
+  sttModel?: string;
+  llm?: string;
+  llmModel?: string;
+  tts?: string;
+  ttsModel?: string;
+  language: string;
+  callId?: string;
+  latencyMs: number;
+  quality: number;
+  mos?: number;
+  costPerMin: number;
+  sttFinalizationMs?: number;
+  llmTtftMs?: number;
+  ttsTtfbMs?: number;
+}
+
+/** A turn with canonical provider and language names, as persisted in the local store. */
+export interface TurnRecord {
+  stt: string;
+  sttModel: string;
+  llm: string;
+  llmModel: string;
+  tts: string;
+  ttsModel: string;
+  language: string;
+  callId?: string;
+  latencyMs: number;
+  quality: number;
+  mos?: number;
+  costPerMin: number;
+  sttFinalizationMs?: number;
+  llmTtftMs?: number;
+  ttsTtfbMs?: number;
+}
+
+/** Accepted column names, normalized to lower snake case, per field. */
+const COLUMN_ALIASES: Record<string, string[]> = {
+  stack: ["stack", "combo"],
+  stt: ["stt", "stt_provider"],
+  sttModel: ["stt_model"],
+  llm: ["llm", "llm_provider"],
+  llmModel: ["llm_model"],
+  tts: ["tts", "tts_provider"],
+  ttsModel: ["tts_model"],
+  language: ["language", "lang"],
+  callId: ["call_id", "call", "session_id"],
+  latencyMs: ["latency_ms", "latency", "turn_latency_ms"],
+  utmos: ["utmos", "quality"],
+  mos: ["mos"],
+  costPerMin: ["cost_per_min", "cost"],
+  sttFinalizationMs: ["stt_finalization_ms", "stt_ms"],
+  llmTtftMs: ["llm_ttft_ms", "ttft_ms"],
+  ttsTtfbMs: ["tts_ttfb_ms", "ttfb_ms"],
+};
+
+const normalizeColumn = (name: string): string =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+
+export function detectTurnLogFormat(content: string, fileName?: string): TurnLogFormat {
+  if (fileName?.toLowerCase().endsWith(".csv")) return "csv";
+  if (fileName?.toLowerCase().match(/\.(jsonl|ndjson)$/)) return "jsonl";
+  return content.trimStart().startsWith("{") ? "jsonl" : "csv";
+}
+
+/** Minimal RFC 4180 reader: quoted fields, escaped quotes and embedded newlines. */
+function parseCsvRecords(content: string): { line: number; cells: string[] }[] {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === "\"" && content[i + 1] === "\"") {
+        cell += "\"";
+        i++;
+      } else if (char === "\"") {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+      continue;
+    }
+    if (char === "\"") {
+      inQuotes = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      cells.push(cell);
+      if (cells.some((value) => value.trim())) records.push({ line: recordLine, cells });
+      cells = [];
+      cell = "";
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  if (cells.some((value) => value.trim())) records.push({ line: recordLine, cells });
+  return records;
+}
+
+function readRecords(content: string, format: TurnLogFormat): { records: { line: number; values: Record<string, unknown> }[]; errors: string[] } {
+  const errors: string[] = [];
+  if (format === "jsonl") {
+    const records = content.split(/\r?\n/).flatMap((text, index) => {
+      if (!text.trim()) return [];
+      try {
+        const value = JSON.parse(text);
+        if (!value || typeof value !== "object" || Array.isArray(value)) throw new Error("expected a JSON object");
+        const values = Object.fromEntries(Object.entries(value).map(([key, cell]) => [normalizeColumn(key), cell]));
+        return [{ line: index + 1, values }];
+      } catch (error) {
+        errors.push(`line ${index + 1}: ${error instanceof Error ? error.message : "invalid JSON"}`);
+        return [];
+      }
+    });
+    return { records, errors };
+  }
+
+  const [header, ...rows] = parseCsvRecords(content);
+  if (!header) return { records: [], errors: ["CSV log is empty"] };
+  const columns = header.cells.map(normalizeColumn);
+  const records = rows.map(({ line, cells }) => ({
+    line,
+    values: Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? ""])),
+  }));
+  return { records, errors };
+}
+
+function pick(values: Record<string, unknown>, field: string): unknown {
+  for (const alias of COLUMN_ALIASES[field]) {
+    const value = values[alias];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+}
+
+function pickString(values: Record<string, unknown>, field: string): string | undefined {
+  const value = pick(values, field);
+  return value === undefined ? undefined : String(value).trim() || undefined;
+}
+
+function pickNumber(values: Record<string, unknown>, field: string): number | undefined | null {
+  const value = pick(values, field);
+  if (value === undefined) return undefined;
+  const number = typeof value === "number" ? value : Number(String(value).replace(/^\$/, ""));
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Parses a CSV or JSONL turn log. Stacks are given either as six provider/model
+ * columns or as one `stack` column in compare syntax ("Deepgram nova-3 + OpenAI
+ * gpt-4.1-mini + Cartesia sonic-3"). Lines that cannot be used are reported with
+ * their line number and skipped.
+ */
+export function parseTurnLog(content: string, format: TurnLogFormat): { turns: RawTurn[]; errors: string[] } {
+  const { records, errors } = readRecords(content, format);
+  const turns: RawTurn[] = [];
+
+  for (const { line, values } of records) {
+    const problems: string[] = [];
+    const language = pickString(values, "language");
+    const latencyMs = pickNumber(values, "latencyMs");
+    const utmos = pickNumber(values, "utmos");
+    const mos = pickNumber(values, "mos");
+    const costPerMin = pickNumber(values, "costPerMin");
+    const stack = pickString(values, "stack");
+    const explicit = {
+      stt: pickString(values, "stt"),
+      sttModel: pickString(values, "sttModel"),
+      llm: pickString(values, "llm"),
+      llmModel: pickString(values, "llmModel"),
+      tts: pickString(values, "tts"),
+      ttsModel: pickString(values, "ttsModel"),
+    };
+    const stages = {
+      sttFinalizationMs: pickNumber(values, "sttFinalizationMs"),
+      llmTtftMs: pickNumber(values, "llmTtftMs"),
+      ttsTtfbMs: pickNumber(values, "ttsTtfbMs"),
+    };
+
+    if (!stack && Object.values(explicit).some((value) => !value)) {
+      problems.push("stack is missing (give a stack column or stt/stt_model/llm/llm_model/tts/tts_model)");
+    }
+    if (!language) problems.push("language is missing");
+    if (latencyMs == null) problems.push("latency_ms must be a non-negative number");
+    const quality = utmos ?? mos;
+    if (quality == null || quality > 5) problems.push("utmos or mos must be a number between 0 and 5");
+    if (costPerMin == null) problems.push("cost_per_min must be a non-negative number");
+    for (const [field, value] of Object.entries(stages)) {
+      if (value === null) problems.push(`${field} must be a non-negative number`);
+    }
+
+    if (problems.length > 0) {
+      errors.push(`line ${line}: ${problems.join("; ")}`);
+      continue;
+    }
+
+    turns.push({
+      line,
+      ...(stack ? { stack } : explicit),
+      language: language!,
+      callId: pickString(values, "callId"),
+      latencyMs: latencyMs!,
+      quality: quality!,
+      mos: mos ?? undefined,
+      costPerMin: costPerMin!,
+      sttFinalizationMs: stages.sttFinalizationMs ?? undefined,
+      llmTtftMs: stages.llmTtftMs ?? undefined,
+      ttsTtfbMs: stages.ttsTtfbMs ?? undefined,
+    });
+  }
+
+  return { turns, errors };
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+/** Nearest-rank percentile over an ascending-sorted list. */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+function latencyPercentiles(turns: TurnRecord[]): LatencyPercentiles {
+  const sorted = turns.map((turn) => turn.latencyMs).sort((a, b) => a - b);
+  return {
+    p50: Math.round(percentile(sorted, 50)),
+    p95: Math.round(percentile(sorted, 95)),
+    p99: Math.round(percentile(sorted, 99)),
+  };
+}
+
+/** Distinct calls when call ids are logged, otherwise turns. */
+function sampleSize(turns: TurnRecord[]): number {
+  const calls = new Set(turns.map((turn) => turn.callId).filter(Boolean));
+  return calls.size > 0 ? calls.size : turns.length;
+}
+
+export function stackKey(entry: Pick<TurnRecord, "stt" | "sttModel" | "llm" | "llmModel" | "tts" | "ttsModel">): string {
+  return [entry.stt, entry.sttModel, entry.llm, entry.llmModel, entry.tts, entry.ttsModel].join("|").toLowerCase();
+}
+
+function groupInto(groups: Map<string, TurnRecord[]>, key: string, turn: TurnRecord): void {
+  let group = groups.get(key);
+  if (!group) groups.set(key, (group = []));
+  group.push(turn);
+}
+
+/** Aggregates turns into one BenchmarkEntry per stack, with per-language figures. */
+export function aggregateTurns(turns: TurnRecord[]): BenchmarkEntry[] {
+  const byStack = new Map<string, TurnRecord[]>();
+  for (const turn of turns) groupInto(byStack, stackKey(turn), turn);
+
+  return [...byStack.values()].map((group) => {
+    const [first] = group;
+    const byLanguage = new Map<string, TurnRecord[]>();
+    for (const turn of group) groupInto(byLanguage, turn.language, turn);
+
+    const languageMetrics: Record<string, LanguageMetrics> = {};
+    for (const [language, languageTurns] of byLanguage) {
+      languageMetrics[language] = {
+        latencyMs: Math.round(mean(languageTurns.map((turn) => turn.latencyMs))),
+        latencyPercentiles: latencyPercentiles(languageTurns),
+        quality: round(mean(languageTurns.map((turn) => turn.quality)), 2),
+        costPerMin: round(mean(languageTurns.map((turn) => turn.costPerMin)), 4),
+        sampleSize: sampleSize(languageTurns),
+      };
+    }
+
+    const mosValues = group.flatMap((turn) => (turn.mos === undefined ? [] : [turn.mos]));
+    const staged = group.filter((turn) =>
+      turn.sttFinalizationMs !== undefined && turn.llmTtftMs !== undefined && turn.ttsTtfbMs !== undefined
+    );
+    const calls = sampleSize(group);
+    const hasCallIds = group.some((turn) => turn.callId);
+
+    return {
+      stt: first.stt,
+      sttModel: first.sttModel,
+      llm: first.llm,
+      llmModel: first.llmModel,
+      tts: first.tts,
+      ttsModel: first.ttsModel,
+      latencyMs: Math.round(mean(group.map((turn) => turn.latencyMs))),
+      quality: round(mean(group.map((turn) => turn.quality)), 2),
+      costPerMin: round(mean(group.map((turn) => turn.costPerMin)), 4),
+      ...(mosValues.length ? { mos: round(mean(mosValues), 2) } : {}),
+      ...(staged.length ? {
+        latencyBreakdown: {
+          sttFinalizationMs: Math.round(mean(staged.map((turn) => turn.sttFinalizationMs!))),
+          llmTtftMs: Math.round(mean(staged.map((turn) => turn.llmTtftMs!))),
+          ttsTtfbMs: Math.round(mean(staged.map((turn) => turn.ttsTtfbMs!))),
+        },
+      } : {}),
+      latencyPercentiles: latencyPercentiles(group),
+      languages: [...byLanguage.keys()],
+      languageMetrics,
+      sampleSize: calls,
+      source: "local" as const,
+      notes: `Team-local measurements: ${group.length} turns${hasCallIds ? ` from ${calls} calls` : ""}.`,
+    };
+  });
+}
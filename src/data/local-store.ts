@@ -0,0 +1,135 @@
+/**
+ * Team-local benchmark store.
+ *
+ * Turns ingested with voiceforge_ingest are kept as batches in a JSON file so
+ * aggregates (including percentiles) can be recomputed exactly as more logs
+ * arrive. The file lives at ~/.voiceforge/local-benchmarks.json unless the
+ * VOICEFORGE_STORE environment variable or the --store CLI flag says otherwise.
+ * Each stack and language keeps only its most recent turns, so the file (and
+ * the aggregation at startup) stays bounded as logs keep arriving.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import { readCliOption } from "./dataset.js";
+import { stackKey, type TurnRecord } from "./ingest.js";
+
+export const STORE_ENV_VAR = "VOICEFORGE_STORE";
+export const STORE_CLI_FLAG = "--store";
+const STORE_VERSION = 1;
+/** Turns kept per stack and language; older ones are dropped when new logs arrive. */
+export const MAX_TURNS_PER_STACK_LANGUAGE = 5000;
+
+export interface LocalStoreBatch {
+  id: string;
+  label: string;
+  ingestedAt: string;
+  turns: TurnRecord[];
+}
+
+export interface LocalStore {
+  path: string;
+  batches: LocalStoreBatch[];
+  /** Set when an existing store file could not be read; the store then starts empty. */
+  loadError: string | null;
+}
+
+const nonEmpty = z.string().trim().min(1);
+
+const turnRecordSchema = z.object({
+  stt: nonEmpty,
+  sttModel: nonEmpty,
+  llm: nonEmpty,
+  llmModel: nonEmpty,
+  tts: nonEmpty,
+  ttsModel: nonEmpty,
+  language: nonEmpty,
+  callId: z.string().optional(),
+  latencyMs: z.number().nonnegative(),
+  quality: z.number().min(0).max(5),
+  mos: z.number().min(0).max(5).optional(),
+  costPerMin: z.number().nonnegative(),
+  sttFinalizationMs: z.number().nonnegative().optional(),
+  llmTtftMs: z.number().nonnegative().optional(),
+  ttsTtfbMs: z.number().nonnegative().optional(),
+});
+
+const storeFileSchema = z.object({
+  version: z.literal(STORE_VERSION, { errorMap: () => ({ message: `unsupported store format (expected version ${STORE_VERSION})` }) }),
+  batches: z.array(z.object({
+    id: z.string(),
+    label: z.string(),
+    ingestedAt: z.string(),
+    turns: z.array(turnRecordSchema),
+  })),
+});
+
+export function resolveStorePath(argv: string[], env: NodeJS.ProcessEnv): string {
+  const configured = readCliOption(argv, STORE_CLI_FLAG) ?? (env[STORE_ENV_VAR]?.trim() || null);
+  return path.resolve(configured ?? path.join(os.homedir(), ".voiceforge", "local-benchmarks.json"));
+}
+
+export function readLocalStore(storePath: string): LocalStore {
+  let text: string;
+  try {
+    text = readFileSync(storePath, "utf8");
+  } catch (error) {
+    const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+    return { path: storePath, batches: [], loadError: missing ? null : `${storePath}: ${(error as Error).message}` };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { path: storePath, batches: [], loadError: `${storePath}: ${error instanceof Error ? error.message : "invalid JSON"}` };
+  }
+
+  const parsed = storeFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.length ? issue.path.join(".") : "<root>"}: ${issue.message}`);
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : "";
+    return { path: storePath, batches: [], loadError: `${storePath}: ${issues.slice(0, 3).join("; ")}${more}` };
+  }
+  return { path: storePath, batches: parsed.data.batches, loadError: null };
+}
+
+/** Writes through a temp file so a crash never leaves a half-written store. */
+export function writeLocalStore(store: LocalStore): void {
+  mkdirSync(path.dirname(store.path), { recursive: true });
+  const tempPath = `${store.path}.${process.pid}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify({ version: STORE_VERSION, batches: store.batches }, null, 2)}\n`);
+  renameSync(tempPath, store.path);
+}
+
+export function getStoredTurns(store: LocalStore): TurnRecord[] {
+  return store.batches.flatMap((batch) => batch.turns);
+}
+
+/**
+ * Drops the oldest turns beyond `limit` per stack and language, and any batch
+ * left empty. Returns the number of turns dropped.
+ */
+export function compactLocalStore(store: LocalStore, limit: number = MAX_TURNS_PER_STACK_LANGUAGE): number {
+  const kept = new Map<string, number>();
+  let dropped = 0;
+  const batches: LocalStoreBatch[] = [];
+  for (const batch of [...store.batches].reverse()) {
+    const turns: TurnRecord[] = [];
+    for (const turn of [...batch.turns].reverse()) {
+      const key = `${stackKey(turn)}|${turn.language}`;
+      const count = kept.get(key) ?? 0;
+      if (count >= limit) {
+        dropped += 1;
+        continue;
+      }
+      kept.set(key, count + 1);
+      turns.push(turn);
+    }
+    if (turns.length > 0) batches.push({ ...batch, turns: turns.reverse() });
+  }
+  store.batches = batches.reverse();
+  return dropped;
+}
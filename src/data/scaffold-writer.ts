@@ -0,0 +1,139 @@
+/**
+ * Writes generated scaffold files to disk.
+ *
+ * Output directories must resolve inside an allowed root: the server's working
+ * directory unless the VOICEFORGE_SCAFFOLD_ROOT environment variable or the
+ * --scaffold-root CLI flag says otherwise. Symlinks are resolved before the
+ * check, so a link inside the root cannot send files outside it. Existing files
+ * are left alone unless forced, and a dry run plans every file without
+ * touching the disk. A filesystem error part-way through is reported along
+ * with the files already written.
+ */
+
+import { existsSync, lstatSync, mkdirSync, readFileSync, realpathSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { readCliOption } from "./dataset.js";
+import type { ProjectFile } from "./templates.js";
+
+export const SCAFFOLD_ROOT_ENV_VAR = "VOICEFORGE_SCAFFOLD_ROOT";
+export const SCAFFOLD_ROOT_CLI_FLAG = "--scaffold-root";
+
+/**
+ * created/overwritten: written (or would be, in a dry run).
+ * skipped: already on disk with identical content.
+ * conflict: on disk with different content, or not a regular file; never written.
+ */
+export type FileOutcome = "created" | "overwritten" | "skipped" | "conflict";
+
+export interface PlannedFile {
+  path: string;
+  outcome: FileOutcome;
+  /** Why a file is a conflict. */
+  reason?: string;
+}
+
+export interface ScaffoldWriteReport {
+  root: string;
+  directory: string;
+  dryRun: boolean;
+  force: boolean;
+  files: PlannedFile[];
+}
+
+export type ScaffoldWriteResult =
+  | { ok: true; report: ScaffoldWriteReport }
+  | { ok: false; reason: "outside-root" | "not-a-directory"; message: string }
+  | { ok: false; reason: "write-failed"; message: string; written: string[] };
+
+export function resolveScaffoldRoot(argv: string[], env: NodeJS.ProcessEnv, cwd: string = process.cwd()): string {
+  const configured = readCliOption(argv, SCAFFOLD_ROOT_CLI_FLAG) ?? (env[SCAFFOLD_ROOT_ENV_VAR]?.trim() || null);
+  return path.resolve(cwd, configured ?? ".");
+}
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/** Real path of `target`, resolving symlinks in the part of it that already exists. */
+function realTarget(target: string): string {
+  let existing = target;
+  while (!existsSync(existing) && path.dirname(existing) !== existing) existing = path.dirname(existing);
+  return path.join(realpathSync(existing), path.relative(existing, target));
+}
+
+function planFile(absolutePath: string, content: string, force: boolean): Omit<PlannedFile, "path"> {
+  let stats;
+  try {
+    stats = lstatSync(absolutePath);
+  } catch {
+    return { outcome: "created" };
+  }
+  if (!stats.isFile()) return { outcome: "conflict", reason: stats.isSymbolicLink() ? "is a symlink" : "is not a regular file" };
+  if (readFileSync(absolutePath, "utf8") === content) return { outcome: "skipped" };
+  return force ? { outcome: "overwritten" } : { outcome: "conflict", reason: "exists with different content" };
+}
+
+/**
+ * Writes `files` under `outputDir` (relative to `root` unless absolute). Files that
+ * conflict are reported and left untouched; the others are still written.
+ */
+export function writeScaffold(
+  root: string,
+  outputDir: string,
+  files: ProjectFile[],
+  options: { dryRun: boolean; force: boolean }
+): ScaffoldWriteResult {
+  const written: string[] = [];
+  try {
+    return planAndWrite(root, outputDir, files, options, written);
+  } catch (error) {
+    return { ok: false, reason: "write-failed", message: error instanceof Error ? error.message : "write failed", written };
+  }
+}
+
+/** Records each path in `written` as soon as it is on disk, so a failure can say what already landed. */
+function planAndWrite(
+  root: string,
+  outputDir: string,
+  files: ProjectFile[],
+  options: { dryRun: boolean; force: boolean },
+  written: string[]
+): ScaffoldWriteResult {
+  const realRoot = realTarget(path.resolve(root));
+  const directory = realTarget(path.resolve(root, outputDir));
+  if (!isInside(realRoot, directory)) {
+    return { ok: false, reason: "outside-root", message: `${outputDir} resolves to ${directory}, outside the scaffold root ${realRoot}` };
+  }
+  if (existsSync(directory) && !lstatSync(directory).isDirectory()) {
+    return { ok: false, reason: "not-a-directory", message: `${directory} exists and is not a directory` };
+  }
+
+  const planned = files.map((file) => {
+    const absolutePath = realTarget(path.resolve(directory, file.path));
+    if (!isInside(directory, absolutePath)) {
+      return { file, absolutePath, plan: { outcome: "conflict" as const, reason: "resolves outside the output directory" } };
+    }
+    return { file, absolutePath, plan: planFile(absolutePath, file.content, options.force) };
+  });
+
+  if (!options.dryRun) {
+    for (const { file, absolutePath, plan } of planned) {
+      if (plan.outcome !== "created" && plan.outcome !== "overwritten") continue;
+      mkdirSync(path.dirname(absolutePath), { recursive: true });
+      writeFileSync(absolutePath, file.content);
+      written.push(file.path);
+    }
+  }
+
+  return {
+    ok: true,
+    report: {
+      root: realRoot,
+      directory,
+      dryRun: options.dryRun,
+      force: options.force,
+      files: planned.map(({ file, plan }) => ({ path: file.path, ...plan })),
+    },
+  };
+}
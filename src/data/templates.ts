@@ -2,6 +2,8 @@
  * Project scaffolding templates for different voice AI frameworks.
  */
 
+import type { AgentTool, AgentToolParam, UseCaseTemplate } from "./use-case-templates.js";
+
 export interface ProjectFile {
   path: string;
   content: string;
@@ -73,7 +75,7 @@ function templateOrError(stage: "STT" | "LLM" | "TTS", provider: string, model:
   return expression.replace("{model}", model);
 }
 
-export function getLiveKitAgentTemplate(config: {
+export interface LiveKitTemplateConfig {
   language: string;
   useCase: string;
   stt: string;
@@ -83,7 +85,17 @@ export function getLiveKitAgentTemplate(config: {
   tts: string;
   ttsModel: string;
   agentName: string;
-}): ProjectFile[] {
+  /** Replaces the generic instructions, e.g. with a custom profile's or bundled use case's prompt. */
+  systemPrompt?: string;
+  /** Function tools and opening disclosure for a bundled use case; the Node agent plays only the disclosure. */
+  useCaseTemplate?: UseCaseTemplate;
+  /** Cloud region to deploy in, set when the stack was chosen under a data-residency constraint. */
+  region?: string;
+  compliance?: string[];
+}
+
+/** .env.example shared by the Python and Node LiveKit agents. */
+function liveKitEnvFile(config: LiveKitTemplateConfig): string {
   const envKeyForProvider = (provider: string): string | null => {
     const key = LIVEKIT_ENV_KEYS[provider];
     return key ? `${key}=your-${provider.toLowerCase().replace(/\s/g, "-")}-key` : null;
@@ -97,7 +109,7 @@ export function getLiveKitAgentTemplate(config: {
     return [line];
   };
 
-  const envLines = [
+  return [
     "# VoiceForge Generated Config",
     `# Agent: ${config.agentName}`,
     `# Language: ${config.language} | Use Case: ${config.useCase}`,
@@ -116,56 +128,229 @@ export function getLiveKitAgentTemplate(config: {
     `# TTS: ${config.tts} ${config.ttsModel}`,
     ...addKey(config.tts),
     "",
-  ];
+  ].join("\n");
+}
+
+/** voiceforge.yaml shared by the Python and Node LiveKit agents. */
+function voiceforgeYaml(config: LiveKitTemplateConfig): string {
+  const deploymentYaml = config.region || config.compliance?.length
+    ? [
+        "",
+        "deployment:",
+        ...(config.region ? [`  region: ${config.region}`] : []),
+        ...(config.compliance?.length ? [`  compliance: [${config.compliance.join(", ")}]`] : []),
+        "",
+      ].join("\n")
+    : "";
+
+  return `# VoiceForge Agent Configuration
+# Generated by VoiceForge MCP — https://getvoiceforge.com
+
+agent:
+  name: ${config.agentName}
+  version: "1.0.0"
+  language: ${config.language}
+  use_case: ${config.useCase}
+
+pipeline:
+  stt:
+    provider: ${config.stt.toLowerCase()}
+    model: ${config.sttModel}
+  llm:
+    provider: ${config.llm.toLowerCase()}
+    model: ${config.llmModel}
+    temperature: 0.7
+    max_tokens: 150
+  tts:
+    provider: ${config.tts.toLowerCase()}
+    model: ${config.ttsModel}
+
+quality:
+  target_latency_ms: 250
+  min_utmos: 4.0
+  max_cost_per_min: 0.015
+
+monitoring:
+  log_level: info
+  metrics: true
+  alerts:
+    latency_p95_threshold_ms: 350
+    error_rate_threshold: 0.02
+${deploymentYaml}`;
+}
+
+export const LIVEKIT_VERSIONS = ["1.x", "0.x"] as const;
+/** model: LiveKit's end-of-turn model; vad: silence after speech; stt: the STT provider's endpointing. */
+export const TURN_DETECTION_MODES = ["model", "vad", "stt"] as const;
+export const NOISE_CANCELLATION_MODES = ["none", "nc", "bvc", "bvc-telephony"] as const;
+
+export interface LiveKitAgentOptions {
+  /** 1.x generates the AgentSession/Agent API; 0.x the legacy VoicePipelineAgent. */
+  version: (typeof LIVEKIT_VERSIONS)[number];
+  turnDetection: (typeof TURN_DETECTION_MODES)[number];
+  /** LiveKit Cloud noise cancellation filter applied to the caller's audio. */
+  noiseCancellation: (typeof NOISE_CANCELLATION_MODES)[number];
+}
+
+const NOISE_CANCELLATION_FILTERS: Record<Exclude<LiveKitAgentOptions["noiseCancellation"], "none">, string> = {
+  nc: "noise_cancellation.NC()",
+  bvc: "noise_cancellation.BVC()",
+  "bvc-telephony": "noise_cancellation.BVCTelephony()",
+};
 
-  const sttImports = uniq([LIVEKIT_STT_IMPORTS[config.stt]]);
-  const llmImports = uniq([LIVEKIT_LLM_IMPORTS[config.llm]]);
-  const ttsImports = uniq([LIVEKIT_TTS_IMPORTS[config.tts]]);
+const LIVEKIT_PLUGIN_PACKAGES: Record<string, string> = {
+  Deepgram: "livekit-plugins-deepgram",
+  OpenAI: "livekit-plugins-openai",
+  Cartesia: "livekit-plugins-cartesia",
+  ElevenLabs: "livekit-plugins-elevenlabs",
+  Anthropic: "livekit-plugins-anthropic",
+  Google: "livekit-plugins-google",
+};
+
+/** Python type annotation for a tool parameter; 0.x lists choices in TypeInfo instead of a Literal. */
+function pythonParamType(param: AgentToolParam, legacy: boolean): string {
+  if (!param.choices || legacy) return param.type;
+  return `Literal[${param.choices.map((choice) => JSON.stringify(choice)).join(", ")}]`;
+}
+
+/** A tool stub as an Agent method (1.x @function_tool) or a FunctionContext method (0.x @llm.ai_callable). */
+function liveKitFunctionTool(tool: AgentTool, legacy: boolean): string {
+  const params = tool.params.map((param) => {
+    if (!legacy) return `        ${param.name}: ${pythonParamType(param, legacy)},`;
+    const choices = param.choices ? `, choices=(${param.choices.map((choice) => JSON.stringify(choice)).join(", ")})` : "";
+    return `        ${param.name}: Annotated[${param.type}, llm.TypeInfo(description=${JSON.stringify(param.description)}${choices})],`;
+  });
+  const docstring = legacy
+    ? [`        """${tool.description}"""`]
+    : [
+        `        """${tool.description}`,
+        "",
+        "        Args:",
+        ...tool.params.map((param) => `            ${param.name}: ${param.description}`),
+        `        """`,
+      ];
+  return [
+    legacy ? "    @llm.ai_callable()" : "    @function_tool()",
+    `    async def ${tool.name}(`,
+    "        self,",
+    ...(legacy ? [] : ["        context: RunContext,"]),
+    ...params,
+    "    ) -> str:",
+    ...docstring,
+    ...tool.body.map((line) => `        ${line}`),
+  ].join("\n");
+}
 
-  const envFile = envLines.join("\n");
+/** Fills unset options: 1.x defaults to the turn detector model, 0.x to VAD as the legacy pipeline did. */
+export function resolveLiveKitAgentOptions(options: Partial<LiveKitAgentOptions>): LiveKitAgentOptions {
+  const version = options.version ?? "1.x";
+  return {
+    version,
+    turnDetection: options.turnDetection ?? (version === "0.x" ? "vad" : "model"),
+    noiseCancellation: options.noiseCancellation ?? "none",
+  };
+}
+
+export function getLiveKitAgentTemplate(config: LiveKitTemplateConfig, options: Partial<LiveKitAgentOptions> = {}): ProjectFile[] {
+  const { version, turnDetection, noiseCancellation } = resolveLiveKitAgentOptions(options);
+  const legacy = version === "0.x";
+  if (legacy && turnDetection === "stt") {
+    throw new Error("LiveKit Agents 0.x has no STT turn detection; use turn_detection 'model' or 'vad'");
+  }
+  const englishOnly = config.language === "English";
+  const usesTurnModel = turnDetection === "model";
+  const usesNoiseCancellation = noiseCancellation !== "none";
+  const tools = config.useCaseTemplate?.tools ?? [];
+  const disclosure = config.useCaseTemplate?.disclosure;
+  const usesChoices = tools.some((tool) => tool.params.some((param) => param.choices));
 
-  const agentPy = `"""
+  const providerImports = uniq([
+    LIVEKIT_STT_IMPORTS[config.stt],
+    LIVEKIT_LLM_IMPORTS[config.llm],
+    LIVEKIT_TTS_IMPORTS[config.tts],
+  ]);
+  const featureImports = [
+    "from livekit.plugins import silero",
+    ...(usesTurnModel
+      ? [legacy
+          ? "from livekit.plugins import turn_detector"
+          : englishOnly
+            ? "from livekit.plugins.turn_detector.english import EnglishModel"
+            : "from livekit.plugins.turn_detector.multilingual import MultilingualModel"]
+      : []),
+    ...(usesNoiseCancellation ? ["from livekit.plugins import noise_cancellation"] : []),
+  ];
+
+  const envFile = liveKitEnvFile(config);
+
+  const header = `"""
 ${config.agentName} - Voice AI Agent
 Generated by VoiceForge MCP
 
 Stack: ${config.stt} ${config.sttModel} → ${config.llm} ${config.llmModel} → ${config.tts} ${config.ttsModel}
 Language: ${config.language} | Use Case: ${config.useCase}
-"""
+LiveKit Agents ${version} | Turn detection: ${turnDetection} | Noise cancellation: ${noiseCancellation}
+"""`;
 
-import logging
+  const instructions = config.systemPrompt ? JSON.stringify(config.systemPrompt) : `(
+    "You are a voice AI agent for ${config.useCase.toLowerCase()}. "
+    "You communicate in ${config.language}. "
+    "Keep responses concise (1-2 sentences). "
+    "Be natural, warm, and helpful."
+)`;
+
+  const noiseFilter = usesNoiseCancellation ? NOISE_CANCELLATION_FILTERS[noiseCancellation] : null;
+  const typingImports = legacy
+    ? (tools.length > 0 ? ["Annotated"] : [])
+    : (usesChoices ? ["Literal"] : []);
+  const constants = [
+    ...(disclosure ? [`DISCLOSURE = ${JSON.stringify(disclosure)}`] : []),
+    ...(config.useCaseTemplate?.constants ?? []),
+  ];
+  const toolMethods = tools.map((tool) => liveKitFunctionTool(tool, legacy)).join("\n\n");
+
+  const agentPy = legacy
+    ? `${header}
+
+import logging${typingImports.length > 0 ? `
+from typing import ${typingImports.join(", ")}` : ""}
 from dotenv import load_dotenv
-from livekit.agents import AutoSubscribe, JobContext, WorkerOptions, cli, llm
+from livekit.agents import AutoSubscribe, JobContext, JobProcess, WorkerOptions, cli, llm
 from livekit.agents.pipeline import VoicePipelineAgent
-${sttImports.filter(Boolean).join("\n")}
-${llmImports.filter(Boolean).join("\n")}
-${ttsImports.filter(Boolean).join("\n")}
+${[...providerImports, ...featureImports].join("\n")}
 
 load_dotenv()
 logger = logging.getLogger("${config.agentName}")
 
+INSTRUCTIONS = ${instructions}
+${constants.map((constant) => `\n${constant}\n`).join("")}${tools.length > 0 ? `
+
+class AssistantFunctions(llm.FunctionContext):
+${toolMethods}
+` : ""}
+
+def prewarm(proc: JobProcess):
+    proc.userdata["vad"] = silero.VAD.load()
+
 
 async def entrypoint(ctx: JobContext):
     await ctx.connect(auto_subscribe=AutoSubscribe.AUDIO_ONLY)
 
-    initial_ctx = llm.ChatContext().append(
-        role="system",
-        text=(
-            "You are a voice AI agent for ${config.useCase.toLowerCase()}. "
-            "You communicate in ${config.language}. "
-            "Keep responses concise (1-2 sentences). "
-            "Be natural, warm, and helpful."
-        ),
-    )
+    initial_ctx = llm.ChatContext().append(role="system", text=INSTRUCTIONS)
 
     agent = VoicePipelineAgent(
-        vad=ctx.proc.userdata.get("vad"),
+        vad=ctx.proc.userdata["vad"],
         stt=${templateOrError("STT", config.stt, config.sttModel)},
         llm=${templateOrError("LLM", config.llm, config.llmModel)},
         tts=${templateOrError("TTS", config.tts, config.ttsModel)},
-        chat_ctx=initial_ctx,
+        chat_ctx=initial_ctx,${tools.length > 0 ? `
+        fnc_ctx=AssistantFunctions(),` : ""}${usesTurnModel ? `
+        turn_detector=turn_detector.EOUModel(),` : ""}${noiseFilter ? `
+        noise_cancellation=${noiseFilter},` : ""}
     )
 
-    agent.start(ctx.room)
+    agent.start(ctx.room)${disclosure ? `
+    await agent.say(DISCLOSURE, allow_interruptions=False)` : ""}
     await agent.say(
         "Hello! How can I help you today?",
         allow_interruptions=True,
@@ -173,67 +358,67 @@ async def entrypoint(ctx: JobContext):
 
 
 if __name__ == "__main__":
-    cli.run_app(WorkerOptions(entrypoint_fnc=entrypoint))
-`;
+    cli.run_app(WorkerOptions(entrypoint_fnc=entrypoint, prewarm_fnc=prewarm))
+`
+    : `${header}
 
-  const LIVEKIT_PLUGIN_PACKAGES: Record<string, string> = {
-    Deepgram: "livekit-plugins-deepgram>=1.0.0",
-    OpenAI: "livekit-plugins-openai>=1.0.0",
-    Cartesia: "livekit-plugins-cartesia>=1.0.0",
-    ElevenLabs: "livekit-plugins-elevenlabs>=1.0.0",
-    Anthropic: "livekit-plugins-anthropic>=1.0.0",
-    Google: "livekit-plugins-google>=1.0.0",
-  };
+import logging${typingImports.length > 0 ? `
+from typing import ${typingImports.join(", ")}` : ""}
+from dotenv import load_dotenv
+from livekit.agents import Agent, AgentSession, JobContext, JobProcess, ${noiseFilter ? "RoomInputOptions, " : ""}${tools.length > 0 ? "RunContext, " : ""}WorkerOptions, cli${tools.length > 0 ? ", function_tool" : ""}
+${[...providerImports, ...featureImports].join("\n")}
 
-  const pluginLines = uniq([
-    LIVEKIT_PLUGIN_PACKAGES[config.stt],
-    LIVEKIT_PLUGIN_PACKAGES[config.llm],
-    LIVEKIT_PLUGIN_PACKAGES[config.tts],
-  ].filter(Boolean));
+load_dotenv()
+logger = logging.getLogger("${config.agentName}")
+${constants.map((constant) => `\n${constant}\n`).join("")}
 
-  const requirementsTxt = [
-    "livekit-agents>=1.0.0",
-    ...pluginLines,
-    "livekit-plugins-silero>=1.0.0",
-    "python-dotenv>=1.0.0",
-    "",
-  ].join("\n");
+class Assistant(Agent):
+    def __init__(self) -> None:
+        super().__init__(
+            instructions=${instructions.replace(/\n/g, "\n            ")},
+        )
+${tools.length > 0 ? `\n${toolMethods}\n` : ""}
 
-  const voiceforgeYaml = `# VoiceForge Agent Configuration
-# Generated by VoiceForge MCP — https://getvoiceforge.com
+def prewarm(proc: JobProcess):
+    proc.userdata["vad"] = silero.VAD.load()
 
-agent:
-  name: ${config.agentName}
-  version: "1.0.0"
-  language: ${config.language}
-  use_case: ${config.useCase}
 
-pipeline:
-  stt:
-    provider: ${config.stt.toLowerCase()}
-    model: ${config.sttModel}
-  llm:
-    provider: ${config.llm.toLowerCase()}
-    model: ${config.llmModel}
-    temperature: 0.7
-    max_tokens: 150
-  tts:
-    provider: ${config.tts.toLowerCase()}
-    model: ${config.ttsModel}
+async def entrypoint(ctx: JobContext):
+    session = AgentSession(
+        vad=ctx.proc.userdata["vad"],
+        stt=${templateOrError("STT", config.stt, config.sttModel)},
+        llm=${templateOrError("LLM", config.llm, config.llmModel)},
+        tts=${templateOrError("TTS", config.tts, config.ttsModel)},
+        turn_detection=${usesTurnModel ? (englishOnly ? "EnglishModel()" : "MultilingualModel()") : `"${turnDetection}"`},
+    )
 
-quality:
-  target_latency_ms: 250
-  min_utmos: 4.0
-  max_cost_per_min: 0.015
+    await session.start(
+        room=ctx.room,
+        agent=Assistant(),${noiseFilter ? `
+        room_input_options=RoomInputOptions(noise_cancellation=${noiseFilter}),` : ""}
+    )
+    await ctx.connect()
+${disclosure ? `
+    await session.say(DISCLOSURE, allow_interruptions=False)` : ""}
+    await session.generate_reply(instructions="Greet the user and offer your help.")
 
-monitoring:
-  log_level: info
-  metrics: true
-  alerts:
-    latency_p95_threshold_ms: 350
-    error_rate_threshold: 0.02
+
+if __name__ == "__main__":
+    cli.run_app(WorkerOptions(entrypoint_fnc=entrypoint, prewarm_fnc=prewarm))
 `;
 
+  // 0.x plugins are versioned independently below 1.0; 1.x plugins release in lockstep with livekit-agents.
+  const pin = (pkg: string): string => `${pkg}${legacy ? "<1.0" : ">=1.0.0"}`;
+  const requirementsTxt = [
+    legacy ? "livekit-agents>=0.12,<1.0" : "livekit-agents>=1.0.0",
+    ...uniq([LIVEKIT_PLUGIN_PACKAGES[config.stt], LIVEKIT_PLUGIN_PACKAGES[config.llm], LIVEKIT_PLUGIN_PACKAGES[config.tts]]).map(pin),
+    pin("livekit-plugins-silero"),
+    ...(usesTurnModel ? [pin("livekit-plugins-turn-detector")] : []),
+    ...(usesNoiseCancellation ? ["livekit-plugins-noise-cancellation>=0.2.0"] : []),
+    "python-dotenv>=1.0.0",
+    "",
+  ].join("\n");
+
   const readmeMd = `# ${config.agentName}
 
 Voice AI agent generated by [VoiceForge](https://getvoiceforge.com).
@@ -248,13 +433,19 @@ Voice AI agent generated by [VoiceForge](https://getvoiceforge.com).
 
 **Language:** ${config.language}
 **Use Case:** ${config.useCase}
+**LiveKit Agents:** ${legacy ? "0.x (legacy VoicePipelineAgent)" : "1.x (AgentSession)"}
+**Turn detection:** ${turnDetection}
+**Noise cancellation:** ${noiseCancellation}${usesNoiseCancellation ? " (requires LiveKit Cloud)" : ""}
 
 ## Setup
 
 \`\`\`bash
 # Install dependencies
 pip install -r requirements.txt
-
+${usesTurnModel ? `
+# Download the turn detector and VAD model weights
+python agent.py download-files
+` : ""}
 # Configure environment
 cp .env.example .env
 # Edit .env with your API keys
@@ -280,7 +471,192 @@ npx voiceforge-mcp
     { path: ".env.example", content: envFile },
     { path: "agent.py", content: agentPy },
     { path: "requirements.txt", content: requirementsTxt },
-    { path: "voiceforge.yaml", content: voiceforgeYaml },
+    { path: "voiceforge.yaml", content: voiceforgeYaml(config) },
+    { path: "README.md", content: readmeMd },
+  ];
+}
+
+interface LiveKitNodePlugin {
+  /** npm package of the plugin; also the module the agent imports. */
+  package: string;
+  /** Namespace the plugin is imported as. */
+  namespace: string;
+  /** Constructor expression; {model} is replaced with the model name. */
+  constructor: string;
+}
+
+const LIVEKIT_NODE_PLUGINS: Record<"STT" | "LLM" | "TTS", Record<string, LiveKitNodePlugin>> = {
+  STT: {
+    Deepgram: { package: "@livekit/agents-plugin-deepgram", namespace: "deepgram", constructor: "new deepgram.STT({ model: \"{model}\" })" },
+    OpenAI: { package: "@livekit/agents-plugin-openai", namespace: "openai", constructor: "new openai.STT({ model: \"{model}\" })" },
+  },
+  LLM: {
+    OpenAI: { package: "@livekit/agents-plugin-openai", namespace: "openai", constructor: "new openai.LLM({ model: \"{model}\" })" },
+    Google: { package: "@livekit/agents-plugin-google", namespace: "google", constructor: "new google.LLM({ model: \"{model}\" })" },
+    // Groq is served through the OpenAI plugin's OpenAI-compatible client.
+    Groq: { package: "@livekit/agents-plugin-openai", namespace: "openai", constructor: "openai.LLM.withGroq({ model: \"{model}\" })" },
+  },
+  TTS: {
+    Cartesia: { package: "@livekit/agents-plugin-cartesia", namespace: "cartesia", constructor: "new cartesia.TTS({ model: \"{model}\" })" },
+    ElevenLabs: { package: "@livekit/agents-plugin-elevenlabs", namespace: "elevenlabs", constructor: "new elevenlabs.TTS({ modelID: \"{model}\" })" },
+  },
+};
+
+function liveKitNodePluginOrError(stage: "STT" | "LLM" | "TTS", provider: string): LiveKitNodePlugin {
+  const plugin = LIVEKIT_NODE_PLUGINS[stage][provider];
+  if (!plugin) throw new Error(`LiveKit Node scaffold does not support ${stage} provider: ${provider}`);
+  return plugin;
+}
+
+export function getLiveKitNodeTemplate(config: LiveKitTemplateConfig): ProjectFile[] {
+  const stt = liveKitNodePluginOrError("STT", config.stt);
+  const llm = liveKitNodePluginOrError("LLM", config.llm);
+  const tts = liveKitNodePluginOrError("TTS", config.tts);
+  const plugins = [stt, llm, tts].filter((plugin, index, all) => all.findIndex((other) => other.package === plugin.package) === index);
+
+  const disclosure = config.useCaseTemplate?.disclosure;
+  const instructions = config.systemPrompt
+    ? JSON.stringify(config.systemPrompt)
+    : `[
+  "You are a voice AI agent for ${config.useCase.toLowerCase()}.",
+  "You communicate in ${config.language}.",
+  "Keep responses concise (1-2 sentences).",
+  "Be natural, warm, and helpful.",
+].join(" ")`;
+
+  const agentTs = `/**
+ * ${config.agentName} - Voice AI Agent (LiveKit Node)
+ * Generated by VoiceForge MCP
+ *
+ * Stack: ${config.stt} ${config.sttModel} → ${config.llm} ${config.llmModel} → ${config.tts} ${config.ttsModel}
+ * Language: ${config.language} | Use Case: ${config.useCase}
+ */
+
+import { type JobContext, type JobProcess, WorkerOptions, cli, defineAgent, voice } from "@livekit/agents";
+${plugins.map((plugin) => `import * as ${plugin.namespace} from "${plugin.package}";`).join("\n")}
+import * as silero from "@livekit/agents-plugin-silero";
+import dotenv from "dotenv";
+import { fileURLToPath } from "node:url";
+
+dotenv.config();
+
+const INSTRUCTIONS = ${instructions};${disclosure ? `
+const DISCLOSURE = ${JSON.stringify(disclosure)};` : ""}
+
+export default defineAgent({
+  prewarm: async (proc: JobProcess) => {
+    proc.userData.vad = await silero.VAD.load();
+  },
+  entry: async (ctx: JobContext) => {
+    const session = new voice.AgentSession({
+      vad: ctx.proc.userData.vad as silero.VAD,
+      stt: ${stt.constructor.replace("{model}", config.sttModel)},
+      llm: ${llm.constructor.replace("{model}", config.llmModel)},
+      tts: ${tts.constructor.replace("{model}", config.ttsModel)},
+    });
+
+    await session.start({
+      agent: new voice.Agent({ instructions: INSTRUCTIONS }),
+      room: ctx.room,
+    });
+    await ctx.connect();
+${disclosure ? `
+    await session.say(DISCLOSURE, { allowInterruptions: false }).waitForPlayout();` : ""}
+    session.generateReply({ instructions: "Greet the user and offer your help." });
+  },
+});
+
+cli.runApp(new WorkerOptions({ agent: fileURLToPath(import.meta.url) }));
+`;
+
+  const packageJson = `${JSON.stringify({
+    name: config.agentName,
+    version: "1.0.0",
+    private: true,
+    type: "module",
+    scripts: {
+      build: "tsc",
+      dev: "tsx src/agent.ts dev",
+      start: "node dist/agent.js start",
+    },
+    dependencies: {
+      "@livekit/agents": "^1.0.0",
+      ...Object.fromEntries(plugins.map((plugin) => [plugin.package, "^1.0.0"])),
+      "@livekit/agents-plugin-silero": "^1.0.0",
+      dotenv: "^16.4.0",
+    },
+    devDependencies: {
+      "@types/node": "^20.0.0",
+      tsx: "^4.19.0",
+      typescript: "^5.5.0",
+    },
+  }, null, 2)}\n`;
+
+  const tsconfigJson = `${JSON.stringify({
+    compilerOptions: {
+      target: "ES2022",
+      module: "NodeNext",
+      moduleResolution: "NodeNext",
+      outDir: "dist",
+      rootDir: "src",
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+    },
+    include: ["src"],
+  }, null, 2)}\n`;
+
+  const readmeMd = `# ${config.agentName}
+
+Voice AI agent generated by [VoiceForge](https://getvoiceforge.com), built on [LiveKit Agents for Node.js](https://github.com/livekit/agents-js).
+
+## Stack
+
+| Component | Provider | Model |
+|-----------|----------|-------|
+| STT | ${config.stt} | ${config.sttModel} |
+| LLM | ${config.llm} | ${config.llmModel} |
+| TTS | ${config.tts} | ${config.ttsModel} |
+
+**Language:** ${config.language}
+**Use Case:** ${config.useCase}
+
+## Setup
+
+\`\`\`bash
+# Install dependencies
+npm install
+
+# Configure environment
+cp .env.example .env
+# Edit .env with your API keys
+
+# Run the agent in development mode
+npm run dev
+
+# Or build and run in production
+npm run build && npm start
+\`\`\`
+
+## Configuration
+
+Edit \`voiceforge.yaml\` to adjust pipeline settings, quality targets, and monitoring thresholds.
+
+## Powered by VoiceForge
+
+This agent was scaffolded using VoiceForge MCP. To optimize your stack:
+
+\`\`\`
+npx voiceforge-mcp
+\`\`\`
+`;
+
+  return [
+    { path: ".env.example", content: liveKitEnvFile(config) },
+    { path: "src/agent.ts", content: agentTs },
+    { path: "package.json", content: packageJson },
+    { path: "tsconfig.json", content: tsconfigJson },
+    { path: "voiceforge.yaml", content: voiceforgeYaml(config) },
     { path: "README.md", content: readmeMd },
   ];
 }
@@ -375,3 +751,1405 @@ export function VoiceWidget() {
     { path: "components/voice-widget.tsx", content: voiceWidgetTsx },
   ];
 }
+
+interface PipecatService {
+  imports: string[];
+  /**
+   * Constructor call, indented for the bot's main(). {model} is replaced with the model name,
+   * {language} with the ISO 639-1 code and {streaming_model} with AssemblyAI's streaming model for it.
+   */
+  constructor: string;
+  /** pipecat-ai extra that installs the service's dependencies. */
+  extra: string;
+  env: string[];
+}
+
+const PIPECAT_SERVICES: Record<"STT" | "LLM" | "TTS", Record<string, PipecatService>> = {
+  STT: {
+    Deepgram: {
+      imports: ["from deepgram import LiveOptions", "from pipecat.services.deepgram.stt import DeepgramSTTService"],
+      constructor: `DeepgramSTTService(
+        api_key=os.getenv("DEEPGRAM_API_KEY"),
+        live_options=LiveOptions(model="{model}", language="{language}"),
+    )`,
+      extra: "deepgram",
+      env: ["DEEPGRAM_API_KEY=your-deepgram-key"],
+    },
+    AssemblyAI: {
+      imports: ["from pipecat.services.assemblyai.models import AssemblyAIConnectionParams", "from pipecat.services.assemblyai.stt import AssemblyAISTTService"],
+      constructor: `AssemblyAISTTService(
+        api_key=os.getenv("ASSEMBLYAI_API_KEY"),
+        # Streams with {model}; the streaming API picks its own model per language.
+        connection_params=AssemblyAIConnectionParams(speech_model="{streaming_model}"),
+    )`,
+      extra: "assemblyai",
+      env: ["ASSEMBLYAI_API_KEY=your-assemblyai-key"],
+    },
+    OpenAI: {
+      imports: ["from pipecat.services.openai.stt import OpenAISTTService", "from pipecat.transcriptions.language import Language"],
+      constructor: `OpenAISTTService(api_key=os.getenv("OPENAI_API_KEY"), model="{model}", language=Language("{language}"))`,
+      extra: "openai",
+      env: ["OPENAI_API_KEY=your-openai-key"],
+    },
+    Speechmatics: {
+      imports: ["from pipecat.services.speechmatics.stt import SpeechmaticsSTTService", "from pipecat.transcriptions.language import Language"],
+      constructor: `SpeechmaticsSTTService(
+        api_key=os.getenv("SPEECHMATICS_API_KEY"),
+        params=SpeechmaticsSTTService.InputParams(language=Language("{language}"), operating_point="{model}"),
+    )`,
+      extra: "speechmatics",
+      env: ["SPEECHMATICS_API_KEY=your-speechmatics-key"],
+    },
+    Google: {
+      imports: ["from pipecat.services.google.stt import GoogleSTTService", "from pipecat.transcriptions.language import Language"],
+      constructor: `GoogleSTTService(
+        credentials_path=os.getenv("GOOGLE_APPLICATION_CREDENTIALS"),
+        params=GoogleSTTService.InputParams(languages=[Language("{language}")], model="{model}"),
+    )`,
+      extra: "google",
+      env: ["GOOGLE_APPLICATION_CREDENTIALS=path/to/service-account.json"],
+    },
+  },
+  LLM: {
+    OpenAI: {
+      imports: ["from pipecat.services.openai.llm import OpenAILLMService"],
+      constructor: `OpenAILLMService(api_key=os.getenv("OPENAI_API_KEY"), model="{model}")`,
+      extra: "openai",
+      env: ["OPENAI_API_KEY=your-openai-key"],
+    },
+    Anthropic: {
+      imports: ["from pipecat.services.anthropic.llm import AnthropicLLMService"],
+      constructor: `AnthropicLLMService(api_key=os.getenv("ANTHROPIC_API_KEY"), model="{model}")`,
+      extra: "anthropic",
+      env: ["ANTHROPIC_API_KEY=your-anthropic-key"],
+    },
+    Google: {
+      imports: ["from pipecat.services.google.llm import GoogleLLMService"],
+      constructor: `GoogleLLMService(api_key=os.getenv("GOOGLE_API_KEY"), model="{model}")`,
+      extra: "google",
+      env: ["GOOGLE_API_KEY=your-google-key"],
+    },
+    Groq: {
+      imports: ["from pipecat.services.groq.llm import GroqLLMService"],
+      constructor: `GroqLLMService(api_key=os.getenv("GROQ_API_KEY"), model="{model}")`,
+      extra: "groq",
+      env: ["GROQ_API_KEY=your-groq-key"],
+    },
+  },
+  TTS: {
+    Cartesia: {
+      imports: ["from pipecat.services.cartesia.tts import CartesiaTTSService"],
+      constructor: `CartesiaTTSService(
+        api_key=os.getenv("CARTESIA_API_KEY"),
+        voice_id=os.getenv("CARTESIA_VOICE_ID"),
+        model="{model}",
+    )`,
+      extra: "cartesia",
+      env: ["CARTESIA_API_KEY=your-cartesia-key", "CARTESIA_VOICE_ID=your-voice-id"],
+    },
+    ElevenLabs: {
+      imports: ["from pipecat.services.elevenlabs.tts import ElevenLabsTTSService"],
+      constructor: `ElevenLabsTTSService(
+        api_key=os.getenv("ELEVENLABS_API_KEY"),
+        voice_id=os.getenv("ELEVENLABS_VOICE_ID"),
+        model="{model}",
+    )`,
+      extra: "elevenlabs",
+      env: ["ELEVENLABS_API_KEY=your-elevenlabs-key", "ELEVENLABS_VOICE_ID=your-voice-id"],
+    },
+    PlayHT: {
+      imports: ["from pipecat.services.playht.tts import PlayHTTTSService"],
+      constructor: `PlayHTTTSService(
+        api_key=os.getenv("PLAYHT_API_KEY"),
+        user_id=os.getenv("PLAYHT_USER_ID"),
+        voice_url=os.getenv("PLAYHT_VOICE_URL"),
+        voice_engine="{model}",
+    )`,
+      extra: "playht",
+      env: ["PLAYHT_API_KEY=your-playht-key", "PLAYHT_USER_ID=your-user-id", "PLAYHT_VOICE_URL=your-voice-manifest-url"],
+    },
+    Rime: {
+      imports: ["from pipecat.services.rime.tts import RimeTTSService"],
+      constructor: `RimeTTSService(
+        api_key=os.getenv("RIME_API_KEY"),
+        voice_id=os.getenv("RIME_VOICE_ID"),
+        model="{model}",
+    )`,
+      extra: "rime",
+      env: ["RIME_API_KEY=your-rime-key", "RIME_VOICE_ID=your-voice-id"],
+    },
+  },
+};
+
+function pipecatServiceOrError(stage: "STT" | "LLM" | "TTS", provider: string): PipecatService {
+  const service = PIPECAT_SERVICES[stage][provider];
+  if (!service) throw new Error(`Pipecat scaffold does not support ${stage} provider: ${provider}`);
+  return service;
+}
+
+export function getPipecatTemplate(config: {
+  language: string;
+  /** ISO 639-1 code the STT service transcribes, e.g. "en". */
+  languageCode: string;
+  useCase: string;
+  stt: string;
+  sttModel: string;
+  llm: string;
+  llmModel: string;
+  tts: string;
+  ttsModel: string;
+  agentName: string;
+  /** Replaces the generic instructions, e.g. from a custom use-case profile. */
+  systemPrompt?: string;
+  /** Bundled use case; its disclosure is spoken before the bot's first reply. */
+  useCaseTemplate?: UseCaseTemplate;
+}): ProjectFile[] {
+  const stt = pipecatServiceOrError("STT", config.stt);
+  const llm = pipecatServiceOrError("LLM", config.llm);
+  const tts = pipecatServiceOrError("TTS", config.tts);
+  const disclosure = config.useCaseTemplate?.disclosure;
+
+  const seenEnv = new Set<string>();
+  const envFor = (service: PipecatService): string[] => service.env.filter((line) => {
+    if (seenEnv.has(line)) return false;
+    seenEnv.add(line);
+    return true;
+  });
+
+  const envFile = [
+    "# VoiceForge Generated Config",
+    `# Agent: ${config.agentName}`,
+    `# Language: ${config.language} | Use Case: ${config.useCase}`,
+    "",
+    "# Daily transport",
+    "DAILY_ROOM_URL=https://your-domain.daily.co/your-room",
+    "DAILY_TOKEN=your-meeting-token",
+    "",
+    `# STT: ${config.stt} ${config.sttModel}`,
+    ...envFor(stt),
+    "",
+    `# LLM: ${config.llm} ${config.llmModel}`,
+    ...envFor(llm),
+    "",
+    `# TTS: ${config.tts} ${config.ttsModel}`,
+    ...envFor(tts),
+    "",
+  ].join("\n");
+
+  const botPy = `"""
+${config.agentName} - Voice AI Agent (Pipecat)
+Generated by VoiceForge MCP
+
+Stack: ${config.stt} ${config.sttModel} → ${config.llm} ${config.llmModel} → ${config.tts} ${config.ttsModel}
+Language: ${config.language} | Use Case: ${config.useCase}
+"""
+
+import asyncio
+import os
+
+from dotenv import load_dotenv
+from pipecat.audio.vad.silero import SileroVADAnalyzer${disclosure ? `
+from pipecat.frames.frames import TTSSpeakFrame` : ""}
+from pipecat.pipeline.pipeline import Pipeline
+from pipecat.pipeline.runner import PipelineRunner
+from pipecat.pipeline.task import PipelineParams, PipelineTask
+from pipecat.processors.aggregators.openai_llm_context import OpenAILLMContext${disclosure ? `
+from pipecat.processors.filters.stt_mute_filter import STTMuteConfig, STTMuteFilter, STTMuteStrategy` : ""}
+from pipecat.transports.services.daily import DailyParams, DailyTransport
+${uniq([...stt.imports, ...llm.imports, ...tts.imports]).join("\n")}
+
+load_dotenv()
+
+SYSTEM_PROMPT = ${config.systemPrompt ? JSON.stringify(config.systemPrompt) : `(
+    "You are a voice AI agent for ${config.useCase.toLowerCase()}. "
+    "You communicate in ${config.language}. "
+    "Keep responses concise (1-2 sentences). "
+    "Be natural, warm, and helpful."
+)`}${disclosure ? `
+DISCLOSURE = ${JSON.stringify(disclosure)}` : ""}
+
+
+async def main():
+    transport = DailyTransport(
+        os.getenv("DAILY_ROOM_URL"),
+        os.getenv("DAILY_TOKEN"),
+        "${config.agentName}",
+        DailyParams(
+            audio_in_enabled=True,
+            audio_out_enabled=True,
+            vad_analyzer=SileroVADAnalyzer(),
+        ),
+    )
+
+    stt = ${stt.constructor
+      .replace("{model}", config.sttModel)
+      .replace("{language}", config.languageCode)
+      .replace("{streaming_model}", config.languageCode === "en" ? "universal-streaming-english" : "universal-streaming-multilingual")}
+    llm = ${llm.constructor.replace("{model}", config.llmModel)}
+    tts = ${tts.constructor.replace("{model}", config.ttsModel)}
+
+    context = OpenAILLMContext([{"role": "system", "content": SYSTEM_PROMPT}])
+    context_aggregator = llm.create_context_aggregator(context)${disclosure ? `
+    # Ignore the caller while the disclosure (the bot's first speech) plays, so it cannot be cut off.
+    stt_mute = STTMuteFilter(config=STTMuteConfig(strategies={STTMuteStrategy.FIRST_SPEECH}))` : ""}
+
+    pipeline = Pipeline(
+        [
+            transport.input(),
+            stt,${disclosure ? `
+            stt_mute,` : ""}
+            context_aggregator.user(),
+            llm,
+            tts,
+            transport.output(),
+            context_aggregator.assistant(),
+        ]
+    )
+
+    task = PipelineTask(pipeline, params=PipelineParams(allow_interruptions=True))
+
+    @transport.event_handler("on_first_participant_joined")
+    async def on_first_participant_joined(transport, participant):${disclosure ? `
+        # Read the disclosure verbatim, then let the LLM open the conversation from the system prompt.
+        await task.queue_frames([TTSSpeakFrame(DISCLOSURE), context_aggregator.user().get_context_frame()])` : `
+        # Let the LLM open the conversation from the system prompt.
+        await task.queue_frames([context_aggregator.user().get_context_frame()])`}
+
+    @transport.event_handler("on_participant_left")
+    async def on_participant_left(transport, participant, reason):
+        await task.cancel()
+
+    await PipelineRunner().run(task)
+
+
+if __name__ == "__main__":
+    asyncio.run(main())
+`;
+
+  const extras = uniq(["daily", "silero", stt.extra, llm.extra, tts.extra]);
+  const requirementsTxt = [
+    `pipecat-ai[${extras.join(",")}]>=0.0.80`,
+    "python-dotenv>=1.0.0",
+    "",
+  ].join("\n");
+
+  const readmeMd = `# ${config.agentName}
+
+Voice AI agent generated by [VoiceForge](https://getvoiceforge.com), built on [Pipecat](https://github.com/pipecat-ai/pipecat).
+
+## Stack
+
+| Component | Provider | Model |
+|-----------|----------|-------|
+| STT | ${config.stt} | ${config.sttModel} |
+| LLM | ${config.llm} | ${config.llmModel} |
+| TTS | ${config.tts} | ${config.ttsModel} |
+
+**Language:** ${config.language}
+**Use Case:** ${config.useCase}
+
+## Pipeline
+
+\`bot.py\` joins a Daily room and runs: transport input → STT → user context aggregator → LLM → TTS → transport output → assistant context aggregator.
+Silero VAD detects when the caller stops speaking, and the caller can interrupt the bot.
+
+## Setup
+
+\`\`\`bash
+# Install dependencies
+pip install -r requirements.txt
+
+# Configure environment
+cp .env.example .env
+# Edit .env with your Daily room and API keys
+
+# Run the bot
+python bot.py
+\`\`\`
+
+## Powered by VoiceForge
+
+This agent was scaffolded using VoiceForge MCP. To optimize your stack:
+
+\`\`\`
+npx voiceforge-mcp
+\`\`\`
+`;
+
+  return [
+    { path: ".env.example", content: envFile },
+    { path: "bot.py", content: botPy },
+    { path: "requirements.txt", content: requirementsTxt },
+    { path: "README.md", content: readmeMd },
+  ];
+}
+
+/** A provider client module for the generated Node servers (Twilio and Next.js). */
+interface ProviderAdapter {
+  /** Source of the module; {model} and {language} are replaced. */
+  source: string;
+  env: string[];
+}
+
+const TELEPHONY_STT_STREAM_HEADER = `import WebSocket from "ws";
+
+export interface SttEvents {
+  /** The caller is talking; used for barge-in. */
+  onSpeech(): void;
+  /** The caller finished an utterance. */
+  onFinal(text: string): void;
+}
+
+export interface SttStream {
+  /** Sends 8kHz 16-bit little-endian PCM. */
+  send(pcm: Buffer): void;
+  /** Flushes pending audio and resolves once the last transcript has arrived. */
+  close(): Promise<void>;
+}
+`;
+
+const TELEPHONY_STT: Record<string, ProviderAdapter> = {
+  Deepgram: {
+    source: `${TELEPHONY_STT_STREAM_HEADER}
+export function openSttStream(events: SttEvents): SttStream {
+  const params = new URLSearchParams({
+    model: "{model}",
+    language: "{language}",
+    encoding: "linear16",
+    sample_rate: "8000",
+    channels: "1",
+    interim_results: "true",
+    endpointing: "300",
+    utterance_end_ms: "1000",
+    smart_format: "true",
+  });
+  const socket = new WebSocket("wss://api.deepgram.com/v1/listen?" + params, {
+    headers: { Authorization: "Token " + process.env.DEEPGRAM_API_KEY },
+  });
+  const queued: Buffer[] = [];
+  let utterance = "";
+  const finish = (): void => {
+    if (utterance) events.onFinal(utterance);
+    utterance = "";
+  };
+
+  socket.on("open", () => queued.splice(0).forEach((pcm) => socket.send(pcm)));
+  socket.on("message", (data) => {
+    const message = JSON.parse(data.toString());
+    if (message.type === "UtteranceEnd") return finish();
+    if (message.type !== "Results") return;
+    const text: string = message.channel?.alternatives?.[0]?.transcript ?? "";
+    if (text) events.onSpeech();
+    if (message.is_final && text) utterance = utterance ? utterance + " " + text : text;
+    if (message.speech_final) finish();
+  });
+  socket.on("error", (error) => console.error("Deepgram error:", error.message));
+  const closed = new Promise<void>((resolve) => socket.on("close", () => {
+    finish();
+    resolve();
+  }));
+
+  return {
+    send: (pcm) => (socket.readyState === WebSocket.OPEN ? socket.send(pcm) : queued.push(pcm)),
+    close: () => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "CloseStream" }));
+      else socket.close();
+      return closed;
+    },
+  };
+}
+`,
+    env: ["DEEPGRAM_API_KEY=your-deepgram-key"],
+  },
+  AssemblyAI: {
+    source: `${TELEPHONY_STT_STREAM_HEADER}
+/** AssemblyAI wants 50-1000ms per message; Twilio frames are 20ms, so send 100ms at a time. */
+const CHUNK_BYTES = 1600;
+
+const LANGUAGE: string = "{language}";
+
+export function openSttStream(events: SttEvents): SttStream {
+  // Streams with {model}; the streaming API picks its own model per language.
+  const params = new URLSearchParams({
+    sample_rate: "8000",
+    encoding: "pcm_s16le",
+    format_turns: "true",
+    speech_model: LANGUAGE === "en" ? "universal-streaming-english" : "universal-streaming-multilingual",
+  });
+  const socket = new WebSocket("wss://streaming.assemblyai.com/v3/ws?" + params, {
+    headers: { Authorization: process.env.ASSEMBLYAI_API_KEY ?? "" },
+  });
+  const queued: Buffer[] = [];
+  let pending = Buffer.alloc(0);
+  const flush = (): void => {
+    if (pending.length === 0) return;
+    if (socket.readyState === WebSocket.OPEN) socket.send(pending);
+    else queued.push(pending);
+    pending = Buffer.alloc(0);
+  };
+
+  socket.on("open", () => queued.splice(0).forEach((pcm) => socket.send(pcm)));
+  socket.on("message", (data) => {
+    const message = JSON.parse(data.toString());
+    if (message.type !== "Turn") return;
+    if (message.transcript) events.onSpeech();
+    if (message.end_of_turn && message.turn_is_formatted && message.transcript) events.onFinal(message.transcript);
+  });
+  socket.on("error", (error) => console.error("AssemblyAI error:", error.message));
+  const closed = new Promise<void>((resolve) => socket.on("close", () => resolve()));
+
+  return {
+    send: (pcm) => {
+      pending = Buffer.concat([pending, pcm]);
+      if (pending.length >= CHUNK_BYTES) flush();
+    },
+    close: () => {
+      flush();
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify({ type: "Terminate" }));
+      else socket.close();
+      return closed;
+    },
+  };
+}
+`,
+    env: ["ASSEMBLYAI_API_KEY=your-assemblyai-key"],
+  },
+};
+
+const SERVER_LLM_HEADER = `export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+`;
+
+/** Chat Completions client for OpenAI and the providers that expose the same API. */
+function openAICompatibleLlm(baseUrl: string, envKey: string): ProviderAdapter {
+  return {
+    source: `${SERVER_LLM_HEADER}
+/** Runs one conversational turn and returns the agent's reply. */
+export async function respond(system: string, history: ChatMessage[]): Promise<string> {
+  const response = await fetch("${baseUrl}/chat/completions", {
+    method: "POST",
+    headers: { Authorization: "Bearer " + process.env.${envKey}, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: "{model}",
+      messages: [{ role: "system", content: system }, ...history],
+      temperature: 0.7,
+      max_tokens: 150,
+    }),
+  });
+  if (!response.ok) throw new Error("LLM request failed: " + response.status + " " + (await response.text()));
+  const body = (await response.json()) as { choices: Array<{ message: { content: string | null } }> };
+  return body.choices[0]?.message.content?.trim() ?? "";
+}
+`,
+    env: [`${envKey}=your-${envKey.split("_")[0].toLowerCase()}-key`],
+  };
+}
+
+const SERVER_LLM: Record<string, ProviderAdapter> = {
+  OpenAI: openAICompatibleLlm("https://api.openai.com/v1", "OPENAI_API_KEY"),
+  Groq: openAICompatibleLlm("https://api.groq.com/openai/v1", "GROQ_API_KEY"),
+  Google: openAICompatibleLlm("https://generativelanguage.googleapis.com/v1beta/openai", "GOOGLE_API_KEY"),
+  Anthropic: {
+    source: `${SERVER_LLM_HEADER}
+/** Runs one conversational turn and returns the agent's reply. */
+export async function respond(system: string, history: ChatMessage[]): Promise<string> {
+  const response = await fetch("https://api.anthropic.com/v1/messages", {
+    method: "POST",
+    headers: {
+      "x-api-key": process.env.ANTHROPIC_API_KEY ?? "",
+      "anthropic-version": "2023-06-01",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ model: "{model}", system, messages: history, temperature: 0.7, max_tokens: 150 }),
+  });
+  if (!response.ok) throw new Error("LLM request failed: " + response.status + " " + (await response.text()));
+  const body = (await response.json()) as { content: Array<{ type: string; text?: string }> };
+  return body.content.filter((block) => block.type === "text").map((block) => block.text).join("").trim();
+}
+`,
+    env: ["ANTHROPIC_API_KEY=your-anthropic-key"],
+  },
+};
+
+const TELEPHONY_TTS_READER = `
+async function* readChunks(response: Response): AsyncGenerator<Buffer> {
+  if (!response.ok || !response.body) throw new Error("TTS request failed: " + response.status + " " + (await response.text()));
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield Buffer.from(value);
+  }
+}
+`;
+
+const TELEPHONY_TTS: Record<string, ProviderAdapter> = {
+  Cartesia: {
+    source: `/** Streams speech for \`text\` as 8kHz 16-bit little-endian PCM. */
+export async function* synthesize(text: string, signal: AbortSignal): AsyncGenerator<Buffer> {
+  const response = await fetch("https://api.cartesia.ai/tts/bytes", {
+    method: "POST",
+    signal,
+    headers: {
+      "X-API-Key": process.env.CARTESIA_API_KEY ?? "",
+      "Cartesia-Version": "2025-04-16",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model_id: "{model}",
+      transcript: text,
+      voice: { mode: "id", id: process.env.CARTESIA_VOICE_ID },
+      language: "{language}",
+      output_format: { container: "raw", encoding: "pcm_s16le", sample_rate: 8000 },
+    }),
+  });
+  yield* readChunks(response);
+}
+${TELEPHONY_TTS_READER}`,
+    env: ["CARTESIA_API_KEY=your-cartesia-key", "CARTESIA_VOICE_ID=your-voice-id"],
+  },
+  ElevenLabs: {
+    source: `/** Streams speech for \`text\` as 8kHz 16-bit little-endian PCM. */
+export async function* synthesize(text: string, signal: AbortSignal): AsyncGenerator<Buffer> {
+  const response = await fetch(
+    "https://api.elevenlabs.io/v1/text-to-speech/" + process.env.ELEVENLABS_VOICE_ID + "/stream?output_format=pcm_8000",
+    {
+      method: "POST",
+      signal,
+      headers: { "xi-api-key": process.env.ELEVENLABS_API_KEY ?? "", "Content-Type": "application/json" },
+      body: JSON.stringify({ text, model_id: "{model}" }),
+    }
+  );
+  yield* readChunks(response);
+}
+${TELEPHONY_TTS_READER}`,
+    env: ["ELEVENLABS_API_KEY=your-elevenlabs-key", "ELEVENLABS_VOICE_ID=your-voice-id"],
+  },
+};
+
+function adapterOrError(
+  scaffold: string,
+  stage: "STT" | "LLM" | "TTS",
+  adapters: Record<string, ProviderAdapter>,
+  provider: string
+): ProviderAdapter {
+  const adapter = adapters[provider];
+  if (!adapter) throw new Error(`${scaffold} scaffold does not support ${stage} provider: ${provider}`);
+  return adapter;
+}
+
+const fillAdapter = (adapter: ProviderAdapter, model: string, languageCode: string): string =>
+  adapter.source.replaceAll("{model}", model).replaceAll("{language}", languageCode);
+
+/** Env lines for each adapter, skipping ones an earlier adapter already listed. */
+function adapterEnv(): (adapter: ProviderAdapter) => string[] {
+  const seen = new Set<string>();
+  return (adapter) => adapter.env.filter((line) => {
+    if (seen.has(line)) return false;
+    seen.add(line);
+    return true;
+  });
+}
+
+const MULAW_TS = `/**
+ * G.711 mu-law codec for Twilio Media Streams (8kHz, 8-bit mu-law, mono).
+ */
+
+const BIAS = 0x84;
+const CLIP = 32635;
+
+function decodeSample(byte: number): number {
+  const value = ~byte & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const magnitude = ((((value & 0x0f) << 3) + BIAS) << exponent) - BIAS;
+  return value & 0x80 ? -magnitude : magnitude;
+}
+
+function encodeSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(sample), CLIP) + BIAS;
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+/** mu-law bytes to 16-bit little-endian PCM. */
+export function decodeMulaw(mulaw: Buffer): Buffer {
+  const pcm = Buffer.alloc(mulaw.length * 2);
+  for (let index = 0; index < mulaw.length; index++) pcm.writeInt16LE(decodeSample(mulaw[index]), index * 2);
+  return pcm;
+}
+
+/** 16-bit little-endian PCM to mu-law bytes. */
+export function encodeMulaw(pcm: Buffer): Buffer {
+  const mulaw = Buffer.alloc(pcm.length >> 1);
+  for (let index = 0; index < mulaw.length; index++) mulaw[index] = encodeSample(pcm.readInt16LE(index * 2));
+  return mulaw;
+}
+`;
+
+export function getTwilioTemplate(config: {
+  language: string;
+  /** ISO 639-1 code the STT and TTS providers expect, e.g. "en". */
+  languageCode: string;
+  useCase: string;
+  stt: string;
+  sttModel: string;
+  llm: string;
+  llmModel: string;
+  tts: string;
+  ttsModel: string;
+  agentName: string;
+  /** Replaces the generic instructions, e.g. from a custom use-case profile. */
+  systemPrompt?: string;
+  /** Bundled use case; its disclosure is played before the greeting. */
+  useCaseTemplate?: UseCaseTemplate;
+}): ProjectFile[] {
+  const stt = adapterOrError("Twilio", "STT", TELEPHONY_STT, config.stt);
+  const disclosure = config.useCaseTemplate?.disclosure;
+  const llm = adapterOrError("Twilio", "LLM", SERVER_LLM, config.llm);
+  const tts = adapterOrError("Twilio", "TTS", TELEPHONY_TTS, config.tts);
+  const envFor = adapterEnv();
+
+  const envFile = [
+    "# VoiceForge Generated Config",
+    `# Agent: ${config.agentName}`,
+    `# Language: ${config.language} | Use Case: ${config.useCase}`,
+    "",
+    "# Server",
+    "PORT=8080",
+    "# Public host Twilio reaches this server on, e.g. your ngrok domain (no scheme)",
+    "PUBLIC_HOST=your-subdomain.ngrok-free.app",
+    "",
+    `# STT: ${config.stt} ${config.sttModel}`,
+    ...envFor(stt),
+    "",
+    `# LLM: ${config.llm} ${config.llmModel}`,
+    ...envFor(llm),
+    "",
+    `# TTS: ${config.tts} ${config.ttsModel}`,
+    ...envFor(tts),
+    "",
+  ].join("\n");
+
+  const systemPrompt = config.systemPrompt
+    ? JSON.stringify(config.systemPrompt)
+    : `[
+  "You are a voice AI agent for ${config.useCase.toLowerCase()}, speaking with a caller on the phone.",
+  "You communicate in ${config.language}.",
+  "Keep responses concise (1-2 sentences).",
+  "Be natural, warm, and helpful.",
+].join(" ")`;
+
+  const pipelineTs = `/**
+ * ${config.agentName} - Voice AI Agent (Twilio Media Streams)
+ * Generated by VoiceForge MCP
+ *
+ * Stack: ${config.stt} ${config.sttModel} → ${config.llm} ${config.llmModel} → ${config.tts} ${config.ttsModel}
+ * Language: ${config.language} | Use Case: ${config.useCase}
+ */
+
+import { type ChatMessage, respond } from "./llm.js";
+import { decodeMulaw, encodeMulaw } from "./mulaw.js";
+import { openSttStream, type SttStream } from "./stt.js";
+import { synthesize } from "./tts.js";
+
+/** 20ms of 8kHz mu-law: the frame size Twilio sends and expects back. */
+export const FRAME_BYTES = 160;
+
+const SYSTEM_PROMPT = ${systemPrompt};
+const GREETING = "Hello! How can I help you today?";${disclosure ? `
+const DISCLOSURE = ${JSON.stringify(disclosure)};` : ""}
+
+export interface CallOutput {
+  /** Plays one frame of mu-law audio to the caller. */
+  play(mulaw: Buffer): void;
+  /** Drops audio already queued for the caller, when they talk over the agent. */
+  clear(): void;
+}
+
+/** One phone call: caller audio → STT → LLM turn → streaming TTS → caller. */
+export class CallPipeline {
+  private readonly history: ChatMessage[] = [];
+  private readonly stt: SttStream;
+  private speaking: { controller: AbortController; interruptible: boolean } | null = null;
+  private turns: Promise<void> = Promise.resolve();
+
+  constructor(private readonly output: CallOutput, private readonly log: (line: string) => void = console.log) {
+    this.stt = openSttStream({
+      onSpeech: () => this.interrupt(),
+      onFinal: (text) => this.enqueue(() => this.handleTurn(text)),
+    });
+  }
+
+  greet(): void {${disclosure ? `
+    // Read in full before anything else; talking over it does not cut it off.
+    this.enqueue(() => this.speak(DISCLOSURE, false));` : ""}
+    this.enqueue(() => this.speak(GREETING));
+  }
+
+  /** Feeds one inbound frame of caller audio. */
+  receive(mulaw: Buffer): void {
+    this.stt.send(decodeMulaw(mulaw));
+  }
+
+  /** Waits for the last transcript and the reply to it, then ends the STT stream. */
+  async close(): Promise<void> {
+    await this.stt.close();
+    await this.turns;
+  }
+
+  private enqueue(turn: () => Promise<void>): void {
+    this.turns = this.turns.then(turn).catch((error: Error) => this.log("turn failed: " + error.message));
+  }
+
+  private interrupt(): void {
+    if (!this.speaking?.interruptible) return;
+    this.speaking.controller.abort();
+    this.speaking = null;
+    this.output.clear();
+  }
+
+  private async handleTurn(text: string): Promise<void> {
+    this.log("caller: " + text);
+    this.history.push({ role: "user", content: text });
+    const reply = await respond(SYSTEM_PROMPT, this.history);
+    this.history.push({ role: "assistant", content: reply });
+    this.log("agent: " + reply);
+    await this.speak(reply);
+  }
+
+  private async speak(text: string, interruptible = true): Promise<void> {
+    const controller = new AbortController();
+    const speaking = { controller, interruptible };
+    this.speaking = speaking;
+    let pcm = Buffer.alloc(0);
+    let mulaw = Buffer.alloc(0);
+    try {
+      for await (const chunk of synthesize(text, controller.signal)) {
+        // Chunks can split a 16-bit sample; carry the odd byte into the next one.
+        pcm = Buffer.concat([pcm, chunk]);
+        const whole = pcm.length - (pcm.length % 2);
+        mulaw = Buffer.concat([mulaw, encodeMulaw(pcm.subarray(0, whole))]);
+        pcm = pcm.subarray(whole);
+        for (; mulaw.length >= FRAME_BYTES; mulaw = mulaw.subarray(FRAME_BYTES)) {
+          this.output.play(mulaw.subarray(0, FRAME_BYTES));
+        }
+      }
+      if (mulaw.length > 0) this.output.play(mulaw);
+    } catch (error) {
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      if (this.speaking === speaking) this.speaking = null;
+    }
+  }
+}
+`;
+
+  const serverTs = `import "dotenv/config";
+import http from "node:http";
+import { WebSocket, WebSocketServer } from "ws";
+import { CallPipeline } from "./pipeline.js";
+
+const PORT = Number(process.env.PORT ?? 8080);
+const PUBLIC_HOST = process.env.PUBLIC_HOST ?? "localhost:" + PORT;
+
+type TwilioMessage =
+  | { event: "connected" }
+  | { event: "start"; start: { streamSid: string; callSid: string } }
+  | { event: "media"; media: { payload: string } }
+  | { event: "mark"; mark: { name: string } }
+  | { event: "stop" };
+
+/** TwiML for inbound calls: connect the call's audio to this server's media stream. */
+function twiml(): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    "<Response>",
+    "  <Connect>",
+    '    <Stream url="wss://' + PUBLIC_HOST + '/media-stream" />',
+    "  </Connect>",
+    "</Response>",
+  ].join("\\n");
+}
+
+const server = http.createServer((request, response) => {
+  if (new URL(request.url ?? "/", "http://localhost").pathname === "/twiml") {
+    response.writeHead(200, { "Content-Type": "text/xml" }).end(twiml());
+    return;
+  }
+  response.writeHead(404).end();
+});
+
+const media = new WebSocketServer({ server, path: "/media-stream" });
+
+media.on("connection", (socket) => {
+  let streamSid = "";
+  let pipeline: CallPipeline | null = null;
+  const send = (message: object): void => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+  const hangUp = (): void => {
+    void pipeline?.close();
+    pipeline = null;
+  };
+
+  socket.on("message", (data) => {
+    const message = JSON.parse(data.toString()) as TwilioMessage;
+    if (message.event === "start") {
+      streamSid = message.start.streamSid;
+      console.log("call started: " + message.start.callSid);
+      pipeline = new CallPipeline({
+        play: (mulaw) => send({ event: "media", streamSid, media: { payload: mulaw.toString("base64") } }),
+        clear: () => send({ event: "clear", streamSid }),
+      });
+      pipeline.greet();
+    } else if (message.event === "media") {
+      pipeline?.receive(Buffer.from(message.media.payload, "base64"));
+    } else if (message.event === "stop") {
+      hangUp();
+    }
+  });
+  socket.on("close", hangUp);
+});
+
+server.listen(PORT, () => {
+  console.log("Listening on :" + PORT);
+  console.log("Point your Twilio number's voice webhook at https://" + PUBLIC_HOST + "/twiml");
+});
+`;
+
+  const replayTs = `/**
+ * Replays a recorded call through the pipeline without Twilio.
+ *
+ * Usage: npm run replay -- <input.ulaw> [output.ulaw]
+ * The input is raw 8kHz mono mu-law, the format Twilio streams. The agent's
+ * audio is written to the output file in the same format.
+ */
+
+import "dotenv/config";
+import { readFileSync, writeFileSync } from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
+import { CallPipeline, FRAME_BYTES } from "./pipeline.js";
+
+const [input, output = "replay-output.ulaw"] = process.argv.slice(2);
+if (!input) {
+  console.error("Usage: npm run replay -- <input.ulaw> [output.ulaw]");
+  process.exit(1);
+}
+
+const played: Buffer[] = [];
+let interruptions = 0;
+const pipeline = new CallPipeline({
+  play: (mulaw) => played.push(mulaw),
+  clear: () => interruptions++,
+});
+pipeline.greet();
+
+// Send frames in real time, as Twilio would, then a second of silence so the last utterance ends.
+const audio = Buffer.concat([readFileSync(input), Buffer.alloc(50 * FRAME_BYTES, 0xff)]);
+for (let offset = 0; offset < audio.length; offset += FRAME_BYTES) {
+  pipeline.receive(audio.subarray(offset, offset + FRAME_BYTES));
+  await sleep(20);
+}
+await pipeline.close();
+
+const agentAudio = Buffer.concat(played);
+writeFileSync(output, agentAudio);
+console.log("Wrote " + (agentAudio.length / 8000).toFixed(1) + "s of agent audio to " + output + " (" + interruptions + " interruptions)");
+`;
+
+  const packageJson = `${JSON.stringify({
+    name: config.agentName,
+    version: "1.0.0",
+    private: true,
+    type: "module",
+    scripts: {
+      build: "tsc",
+      dev: "tsx src/server.ts",
+      start: "node dist/server.js",
+      replay: "tsx src/replay.ts",
+    },
+    dependencies: {
+      dotenv: "^16.4.0",
+      ws: "^8.18.0",
+    },
+    devDependencies: {
+      "@types/node": "^20.0.0",
+      "@types/ws": "^8.5.0",
+      tsx: "^4.19.0",
+      typescript: "^5.5.0",
+    },
+  }, null, 2)}\n`;
+
+  const tsconfigJson = `${JSON.stringify({
+    compilerOptions: {
+      target: "ES2022",
+      module: "NodeNext",
+      moduleResolution: "NodeNext",
+      outDir: "dist",
+      rootDir: "src",
+      strict: true,
+      esModuleInterop: true,
+      skipLibCheck: true,
+    },
+    include: ["src"],
+  }, null, 2)}\n`;
+
+  const readmeMd = `# ${config.agentName}
+
+Phone voice agent generated by [VoiceForge](https://getvoiceforge.com), served over [Twilio Media Streams](https://www.twilio.com/docs/voice/media-streams).
+
+## Stack
+
+| Component | Provider | Model |
+|-----------|----------|-------|
+| STT | ${config.stt} | ${config.sttModel} |
+| LLM | ${config.llm} | ${config.llmModel} |
+| TTS | ${config.tts} | ${config.ttsModel} |
+
+**Language:** ${config.language}
+**Use Case:** ${config.useCase}
+
+## How it works
+
+- \`src/server.ts\` answers Twilio's voice webhook at \`/twiml\` with TwiML that connects the call to \`wss://PUBLIC_HOST/media-stream\`.
+- \`src/pipeline.ts\` decodes the caller's 8kHz mu-law to PCM, streams it to ${config.stt}, sends each finished utterance to ${config.llm}, and streams ${config.tts} speech back as 20ms mu-law frames.
+- When the caller talks over the agent, playback stops and Twilio's queued audio is cleared.
+- \`src/mulaw.ts\` is the G.711 mu-law codec; \`src/stt.ts\`, \`src/llm.ts\` and \`src/tts.ts\` are the provider clients.
+
+## Setup
+
+\`\`\`bash
+# Install dependencies
+npm install
+
+# Configure environment
+cp .env.example .env
+# Edit .env with your API keys and public host
+
+# Expose the server and run it
+ngrok http 8080
+npm run dev
+\`\`\`
+
+In the Twilio console, set your number's **A call comes in** webhook to \`https://PUBLIC_HOST/twiml\`.
+
+## Testing without Twilio
+
+\`npm run replay\` feeds a recorded call through the same pipeline in real time and writes the agent's audio to a file.
+It still calls your STT, LLM and TTS providers.
+
+\`\`\`bash
+# Convert a recording to raw 8kHz mu-law
+ffmpeg -i caller.wav -ar 8000 -ac 1 -f mulaw caller.ulaw
+
+npm run replay -- caller.ulaw replay-output.ulaw
+
+# Listen to the agent's side
+ffplay -f mulaw -ar 8000 replay-output.ulaw
+\`\`\`
+
+## Powered by VoiceForge
+
+This agent was scaffolded using VoiceForge MCP. To optimize your stack:
+
+\`\`\`
+npx voiceforge-mcp
+\`\`\`
+`;
+
+  return [
+    { path: ".env.example", content: envFile },
+    { path: "src/server.ts", content: serverTs },
+    { path: "src/pipeline.ts", content: pipelineTs },
+    { path: "src/mulaw.ts", content: MULAW_TS },
+    { path: "src/stt.ts", content: fillAdapter(stt, config.sttModel, config.languageCode) },
+    { path: "src/llm.ts", content: fillAdapter(llm, config.llmModel, config.languageCode) },
+    { path: "src/tts.ts", content: fillAdapter(tts, config.ttsModel, config.languageCode) },
+    { path: "src/replay.ts", content: replayTs },
+    { path: "package.json", content: packageJson },
+    { path: "tsconfig.json", content: tsconfigJson },
+    { path: "README.md", content: readmeMd },
+  ];
+}
+
+const NEXTJS_STT: Record<string, ProviderAdapter> = {
+  Deepgram: {
+    source: `/** Transcribes one recorded utterance. */
+export async function transcribe(audio: Blob): Promise<string> {
+  const params = new URLSearchParams({ model: "{model}", language: "{language}", smart_format: "true" });
+  const response = await fetch("https://api.deepgram.com/v1/listen?" + params, {
+    method: "POST",
+    headers: { Authorization: "Token " + process.env.DEEPGRAM_API_KEY, "Content-Type": audio.type || "audio/webm" },
+    body: audio,
+  });
+  if (!response.ok) throw new Error("STT request failed: " + response.status + " " + (await response.text()));
+  const body = (await response.json()) as { results: { channels: Array<{ alternatives: Array<{ transcript: string }> }> } };
+  return body.results.channels[0]?.alternatives[0]?.transcript ?? "";
+}
+`,
+    env: ["DEEPGRAM_API_KEY=your-deepgram-key"],
+  },
+  OpenAI: {
+    source: `/** Transcribes one recorded utterance. */
+export async function transcribe(audio: Blob): Promise<string> {
+  const form = new FormData();
+  // OpenAI infers the container from the file name.
+  form.append("file", audio, audio.type.includes("mp4") ? "speech.mp4" : "speech.webm");
+  form.append("model", "{model}");
+  form.append("language", "{language}");
+  const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+    method: "POST",
+    headers: { Authorization: "Bearer " + process.env.OPENAI_API_KEY },
+    body: form,
+  });
+  if (!response.ok) throw new Error("STT request failed: " + response.status + " " + (await response.text()));
+  return ((await response.json()) as { text: string }).text;
+}
+`,
+    env: ["OPENAI_API_KEY=your-openai-key"],
+  },
+  AssemblyAI: {
+    source: `const API = "https://api.assemblyai.com/v2";
+
+async function call<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(API + path, {
+    ...init,
+    headers: { authorization: process.env.ASSEMBLYAI_API_KEY ?? "", ...init.headers },
+  });
+  if (!response.ok) throw new Error("STT request failed: " + response.status + " " + (await response.text()));
+  return (await response.json()) as T;
+}
+
+/** Transcribes one recorded utterance with {model}: upload, then poll until the transcript is ready. */
+export async function transcribe(audio: Blob): Promise<string> {
+  const { upload_url } = await call<{ upload_url: string }>("/upload", { method: "POST", body: audio });
+  const { id } = await call<{ id: string }>("/transcript", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ audio_url: upload_url, language_code: "{language}" }),
+  });
+  for (;;) {
+    const transcript = await call<{ status: string; text: string | null; error?: string }>("/transcript/" + id);
+    if (transcript.status === "completed") return transcript.text ?? "";
+    if (transcript.status === "error") throw new Error("STT failed: " + transcript.error);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+}
+`,
+    env: ["ASSEMBLYAI_API_KEY=your-assemblyai-key"],
+  },
+};
+
+const NEXTJS_TTS: Record<string, ProviderAdapter> = {
+  Cartesia: {
+    source: `/** Starts synthesis; the response body is MP3 audio streamed as it is generated. */
+export function synthesize(text: string): Promise<Response> {
+  return fetch("https://api.cartesia.ai/tts/bytes", {
+    method: "POST",
+    headers: {
+      "X-API-Key": process.env.CARTESIA_API_KEY ?? "",
+      "Cartesia-Version": "2025-04-16",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model_id: "{model}",
+      transcript: text,
+      voice: { mode: "id", id: process.env.CARTESIA_VOICE_ID },
+      language: "{language}",
+      output_format: { container: "mp3", sample_rate: 44100, bit_rate: 128000 },
+    }),
+  });
+}
+`,
+    env: ["CARTESIA_API_KEY=your-cartesia-key", "CARTESIA_VOICE_ID=your-voice-id"],
+  },
+  ElevenLabs: {
+    source: `/** Starts synthesis; the response body is MP3 audio streamed as it is generated. */
+export function synthesize(text: string): Promise<Response> {
+  return fetch(
+    "https://api.elevenlabs.io/v1/text-to-speech/" + process.env.ELEVENLABS_VOICE_ID + "/stream?output_format=mp3_44100_128",
+    {
+      method: "POST",
+      headers: { "xi-api-key": process.env.ELEVENLABS_API_KEY ?? "", "Content-Type": "application/json" },
+      body: JSON.stringify({ text, model_id: "{model}" }),
+    }
+  );
+}
+`,
+    env: ["ELEVENLABS_API_KEY=your-elevenlabs-key", "ELEVENLABS_VOICE_ID=your-voice-id"],
+  },
+};
+
+export function getNextJSRoutesTemplate(config: {
+  language: string;
+  /** ISO 639-1 code the STT and TTS providers expect, e.g. "en". */
+  languageCode: string;
+  useCase: string;
+  stt: string;
+  sttModel: string;
+  llm: string;
+  llmModel: string;
+  tts: string;
+  ttsModel: string;
+  agentName: string;
+  /** Replaces the generic instructions, e.g. from a custom use-case profile. */
+  systemPrompt?: string;
+}): ProjectFile[] {
+  const stt = adapterOrError("Next.js", "STT", NEXTJS_STT, config.stt);
+  const llm = adapterOrError("Next.js", "LLM", SERVER_LLM, config.llm);
+  const tts = adapterOrError("Next.js", "TTS", NEXTJS_TTS, config.tts);
+  const envFor = adapterEnv();
+
+  const envFile = [
+    "# VoiceForge Generated Config",
+    `# Agent: ${config.agentName}`,
+    `# Language: ${config.language} | Use Case: ${config.useCase}`,
+    "# Server-side only: these keys are read by the API routes and never reach the browser.",
+    "",
+    `# STT: ${config.stt} ${config.sttModel}`,
+    ...envFor(stt),
+    "",
+    `# LLM: ${config.llm} ${config.llmModel}`,
+    ...envFor(llm),
+    "",
+    `# TTS: ${config.tts} ${config.ttsModel}`,
+    ...envFor(tts),
+    "",
+  ].join("\n");
+
+  const systemPrompt = config.systemPrompt
+    ? JSON.stringify(config.systemPrompt)
+    : `[
+  "You are a voice AI agent for ${config.useCase.toLowerCase()}.",
+  "You communicate in ${config.language}.",
+  "Keep responses concise (1-2 sentences).",
+  "Be natural, warm, and helpful.",
+].join(" ")`;
+
+  const sttRoute = `import { transcribe } from "../../../lib/voice/stt";
+
+/** Recorded microphone audio in, transcript out. */
+export async function POST(request: Request) {
+  const audio = await request.blob();
+  if (audio.size === 0) return Response.json({ error: "No audio received" }, { status: 400 });
+  try {
+    return Response.json({ text: await transcribe(audio) });
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 502 });
+  }
+}
+`;
+
+  const llmRoute = `import { type ChatMessage, respond } from "../../../lib/voice/llm";
+
+const SYSTEM_PROMPT = ${systemPrompt};
+
+/** Conversation so far in, the agent's next reply out. */
+export async function POST(request: Request) {
+  const { messages } = (await request.json()) as { messages: ChatMessage[] };
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return Response.json({ error: "messages must be a non-empty array" }, { status: 400 });
+  }
+  try {
+    return Response.json({ reply: await respond(SYSTEM_PROMPT, messages) });
+  } catch (error) {
+    return Response.json({ error: (error as Error).message }, { status: 502 });
+  }
+}
+`;
+
+  const ttsRoute = `import { synthesize } from "../../../lib/voice/tts";
+
+/** Streams the provider's audio straight through, so the browser starts playing before synthesis ends. */
+export async function GET(request: Request) {
+  const text = new URL(request.url).searchParams.get("text")?.trim();
+  if (!text) return Response.json({ error: "Missing text" }, { status: 400 });
+  const upstream = await synthesize(text);
+  if (!upstream.ok || !upstream.body) {
+    return Response.json({ error: "TTS request failed: " + upstream.status }, { status: 502 });
+  }
+  return new Response(upstream.body, { headers: { "Content-Type": "audio/mpeg", "Cache-Control": "no-store" } });
+}
+`;
+
+  const voiceAgentTsx = `"use client";
+
+import { useCallback, useRef, useState } from "react";
+
+/**
+ * ${config.agentName} — Voice Agent
+ * Generated by VoiceForge MCP
+ *
+ * Stack: ${config.stt} ${config.sttModel} → ${config.llm} ${config.llmModel} → ${config.tts} ${config.ttsModel}
+ * Records one utterance from the microphone, then runs /api/stt → /api/llm → /api/tts.
+ */
+
+type Message = { role: "user" | "assistant"; content: string };
+type Status = "idle" | "recording" | "thinking" | "speaking";
+
+async function post<T>(url: string, init: RequestInit): Promise<T> {
+  const response = await fetch(url, { method: "POST", ...init });
+  const body = await response.json();
+  if (!response.ok) throw new Error(body.error ?? url + " failed");
+  return body as T;
+}
+
+export function VoiceAgent() {
+  const [status, setStatus] = useState<Status>("idle");
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const recorder = useRef<MediaRecorder | null>(null);
+  const player = useRef<HTMLAudioElement | null>(null);
+
+  const reply = useCallback(async (recording: Blob) => {
+    setStatus("thinking");
+    try {
+      const { text } = await post<{ text: string }>("/api/stt", {
+        headers: { "Content-Type": recording.type },
+        body: recording,
+      });
+      if (!text.trim()) return setStatus("idle");
+
+      const history: Message[] = [...messages, { role: "user", content: text }];
+      setMessages(history);
+      const { reply } = await post<{ reply: string }>("/api/llm", {
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messages: history }),
+      });
+      setMessages([...history, { role: "assistant", content: reply }]);
+
+      const audio = new Audio("/api/tts?text=" + encodeURIComponent(reply));
+      audio.onended = () => setStatus("idle");
+      player.current = audio;
+      setStatus("speaking");
+      await audio.play();
+    } catch (cause) {
+      setError((cause as Error).message);
+      setStatus("idle");
+    }
+  }, [messages]);
+
+  const startRecording = useCallback(async () => {
+    // Talking over the agent stops its reply.
+    player.current?.pause();
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const chunks: Blob[] = [];
+      const mediaRecorder = new MediaRecorder(stream);
+      mediaRecorder.ondataavailable = (event) => chunks.push(event.data);
+      mediaRecorder.onstop = () => {
+        stream.getTracks().forEach((track) => track.stop());
+        void reply(new Blob(chunks, { type: mediaRecorder.mimeType }));
+      };
+      mediaRecorder.start();
+      recorder.current = mediaRecorder;
+      setStatus("recording");
+    } catch (cause) {
+      setError((cause as Error).message);
+    }
+  }, [reply]);
+
+  const stopRecording = useCallback(() => {
+    recorder.current?.stop();
+    recorder.current = null;
+  }, []);
+
+  return (
+    <div className="flex flex-col items-center gap-4 p-8">
+      <button
+        onClick={status === "recording" ? stopRecording : startRecording}
+        disabled={status === "thinking"}
+        className={
+          status === "recording"
+            ? "w-24 h-24 rounded-full bg-red-500 animate-pulse shadow-lg shadow-red-500/50 text-white text-sm font-medium"
+            : "w-24 h-24 rounded-full bg-indigo-600 hover:bg-indigo-700 shadow-lg text-white text-sm font-medium disabled:opacity-50"
+        }
+      >
+        {status === "recording" ? "Send" : "Talk"}
+      </button>
+      <p className="text-sm text-gray-500">
+        {status === "recording"
+          ? "Listening... click Send when you're done"
+          : status === "thinking"
+            ? "Thinking..."
+            : status === "speaking"
+              ? "Agent is speaking..."
+              : "Click to talk"}
+      </p>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <ul className="w-full max-w-md space-y-2 text-sm">
+        {messages.map((message, index) => (
+          <li key={index} className={message.role === "user" ? "text-right" : "text-left text-indigo-700"}>
+            {message.content}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+`;
+
+  const readmeMd = `# ${config.agentName}
+
+Voice agent for a Next.js App Router project, generated by [VoiceForge](https://getvoiceforge.com).
+
+## Stack
+
+| Component | Provider | Model |
+|-----------|----------|-------|
+| STT | ${config.stt} | ${config.sttModel} |
+| LLM | ${config.llm} | ${config.llmModel} |
+| TTS | ${config.tts} | ${config.ttsModel} |
+
+**Language:** ${config.language}
+**Use Case:** ${config.useCase}
+
+## How it works
+
+- \`components/voice-agent.tsx\` records one utterance from the microphone and posts it to \`/api/stt\`.
+- \`app/api/stt/route.ts\` transcribes it with ${config.stt}.
+- \`app/api/llm/route.ts\` sends the conversation to ${config.llm} and returns the reply.
+- \`app/api/tts/route.ts\` streams ${config.tts} audio back, and the browser plays it as it arrives.
+- \`lib/voice/\` holds the provider clients. API keys stay on the server.
+
+## Setup
+
+Copy these files into your Next.js app, then:
+
+\`\`\`bash
+cp .env.example .env.local
+# Edit .env.local with your API keys
+
+npm run dev
+\`\`\`
+
+Render \`<VoiceAgent />\` from \`components/voice-agent\` on any page.
+No extra packages are needed; the provider clients use \`fetch\`.
+
+## Powered by VoiceForge
+
+This agent was scaffolded using VoiceForge MCP. To optimize your stack:
+
+\`\`\`
+npx voiceforge-mcp
+\`\`\`
+`;
+
+  return [
+    { path: ".env.example", content: envFile },
+    { path: "app/api/stt/route.ts", content: sttRoute },
+    { path: "app/api/llm/route.ts", content: llmRoute },
+    { path: "app/api/tts/route.ts", content: ttsRoute },
+    { path: "lib/voice/stt.ts", content: fillAdapter(stt, config.sttModel, config.languageCode) },
+    { path: "lib/voice/llm.ts", content: fillAdapter(llm, config.llmModel, config.languageCode) },
+    { path: "lib/voice/tts.ts", content: fillAdapter(tts, config.ttsModel, config.languageCode) },
+    { path: "components/voice-agent.tsx", content: voiceAgentTsx },
+    { path: "README.md", content: readmeMd },
+  ];
+}
@@ -0,0 +1,242 @@
+/**
+ * Agent templates for the bundled use cases: a system prompt per
+ * USE_CASE_PRIORITIES entry, plus function tool stubs and scripted disclosures
+ * that the LiveKit agent template wires in. Tool bodies are Python and return
+ * canned data; each marks where the real integration goes.
+ */
+
+export interface AgentToolParam {
+  name: string;
+  type: "str" | "int" | "float" | "bool";
+  description: string;
+  /** Restricts a str parameter to these values. */
+  choices?: string[];
+}
+
+export interface AgentTool {
+  name: string;
+  /** First docstring line; the LLM reads it to decide when to call the tool. */
+  description: string;
+  params: AgentToolParam[];
+  /** Python statements forming the stub's body. */
+  body: string[];
+}
+
+export interface UseCaseTemplate {
+  role: string;
+  guidelines: string[];
+  /** Read verbatim, uninterruptible, before the agent says anything else. */
+  disclosure?: string;
+  /** Module-level Python the tool bodies rely on. */
+  constants?: string[];
+  tools: AgentTool[];
+}
+
+const RED_FLAG_SYMPTOMS = [
+  "chest pain",
+  "shortness of breath",
+  "difficulty breathing",
+  "stroke",
+  "slurred speech",
+  "face drooping",
+  "severe bleeding",
+  "unconscious",
+  "seizure",
+  "suicidal",
+  "anaphylaxis",
+  "severe allergic reaction",
+];
+
+export const USE_CASE_TEMPLATES: Record<string, UseCaseTemplate> = {
+  "debt-collections": {
+    role: "a respectful collections agent calling about an overdue balance",
+    guidelines: [
+      "Never threaten, shame, or imply legal action you are not authorized to take.",
+      "Confirm you are speaking with the account holder before discussing the debt.",
+      "If the caller cannot pay in full, offer a payment plan and confirm its terms back to them.",
+      "If the caller disputes the debt or asks you to stop calling, acknowledge it and end the call politely.",
+    ],
+    disclosure: "This is an attempt to collect a debt, and any information obtained will be used for that purpose. This call may be recorded.",
+    tools: [
+      {
+        name: "offer_payment_plan",
+        description: "Quote an installment plan for the caller's outstanding balance.",
+        params: [
+          { name: "balance", type: "float", description: "Outstanding balance in the account currency." },
+          { name: "installments", type: "int", description: "Number of payments the caller proposed or agreed to." },
+          { name: "frequency", type: "str", description: "How often a payment is due.", choices: ["weekly", "biweekly", "monthly"] },
+        ],
+        body: [
+          "# TODO: check the plan against your collections policy and record it in your billing system.",
+          "installments = max(1, installments)",
+          "amount = round(balance / installments, 2)",
+          "logger.info(\"payment plan: %s x %s (%s)\", installments, amount, frequency)",
+          "return f\"{installments} {frequency} payments of {amount:.2f}. Confirm these terms with the caller before ending the call.\"",
+        ],
+      },
+    ],
+  },
+  "sales": {
+    role: "an outbound sales agent",
+    guidelines: [
+      "Ask about the prospect's needs before pitching, and tie each benefit to something they said.",
+      "Handle objections honestly; never invent pricing, discounts, or features.",
+      "Close by proposing a concrete next step such as a demo or follow-up call.",
+    ],
+    tools: [],
+  },
+  "customer-support": {
+    role: "a customer support agent",
+    guidelines: [
+      "Restate the customer's problem before solving it, and give one step at a time.",
+      "If you cannot resolve the issue, say so and offer to connect them with a human agent.",
+    ],
+    tools: [],
+  },
+  "scheduling": {
+    role: "a scheduling assistant that books appointments",
+    guidelines: [
+      "Collect the preferred date, time, and appointment length before checking the calendar.",
+      "Always check availability before offering a slot; never promise a time you have not confirmed.",
+      "Read the booked date and time back to the caller.",
+    ],
+    tools: [
+      {
+        name: "check_availability",
+        description: "Look up open calendar slots on a given day.",
+        params: [
+          { name: "date", type: "str", description: "Requested day in YYYY-MM-DD format." },
+          { name: "duration_minutes", type: "int", description: "Length of the appointment in minutes." },
+        ],
+        body: [
+          "# TODO: query your calendar provider (Google Calendar, Cal.com, ...) for free slots.",
+          "logger.info(\"check availability: %s (%s min)\", date, duration_minutes)",
+          "return f\"Open slots on {date}: 09:00, 11:30, 15:00.\"",
+        ],
+      },
+      {
+        name: "book_appointment",
+        description: "Book a confirmed slot for the caller.",
+        params: [
+          { name: "date", type: "str", description: "Day in YYYY-MM-DD format." },
+          { name: "time", type: "str", description: "Start time in 24-hour HH:MM format." },
+          { name: "name", type: "str", description: "Full name of the person the appointment is for." },
+        ],
+        body: [
+          "# TODO: create the event with your calendar provider and return its confirmation.",
+          "logger.info(\"book appointment: %s %s for %s\", date, time, name)",
+          "return f\"Booked {name} on {date} at {time}.\"",
+        ],
+      },
+    ],
+  },
+  "insurance-claims": {
+    role: "an insurance claims intake agent",
+    guidelines: [
+      "Collect the policy number, date and location of the incident, and what happened, one question at a time.",
+      "Do not promise coverage or payout amounts; explain that an adjuster will review the claim.",
+    ],
+    tools: [],
+  },
+  "lead-qualification": {
+    role: "a lead qualification agent",
+    guidelines: [
+      "Find out the prospect's company, budget, decision timeline, and who makes the buying decision.",
+      "Ask one question at a time and keep the conversation friendly rather than interrogative.",
+      "Save the lead to the CRM before ending the call, qualified or not.",
+    ],
+    tools: [
+      {
+        name: "save_lead",
+        description: "Write the qualified details of this lead to the CRM.",
+        params: [
+          { name: "name", type: "str", description: "Contact's full name." },
+          { name: "company", type: "str", description: "Company the contact works for." },
+          { name: "budget", type: "str", description: "Budget as stated by the contact, or 'unknown'." },
+          { name: "timeline", type: "str", description: "When they plan to buy, as stated by the contact." },
+          { name: "qualified", type: "bool", description: "Whether the lead meets your qualification criteria." },
+        ],
+        body: [
+          "# TODO: upsert the contact in your CRM (HubSpot, Salesforce, ...) and return its record ID.",
+          "logger.info(\"save lead: %s at %s (qualified=%s)\", name, company, qualified)",
+          "return f\"Saved {name} from {company} to the CRM.\"",
+        ],
+      },
+    ],
+  },
+  "appointment-reminders": {
+    role: "an appointment reminder agent",
+    guidelines: [
+      "State the appointment date, time, and location, then ask the caller to confirm, cancel, or reschedule.",
+      "If they want to reschedule, collect their preferred times and tell them the office will confirm.",
+    ],
+    tools: [],
+  },
+  "healthcare-triage": {
+    role: "a healthcare triage assistant; you do not diagnose or prescribe",
+    guidelines: [
+      "Ask about symptoms, when they started, and how severe they are.",
+      "Run every reported symptom through the red-flag check before giving any advice.",
+      "If a red flag is present, escalate to a clinician immediately and tell the caller to call emergency services if they are in danger.",
+      "Never tell a caller their symptoms are nothing to worry about.",
+    ],
+    constants: [`RED_FLAG_SYMPTOMS = (\n${RED_FLAG_SYMPTOMS.map((symptom) => `    ${JSON.stringify(symptom)},`).join("\n")}\n)`],
+    tools: [
+      {
+        name: "check_red_flags",
+        description: "Check the caller's reported symptoms for red flags that need a clinician now.",
+        params: [
+          { name: "symptoms", type: "str", description: "The symptoms the caller described, in their words." },
+        ],
+        body: [
+          "reported = symptoms.lower()",
+          "flags = [flag for flag in RED_FLAG_SYMPTOMS if flag in reported]",
+          "if flags:",
+          "    return f\"Red flags: {', '.join(flags)}. Escalate to a clinician now with urgency 'emergency'.\"",
+          "return \"No red flags matched. Continue triage questions.\"",
+        ],
+      },
+      {
+        name: "escalate_to_clinician",
+        description: "Hand the caller off to an on-call clinician.",
+        params: [
+          { name: "reason", type: "str", description: "Summary of the symptoms and why the caller is being escalated." },
+          { name: "urgency", type: "str", description: "How quickly a clinician must respond.", choices: ["emergency", "urgent", "routine"] },
+        ],
+        body: [
+          "# TODO: page the on-call clinician or transfer the call (for example a SIP transfer).",
+          "logger.warning(\"escalation (%s): %s\", urgency, reason)",
+          "return \"A clinician has been notified. Tell the caller to stay on the line.\"",
+        ],
+      },
+    ],
+  },
+  "banking-faq": {
+    role: "a banking FAQ agent",
+    guidelines: [
+      "Answer general questions about accounts, cards, fees, and opening hours.",
+      "Never ask for or repeat full card numbers, PINs, or passwords.",
+      "Send account-specific requests to a verified channel or a human agent.",
+    ],
+    tools: [],
+  },
+  "recruitment-screening": {
+    role: "a recruitment screening agent",
+    guidelines: [
+      "Ask the screening questions one at a time and confirm you understood each answer.",
+      "Do not ask about age, family, religion, health, or other protected characteristics.",
+      "Tell the candidate what happens next and when they can expect to hear back.",
+    ],
+    tools: [],
+  },
+};
+
+/** The agent's system prompt for a bundled use case, in the scaffold's language. */
+export function useCaseSystemPrompt(template: UseCaseTemplate, language: string): string {
+  return [
+    `You are ${template.role}.`,
+    `You communicate in ${language}. Keep responses concise (1-2 sentences).`,
+    ...template.guidelines,
+    ...(template.disclosure ? [`Before anything else, make sure the caller has heard this disclosure word for word: "${template.disclosure}"`] : []),
+  ].join("\n");
+}
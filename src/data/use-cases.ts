@@ -0,0 +1,97 @@
+/**
+ * User-defined use-case profiles.
+ *
+ * Teams register use cases the bundled profiles don't cover (weights,
+ * aliases, a default system prompt and hard constraints) in a JSON or YAML
+ * file. It lives at ~/.voiceforge/use-cases.yaml unless the
+ * VOICEFORGE_USE_CASES environment variable or the --use-cases CLI flag says
+ * otherwise. A profile with the same name as a bundled use case replaces its
+ * weights and adds to its aliases.
+ */
+
+import { readFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { CERTIFICATIONS, DATA_REGIONS, PROVIDER_FEATURES, type UseCasePriorities } from "./benchmarks.js";
+import { readCliOption } from "./dataset.js";
+
+export const USE_CASES_ENV_VAR = "VOICEFORGE_USE_CASES";
+export const USE_CASES_CLI_FLAG = "--use-cases";
+
+const nonEmpty = z.string().trim().min(1);
+
+const useCaseProfileSchema = z.object({
+  weights: z.object({
+    latency: z.number().nonnegative(),
+    quality: z.number().nonnegative(),
+    cost: z.number().nonnegative(),
+  }).refine((weights) => weights.latency + weights.quality + weights.cost > 0, "at least one weight must be positive"),
+  aliases: z.array(nonEmpty).default([]),
+  system_prompt: z.string().trim().min(1).optional().describe("Default LLM system prompt for scaffolds and configs"),
+  constraints: z.object({
+    max_latency_ms: z.number().positive().optional(),
+    max_cost_per_min: z.number().nonnegative().optional(),
+    min_quality: z.number().min(0).max(5).optional(),
+    required_providers: z.array(nonEmpty).default([]),
+    excluded_providers: z.array(nonEmpty).default([]),
+    required_features: z.array(z.enum(PROVIDER_FEATURES)).default([]),
+    compliance: z.array(z.enum(CERTIFICATIONS)).default([]),
+    region: z.enum(DATA_REGIONS).optional(),
+  }).optional().describe("Applied by recommend and scaffold in addition to any constraints passed with the call"),
+});
+
+export const USE_CASE_FILE_SCHEMA = z.object({
+  use_cases: z.record(nonEmpty, useCaseProfileSchema),
+});
+
+export type UseCaseConstraints = NonNullable<z.infer<typeof useCaseProfileSchema>["constraints"]>;
+
+export interface UseCaseProfile {
+  weights: UseCasePriorities;
+  aliases: string[];
+  systemPrompt: string | null;
+  constraints: UseCaseConstraints | null;
+}
+
+export interface UseCaseRegistry {
+  path: string;
+  /** Keyed by the name as written in the file. */
+  profiles: Record<string, UseCaseProfile>;
+  /** Set when the file exists but could not be used; no custom profiles are loaded then. */
+  loadErrors: string[];
+}
+
+export function resolveUseCasesPath(argv: string[], env: NodeJS.ProcessEnv): string {
+  const configured = readCliOption(argv, USE_CASES_CLI_FLAG) ?? (env[USE_CASES_ENV_VAR]?.trim() || null);
+  return path.resolve(configured ?? path.join(os.homedir(), ".voiceforge", "use-cases.yaml"));
+}
+
+/** Never throws: a missing file is an empty registry, an invalid one is reported in `loadErrors`. */
+export function loadUseCaseRegistry(filePath: string): UseCaseRegistry {
+  const empty = (loadErrors: string[]): UseCaseRegistry => ({ path: filePath, profiles: {}, loadErrors });
+
+  let raw: unknown;
+  try {
+    const text = readFileSync(filePath, "utf8");
+    const extension = path.extname(filePath).toLowerCase();
+    raw = extension === ".json" ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return empty([]);
+    return empty([`${filePath}: ${error instanceof Error ? error.message : "could not be read"}`]);
+  }
+
+  const parsed = USE_CASE_FILE_SCHEMA.safeParse(raw);
+  if (!parsed.success) {
+    return empty(parsed.error.issues.map((issue) => `${issue.path.map(String).join(".") || "<root>"}: ${issue.message}`));
+  }
+
+  const profiles = Object.fromEntries(Object.entries(parsed.data.use_cases).map(([name, profile]) => [name, {
+    weights: profile.weights,
+    aliases: profile.aliases,
+    systemPrompt: profile.system_prompt ?? null,
+    constraints: profile.constraints ?? null,
+  }]));
+  return { path: filePath, profiles, loadErrors: [] };
+}
@@ -11,17 +11,67 @@
  * https://getvoiceforge.com
  */
 
+import { randomUUID } from "node:crypto";
+import { readFileSync } from "node:fs";
+import path from "node:path";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import {
-  BENCHMARK_DATA,
-  USE_CASE_PRIORITIES,
-  SUPPORTED_LANGUAGES,
-  PROVIDER_INFO,
+  CERTIFICATIONS,
+  DATA_REGIONS,
+  DEPLOYMENT_REGIONS,
+  FEATURE_STAGES,
+  PROVIDER_FEATURES,
   type BenchmarkEntry,
+  type Certification,
+  type DataRegion,
+  type LanguageMetrics,
+  type LatencyPercentiles,
+  type ModelCapabilities,
+  type ProviderFeature,
 } from "./data/benchmarks.js";
-import { getLiveKitAgentTemplate, getNextJSTemplate } from "./data/templates.js";
+import { getDatasetJsonSchema, loadDataset, resolveDatasetPath } from "./data/dataset.js";
+import { buildEstimator, type EstimateResult, type StackEstimator } from "./data/estimate.js";
+import { aggregateTurns, detectTurnLogFormat, parseTurnLog, stackKey, type RawTurn, type TurnRecord } from "./data/ingest.js";
+import {
+  compactLocalStore,
+  getStoredTurns,
+  MAX_TURNS_PER_STACK_LANGUAGE,
+  readLocalStore,
+  resolveStorePath,
+  writeLocalStore,
+} from "./data/local-store.js";
+import { resolveScaffoldRoot, writeScaffold, type PlannedFile } from "./data/scaffold-writer.js";
+import {
+  getLiveKitAgentTemplate,
+  getLiveKitNodeTemplate,
+  getNextJSTemplate,
+  getNextJSRoutesTemplate,
+  getPipecatTemplate,
+  getTwilioTemplate,
+  LIVEKIT_VERSIONS,
+  NOISE_CANCELLATION_MODES,
+  resolveLiveKitAgentOptions,
+  TURN_DETECTION_MODES,
+} from "./data/templates.js";
+import { USE_CASE_TEMPLATES, useCaseSystemPrompt, type UseCaseTemplate } from "./data/use-case-templates.js";
+import { loadUseCaseRegistry, resolveUseCasesPath, type UseCaseProfile } from "./data/use-cases.js";
+
+const DATASET = loadDataset(resolveDatasetPath(process.argv.slice(2), process.env));
+const {
+  benchmarks: BENCHMARK_DATA,
+  useCasePriorities: DATASET_USE_CASE_PRIORITIES,
+  supportedLanguages: SUPPORTED_LANGUAGES,
+  providerInfo: PROVIDER_INFO,
+} = DATASET;
+
+const USE_CASE_REGISTRY = loadUseCaseRegistry(resolveUseCasesPath(process.argv.slice(2), process.env));
+
+const SCAFFOLD_ROOT = resolveScaffoldRoot(process.argv.slice(2), process.env);
+
+const LOCAL_STORE = readLocalStore(resolveStorePath(process.argv.slice(2), process.env));
+let LOCAL_BENCHMARKS = aggregateTurns(getStoredTurns(LOCAL_STORE));
 
 const server = new McpServer({
   name: "voiceforge",
@@ -30,7 +80,6 @@ const server = new McpServer({
 
 type ScoreWeights = { latency: number; quality: number; cost: number };
 type ProviderCategory = "stt" | "llm" | "tts";
-type ScaffoldFramework = "livekit" | "nextjs";
 type ParsedProviderModel = {
   provider: string;
   model?: string;
@@ -40,14 +89,30 @@ type ParsedCombo = {
   llm: ParsedProviderModel;
   tts: ParsedProviderModel;
 };
+type MetricsSource = "language" | "aggregate";
+type LatencyBasis = "mean" | "p95";
+type LocalDataMode = "include" | "exclude" | "only";
+/** The fields ranking and formatting read; satisfied by raw rows and per-language views alike. */
+type StackMetrics = Pick<BenchmarkEntry, "latencyMs" | "quality" | "costPerMin" | "latencyPercentiles" | "latencyBreakdown">;
+/** A benchmark row with latency/quality/cost replaced by the figures for one language. */
+type LanguageBenchmark = Omit<BenchmarkEntry, "languageMetrics" | "sampleSize"> & {
+  /** Set when figures are the worst case across several languages: the language behind each metric. */
+  worstCaseLanguages?: { latency: string; quality: string; cost: string };
+  metricsLanguage: string | null;
+  metricsSource: MetricsSource;
+  sttAccuracy: number | null;
+  sampleSize: number | null;
+};
 
 const MAX_RESULTS = 10;
 const MIN_PROVIDER_INPUT_LENGTH = 3;
 const MIN_LANGUAGE_PREFIX_LENGTH = 3;
 const DEFAULT_WEIGHTS: ScoreWeights = { latency: 70, quality: 70, cost: 60 };
-const DATA_SOURCE_UPDATED_AT = "2026-02-15T00:00:00Z";
 type ToolOutputFormat = "markdown" | "json";
 
+const SCAFFOLD_FRAMEWORKS = ["livekit", "livekit-node", "nextjs", "nextjs-routes", "pipecat", "twilio"] as const;
+type ScaffoldFramework = typeof SCAFFOLD_FRAMEWORKS[number];
+
 const FRAMEWORK_COMPATIBILITY: Record<ScaffoldFramework, {
   stt: ReadonlySet<string>;
   llm: ReadonlySet<string>;
@@ -58,11 +123,44 @@ const FRAMEWORK_COMPATIBILITY: Record<ScaffoldFramework, {
     llm: new Set(["OpenAI", "Anthropic", "Google"]),
     tts: new Set(["Cartesia", "ElevenLabs"]),
   },
+  // Only providers with a published @livekit/agents-plugin-* package; Groq runs through the OpenAI plugin.
+  "livekit-node": {
+    stt: new Set(["Deepgram", "OpenAI"]),
+    llm: new Set(["OpenAI", "Google", "Groq"]),
+    tts: new Set(["Cartesia", "ElevenLabs"]),
+  },
+  // The ElevenLabs Conversational AI widget runs its own STT and LLM.
   nextjs: {
     stt: new Set(),
     llm: new Set(),
     tts: new Set(["ElevenLabs"]),
   },
+  // App Router routes call the providers over HTTP: batch STT on the recorded clip, streamed MP3 TTS.
+  "nextjs-routes": {
+    stt: new Set(["Deepgram", "OpenAI", "AssemblyAI"]),
+    llm: new Set(["OpenAI", "Anthropic", "Google", "Groq"]),
+    tts: new Set(["Cartesia", "ElevenLabs"]),
+  },
+  pipecat: {
+    stt: new Set(["Deepgram", "AssemblyAI", "OpenAI", "Speechmatics", "Google"]),
+    llm: new Set(["OpenAI", "Anthropic", "Google", "Groq"]),
+    tts: new Set(["Cartesia", "ElevenLabs", "PlayHT", "Rime"]),
+  },
+  // Streaming STT that takes 8kHz PCM, and TTS that returns 8kHz PCM for re-encoding to mu-law.
+  twilio: {
+    stt: new Set(["Deepgram", "AssemblyAI"]),
+    llm: new Set(["OpenAI", "Anthropic", "Google", "Groq"]),
+    tts: new Set(["Cartesia", "ElevenLabs"]),
+  },
+};
+
+const FRAMEWORK_LABELS: Record<ScaffoldFramework, string> = {
+  livekit: "LiveKit Agents (Python)",
+  "livekit-node": "LiveKit Agents (Node/TypeScript)",
+  nextjs: "Next.js + ElevenLabs (TypeScript)",
+  "nextjs-routes": "Next.js API routes (TypeScript)",
+  pipecat: "Pipecat (Python)",
+  twilio: "Twilio Media Streams (Node/TypeScript)",
 };
 
 const LANGUAGE_ALIASES: Record<string, string[]> = {
@@ -92,6 +190,13 @@ const PROVIDER_ALIASES: Record<string, string[]> = {
   Rime: ["rime", "rime ai"],
 };
 
+// Providers introduced by an external dataset resolve by their own name.
+for (const category of ["stt", "llm", "tts"] as const) {
+  for (const provider of Object.keys(PROVIDER_INFO[category])) {
+    PROVIDER_ALIASES[provider] ??= [];
+  }
+}
+
 const ALL_PROVIDERS = Object.keys(PROVIDER_ALIASES);
 
 const USE_CASE_ALIASES: Record<string, string[]> = {
@@ -123,6 +228,17 @@ function normalizeUseCase(use_case: string): string {
   return normalizeTerm(use_case).replace(/\s+/g, "-");
 }
 
+/** Profiles from the use-case registry file, keyed by normalized use-case name. */
+const CUSTOM_USE_CASES: Record<string, UseCaseProfile> = Object.fromEntries(
+  Object.entries(USE_CASE_REGISTRY.profiles).map(([name, profile]) => [normalizeUseCase(name), profile])
+);
+
+const USE_CASE_PRIORITIES: Record<string, ScoreWeights> = { ...DATASET_USE_CASE_PRIORITIES };
+for (const [useCase, profile] of Object.entries(CUSTOM_USE_CASES)) {
+  USE_CASE_PRIORITIES[useCase] = profile.weights;
+  USE_CASE_ALIASES[useCase] = [...(USE_CASE_ALIASES[useCase] ?? []), ...profile.aliases];
+}
+
 function normalizeProviderInput(input: string): string {
   return normalizeTerm(input);
 }
@@ -244,11 +360,11 @@ function parseComboInput(desc: string): ParsedCombo | null {
   return { stt, llm, tts };
 }
 
-function parseComboMatches(combo: string): { parsed: ParsedCombo; entries: BenchmarkEntry[] } | null {
+function parseComboMatches(combo: string, rows: BenchmarkEntry[] = BENCHMARK_DATA): { parsed: ParsedCombo; entries: BenchmarkEntry[] } | null {
   const parsed = parseComboInput(combo);
   if (!parsed) return null;
 
-  const entries = BENCHMARK_DATA.filter((entry) => {
+  const entries = rows.filter((entry) => {
     return (
       makeProviderMatch(parsed.stt.provider, entry.stt) &&
       (!parsed.stt.model || modelMatches(entry.sttModel, parsed.stt.model)) &&
@@ -273,8 +389,7 @@ function modelMatches(modelA: string, modelB: string): boolean {
 function getProviderModels(provider: string, category: ProviderCategory): string[] {
   const resolved = resolveProvider(provider);
   if (!resolved) return [];
-  const categoryMap = PROVIDER_INFO[category] as Record<string, { models: string[] }>;
-  return categoryMap[resolved]?.models ?? [];
+  return PROVIDER_INFO[category][resolved]?.models ?? [];
 }
 
 function isModelKnown(provider: string, category: ProviderCategory, model: string): boolean {
@@ -282,10 +397,130 @@ function isModelKnown(provider: string, category: ProviderCategory, model: strin
   return supported.some((knownModel) => modelMatches(knownModel, model));
 }
 
+/** Catalog spelling of a model when known, so ingested rows line up with corpus rows. */
+function canonicalModel(provider: string, category: ProviderCategory, model: string): string {
+  return getProviderModels(provider, category).find((knownModel) => modelMatches(knownModel, model)) ?? model.trim();
+}
+
+/** Estimates a parsed combo with no benchmark row. Null when a stage has no model to estimate from. */
+function estimateParsedCombo(combo: ParsedCombo, localData: LocalDataMode = "include"): EstimateResult | null {
+  const { stt, llm, tts } = combo;
+  if (!stt.model || !llm.model || !tts.model) return null;
+  return getEstimator(localData).estimate({
+    stt: stt.provider,
+    sttModel: canonicalModel(stt.provider, "stt", stt.model),
+    llm: llm.provider,
+    llmModel: canonicalModel(llm.provider, "llm", llm.model),
+    tts: tts.provider,
+    ttsModel: canonicalModel(tts.provider, "tts", tts.model),
+  });
+}
+
+function describeEstimateFailure(result: EstimateResult | null): string {
+  if (!result) return "every stage needs a model";
+  return result.ok ? "" : `no benchmark row uses ${result.missing.join(", ")}`;
+}
+
+const STAGE_FIELDS: Record<ProviderCategory, { provider: "stt" | "llm" | "tts"; model: "sttModel" | "llmModel" | "ttsModel" }> = {
+  stt: { provider: "stt", model: "sttModel" },
+  llm: { provider: "llm", model: "llmModel" },
+  tts: { provider: "tts", model: "ttsModel" },
+};
+
+function getModelCapabilities(category: ProviderCategory, provider: string, model: string): ModelCapabilities | null {
+  const resolved = resolveProviderCategory(provider, category);
+  const capabilities = resolved ? PROVIDER_INFO[category][resolved].capabilities ?? {} : {};
+  const key = Object.keys(capabilities).find((knownModel) => modelMatches(knownModel, model));
+  return key ? capabilities[key] : null;
+}
+
+type FeatureGap = {
+  feature: ProviderFeature;
+  stage: ProviderCategory;
+  provider: string;
+  model: string;
+  /** unsupported: the model is known to lack it; unknown: no capability data for the model. */
+  reason: "unsupported" | "unknown";
+};
+
+type StackComponentsInput = Pick<BenchmarkEntry, "stt" | "sttModel" | "llm" | "llmModel" | "tts" | "ttsModel">;
+
+/** Required features the stack cannot be shown to provide, one gap per stage that falls short. */
+function findFeatureGaps(entry: StackComponentsInput, features: ProviderFeature[]): FeatureGap[] {
+  const stages: Record<ProviderCategory, { provider: string; model: string }> = {
+    stt: { provider: entry.stt, model: entry.sttModel },
+    llm: { provider: entry.llm, model: entry.llmModel },
+    tts: { provider: entry.tts, model: entry.ttsModel },
+  };
+  return features.flatMap((feature) => FEATURE_STAGES[feature].flatMap((stage) => {
+    const { provider, model } = stages[stage];
+    const capabilities = getModelCapabilities(stage, provider, model);
+    if (capabilities?.features.includes(feature)) return [];
+    return [{ feature, stage, provider, model, reason: capabilities ? "unsupported" as const : "unknown" as const }];
+  }));
+}
+
+const describeFeatureGap = (gap: FeatureGap): string =>
+  `${gap.stage.toUpperCase()} ${gap.provider} ${gap.model} ${gap.reason === "unknown" ? "has no capability data for" : "lacks"} ${gap.feature}`;
+
+type ComplianceRequirement = { certifications: Certification[]; region?: DataRegion };
+
+type ComplianceGap = {
+  stage: ProviderCategory;
+  provider: string;
+  missing_certifications: Certification[];
+  /** The required region, when the provider cannot process there. */
+  missing_region: DataRegion | null;
+  /** True when the provider has no compliance metadata at all. */
+  unknown: boolean;
+};
+
+/** Stages whose provider cannot be shown to meet the certifications and region. */
+function findComplianceGaps(entry: Pick<BenchmarkEntry, "stt" | "llm" | "tts">, requirement: ComplianceRequirement): ComplianceGap[] {
+  if (requirement.certifications.length === 0 && !requirement.region) return [];
+  return (["stt", "llm", "tts"] as const).flatMap((stage) => {
+    const provider = entry[stage];
+    const resolved = resolveProviderCategory(provider, stage);
+    const compliance = resolved ? PROVIDER_INFO[stage][resolved].compliance : undefined;
+    const missingCertifications = requirement.certifications.filter((certification) =>
+      !compliance?.certifications.includes(certification)
+    );
+    const missingRegion = requirement.region && !compliance?.regions.includes(requirement.region) ? requirement.region : null;
+    if (missingCertifications.length === 0 && !missingRegion) return [];
+    return [{ stage, provider, missing_certifications: missingCertifications, missing_region: missingRegion, unknown: !compliance }];
+  });
+}
+
+function describeComplianceGap(gap: ComplianceGap): string {
+  const subject = `${gap.stage.toUpperCase()} ${gap.provider}`;
+  if (gap.unknown) return `${subject} has no compliance data`;
+  const problems = [
+    ...(gap.missing_certifications.length > 0 ? [`not ${gap.missing_certifications.map((item) => item.toUpperCase()).join("/")} certified`] : []),
+    ...(gap.missing_region ? [`no ${gap.missing_region.toUpperCase()} processing`] : []),
+  ];
+  return `${subject} ${problems.join(", ")}`;
+}
+
+const COMPLIANCE_PARAMS = {
+  compliance: z.array(z.enum(CERTIFICATIONS)).default([]).describe(
+    `Certifications every provider in the stack must hold: ${CERTIFICATIONS.join(", ")}`
+  ),
+  region: z.enum(DATA_REGIONS).optional().describe(
+    `Data residency: every provider must be able to process in this region (${DATA_REGIONS.join(", ")})`
+  ),
+};
+
+const REQUIRED_FEATURES_PARAM = z.array(z.enum(PROVIDER_FEATURES)).default([]).describe(
+  `Capabilities the stack must have: ${PROVIDER_FEATURES.join(", ")}`
+);
+
 function yamlSafe(value: string): string {
   return JSON.stringify(value);
 }
 
+type ToolArgs<Shape extends z.ZodRawShape> = z.infer<z.ZodObject<Shape>>;
+type ToolResponse = ReturnType<typeof formatToolResponse>;
+
 function formatToolResponse(
   format: ToolOutputFormat,
   markdown: string,
@@ -302,8 +537,7 @@ function formatToolResponse(
 function resolveProviderCategory(provider: string, category: ProviderCategory): string | null {
   const resolved = resolveProvider(provider);
   if (!resolved) return null;
-  const categoryMap = PROVIDER_INFO[category] as Record<string, { url: string; models: string[]; strengths: string }>;
-  return categoryMap[resolved] ? resolved : null;
+  return PROVIDER_INFO[category][resolved] ? resolved : null;
 }
 
 function listKnownProviders(category?: ProviderCategory): string[] {
@@ -341,6 +575,23 @@ function resolveUseCase(input: string): string {
   return direct ? direct[0] : normalized;
 }
 
+type UseCaseSource = "custom" | "bundled" | "default";
+
+function getUseCaseSource(useCase: string): UseCaseSource {
+  if (CUSTOM_USE_CASES[useCase]) return "custom";
+  return USE_CASE_PRIORITIES[useCase] ? "bundled" : "default";
+}
+
+/** Names what an unregistered use case falls back to, or null when it has a profile. */
+function describeUseCaseFallback(useCase: string, fallbacks: string[]): string | null {
+  if (getUseCaseSource(useCase) !== "default" || fallbacks.length === 0) return null;
+  return `No profile for use case "${useCase}"; using ${fallbacks.join(" and ")}. Register it in ${USE_CASE_REGISTRY.path} to tune it.`;
+}
+
+const DEFAULT_WEIGHTS_FALLBACK =
+  `default weights (latency ${DEFAULT_WEIGHTS.latency}, quality ${DEFAULT_WEIGHTS.quality}, cost ${DEFAULT_WEIGHTS.cost})`;
+const DEFAULT_PROMPT_FALLBACK = "the generic system prompt";
+
 function getObjectiveWeights(optimize_for: "balanced" | "latency" | "quality" | "cost", use_case: string): ScoreWeights {
   if (optimize_for === "latency") return { latency: 100, quality: 30, cost: 30 };
   if (optimize_for === "quality") return { latency: 30, quality: 100, cost: 30 };
@@ -348,432 +599,1141 @@ function getObjectiveWeights(optimize_for: "balanced" | "latency" | "quality" |
   return getUseCaseWeights(use_case);
 }
 
-function scoreBenchmark(entry: BenchmarkEntry, weights: ScoreWeights): number {
-  const latencyScore = Math.max(0, 100 - (entry.latencyMs - 100) * 0.5);
-  const qualityScore = (entry.quality / 5) * 100;
-  const costScore = Math.max(0, 100 - entry.costPerMin * 5000);
-  return Math.round(
-    ((latencyScore * weights.latency +
-      qualityScore * weights.quality +
-      costScore * weights.cost) /
-      (weights.latency + weights.quality + weights.cost)) *
-      10
-  ) / 10;
+/**
+ * p95 falls back to the mean for rows measured without a latency distribution,
+ * so they can still be ordered; check hasMeasuredP95 before trusting it as a tail.
+ */
+function latencyFor(entry: StackMetrics, basis: LatencyBasis): number {
+  return basis === "p95" ? entry.latencyPercentiles?.p95 ?? entry.latencyMs : entry.latencyMs;
 }
 
-function rankBenchmarks(entries: BenchmarkEntry[], weights: ScoreWeights): (BenchmarkEntry & { score: number })[] {
-  return entries
-    .map((entry) => ({ ...entry, score: scoreBenchmark(entry, weights) }))
-    .sort((a, b) => {
-      if (b.score !== a.score) return b.score - a.score;
-      if (a.latencyMs !== b.latencyMs) return a.latencyMs - b.latencyMs;
-      if (b.quality !== a.quality) return b.quality - a.quality;
-      return a.costPerMin - b.costPerMin;
-    });
+function hasMeasuredP95(entry: StackMetrics): boolean {
+  return entry.latencyPercentiles !== undefined;
 }
 
-function clampMaxResults(value: number): number {
-  return Math.max(1, Math.min(Math.floor(value), MAX_RESULTS));
+function getLatencyBasis(optimize_for: "balanced" | "latency" | "quality" | "cost"): LatencyBasis {
+  return optimize_for === "latency" ? "p95" : "mean";
 }
 
-function isScaffoldCompatible(entry: BenchmarkEntry, framework: ScaffoldFramework): boolean {
-  const policy = FRAMEWORK_COMPATIBILITY[framework];
-  const sttOk = policy.stt.size === 0 || policy.stt.has(entry.stt);
-  const llmOk = policy.llm.size === 0 || policy.llm.has(entry.llm);
-  const ttsOk = policy.tts.has(entry.tts);
-  return sttOk && llmOk && ttsOk;
-}
+type MetricKey = keyof ScoreWeights;
 
-// ─── Tool 1: Recommend ───────────────────────────────────────────────
+type ScoreBreakdown = {
+  /** Each metric normalized to 0-100 before weighting. */
+  subScores: Record<MetricKey, number>;
+  /** Share of the total weight each metric carries (sums to 1). */
+  weightShares: Record<MetricKey, number>;
+  /** Points each metric adds to the final score. */
+  contributions: Record<MetricKey, number>;
+  score: number;
+};
 
-server.tool(
-  "voiceforge_recommend",
-  "Recommend the optimal STT+LLM+TTS combination for a voice AI agent. Provide a language and use case to get a ranked list of tested stacks with latency, quality, and cost data from production benchmarks.",
-  {
-    language: z.string().describe(
-      `Target language. Supported: ${SUPPORTED_LANGUAGES.join(", ")}`
-    ),
-    use_case: z.string().describe(
-      `Use case. Options: ${Object.keys(USE_CASE_PRIORITIES).join(", ")}, or describe your own`
-    ),
-    optimize_for: z.enum(["balanced", "latency", "quality", "cost"]).default("balanced").describe(
-      "What to optimize for: balanced (default), latency (fastest), quality (best MOS), or cost (cheapest)"
-    ),
-    max_results: z.number().default(5).describe("Number of results to return (default: 5)"),
-    output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
-  },
-  async ({ language, use_case, optimize_for, max_results, output_format }) => {
-    const resolvedLanguage = resolveLanguage(language);
-    const resolvedUseCase = resolveUseCase(use_case);
-    if (!resolvedLanguage) {
-      const suggestions = getLanguageSuggestions(language);
-      return {
-        content: [{
-          type: "text",
-          text:
-            `Language "${language}" is not recognized in benchmark corpus.\n` +
-            `Try one of: ${suggestions.join(", ")}.`,
-        }],
-      };
-    }
+const roundTo = (value: number, digits: number): number => Number(value.toFixed(digits));
 
-    const matching = BENCHMARK_DATA.filter((b) =>
-      b.languages.some((l) => l.toLowerCase() === resolvedLanguage.toLowerCase())
-    );
+type ScoringStrategy = "linear" | "minmax" | "zscore" | "rank";
+type SubScorer = (entry: StackMetrics) => Record<MetricKey, number>;
 
-    if (matching.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No benchmarks found for "${language}". Supported languages: ${SUPPORTED_LANGUAGES.join(", ")}.\n\nTip: For unsupported languages, start with Deepgram nova-3 (STT) + OpenAI gpt-4.1-mini (LLM) + Cartesia sonic-3 (TTS) — this combination works well across most languages.`,
-        }],
-      };
-    }
+const SCORING_STRATEGY_PARAM = z.enum(["linear", "minmax", "zscore", "rank"]).default("linear").describe(
+  "How metrics become 0-100 sub-scores: linear (fixed formula, default), minmax (scaled between the best and worst stack considered), " +
+  "zscore (50 ± 10 per standard deviation from the mean of the stacks considered), or rank (percentile rank among the stacks considered)"
+);
 
-    const resultLimit = clampMaxResults(max_results);
-    const weights = getObjectiveWeights(optimize_for, resolvedUseCase);
-    const top = rankBenchmarks(matching, weights).slice(0, resultLimit);
+const METRIC_KEYS: MetricKey[] = ["latency", "quality", "cost"];
 
-    if (output_format === "json") {
-      return {
-        content: [{
-          type: "text",
-          text: JSON.stringify({
-            language: resolvedLanguage,
-            use_case: resolvedUseCase,
-            optimize_for,
-            top,
-          }, null, 2),
-        }],
-      };
-    }
+/** Raw metric oriented so that higher is always better. */
+function orientedMetric(entry: StackMetrics, metric: MetricKey, latencyBasis: LatencyBasis): number {
+  if (metric === "latency") return -latencyFor(entry, latencyBasis);
+  if (metric === "cost") return -entry.costPerMin;
+  return entry.quality;
+}
 
-    // Format output
-    const lines: string[] = [
-      `## VoiceForge Recommendation`,
-      `**Language:** ${resolvedLanguage} | **Use Case:** ${resolvedUseCase} | **Optimizing for:** ${optimize_for}`,
-      "",
-      "| Rank | STT | LLM | TTS | Latency | Quality | Cost/min | Score |",
-      "|------|-----|-----|-----|---------|---------|----------|-------|",
-    ];
+/**
+ * Latency scores 100 at 100ms and loses 0.5 points per ms above that; quality
+ * is UTMOS out of 5; cost scores 100 at $0 and loses 5 points per $0.001/min.
+ */
+function linearSubScores(entry: StackMetrics, latencyBasis: LatencyBasis): Record<MetricKey, number> {
+  return {
+    latency: Math.max(0, 100 - (latencyFor(entry, latencyBasis) - 100) * 0.5),
+    quality: (entry.quality / 5) * 100,
+    cost: Math.max(0, 100 - entry.costPerMin * 5000),
+  };
+}
 
-    top.forEach((b, i) => {
-      lines.push(
-        `| ${i + 1} | ${b.stt} ${b.sttModel} | ${b.llm} ${b.llmModel} | ${b.tts} ${b.ttsModel} | ${b.latencyMs}ms | ${b.quality}/5 | $${b.costPerMin} | ${b.score} |`
-      );
+/**
+ * Builds the sub-scorer for a strategy. Corpus-relative strategies normalize
+ * against `corpus` — the rows left after language and constraint filtering —
+ * so the same stack can score differently against a different shortlist.
+ */
+function createSubScorer(strategy: ScoringStrategy, corpus: StackMetrics[], latencyBasis: LatencyBasis): SubScorer {
+  if (strategy === "linear" || corpus.length === 0) return (entry) => linearSubScores(entry, latencyBasis);
+
+  const values = Object.fromEntries(
+    METRIC_KEYS.map((metric) => [metric, corpus.map((entry) => orientedMetric(entry, metric, latencyBasis))])
+  ) as Record<MetricKey, number[]>;
+  const perMetric = (score: (value: number, metric: MetricKey) => number): SubScorer => (entry) =>
+    Object.fromEntries(METRIC_KEYS.map((metric) => [metric, score(orientedMetric(entry, metric, latencyBasis), metric)])) as Record<MetricKey, number>;
+
+  // Corpus statistics are computed once here; the returned scorer only looks them up.
+  const statsFor = <S>(compute: (metricValues: number[]) => S): Record<MetricKey, S> =>
+    Object.fromEntries(METRIC_KEYS.map((metric) => [metric, compute(values[metric])])) as Record<MetricKey, S>;
+
+  if (strategy === "minmax") {
+    const bounds = statsFor((metricValues) => ({ min: Math.min(...metricValues), max: Math.max(...metricValues) }));
+    return perMetric((value, metric) => {
+      const { min, max } = bounds[metric];
+      return max === min ? 100 : ((value - min) / (max - min)) * 100;
     });
+  }
 
-    lines.push("");
-    lines.push("### Top Pick Details");
-    const best = top[0];
-    lines.push(`**${best.stt} ${best.sttModel}** → **${best.llm} ${best.llmModel}** → **${best.tts} ${best.ttsModel}**`);
-    lines.push(`- Latency: ${best.latencyMs}ms end-to-end`);
-    lines.push(`- Quality: ${best.quality}/5.0 UTMOS${best.mos ? ` (MOS: ${best.mos})` : ""}`);
-    lines.push(`- Cost: $${best.costPerMin}/min`);
-    if (best.notes) lines.push(`- Notes: ${best.notes}`);
-    lines.push("");
-    lines.push(`> Use \`voiceforge_scaffold\` to generate a complete project with this stack.`);
+  if (strategy === "zscore") {
+    const moments = statsFor((metricValues) => {
+      const mean = metricValues.reduce((sum, v) => sum + v, 0) / metricValues.length;
+      const sd = Math.sqrt(metricValues.reduce((sum, v) => sum + (v - mean) ** 2, 0) / metricValues.length);
+      return { mean, sd };
+    });
+    return perMetric((value, metric) => {
+      const { mean, sd } = moments[metric];
+      return sd === 0 ? 50 : 50 + ((value - mean) / sd) * 10;
+    });
+  }
 
-    return { content: [{ type: "text", text: lines.join("\n") }] };
+  // Percentile rank; ties share the midpoint of their positions.
+  if (corpus.length === 1) return perMetric(() => 100);
+  const sorted = statsFor((metricValues) => [...metricValues].sort((a, b) => a - b));
+  return perMetric((value, metric) => {
+    const below = countBelow(sorted[metric], value, false);
+    const equal = countBelow(sorted[metric], value, true) - below;
+    return ((below + (equal - 1) / 2) / (corpus.length - 1)) * 100;
+  });
+}
+
+/** Number of values in an ascending array below `value` (or at most `value` when `inclusive`). */
+function countBelow(sorted: number[], value: number, inclusive: boolean): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value || (inclusive && sorted[mid] === value)) low = mid + 1;
+    else high = mid;
   }
-);
+  return low;
+}
 
-// ─── Tool 2: Benchmark ───────────────────────────────────────────────
+function explainScore(entry: StackMetrics, weights: ScoreWeights, subScorer: SubScorer): ScoreBreakdown {
+  const subScores = subScorer(entry);
+  const totalWeight = weights.latency + weights.quality + weights.cost;
+  const share = (metric: MetricKey): number => weights[metric] / totalWeight;
+  return {
+    subScores: { latency: roundTo(subScores.latency, 1), quality: roundTo(subScores.quality, 1), cost: roundTo(subScores.cost, 1) },
+    weightShares: { latency: roundTo(share("latency"), 3), quality: roundTo(share("quality"), 3), cost: roundTo(share("cost"), 3) },
+    contributions: {
+      latency: roundTo(subScores.latency * share("latency"), 1),
+      quality: roundTo(subScores.quality * share("quality"), 1),
+      cost: roundTo(subScores.cost * share("cost"), 1),
+    },
+    score: Math.round(
+      ((subScores.latency * weights.latency + subScores.quality * weights.quality + subScores.cost * weights.cost) / totalWeight) * 10
+    ) / 10,
+  };
+}
 
-server.tool(
-  "voiceforge_benchmark",
-  "View benchmark data for all tested STT+LLM+TTS combinations. Filter by language, provider, or sort by different metrics. Data from 4 years of production voice AI across enterprise deployments.",
-  {
-    language: z.string().optional().describe("Filter by language (e.g., 'Thai', 'English')"),
-    provider: z.string().optional().describe("Filter by any provider name (e.g., 'Deepgram', 'ElevenLabs')"),
-    sort_by: z.enum(["latency", "quality", "cost"]).default("quality").describe("Sort results by metric"),
-    output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
-  },
-  async ({ language, provider, sort_by, output_format }) => {
-    const resolvedLanguage = language ? resolveLanguage(language) : null;
-    const resolvedProvider = provider ? resolveProvider(provider) : null;
-    if (language && !resolvedLanguage) {
-      const suggestions = getLanguageSuggestions(language);
-      const markdown = `Language "${language}" is not recognized.\nTry one of: ${suggestions.join(", ")}.`;
-      return formatToolResponse(output_format, markdown, {
-        status: "error",
-        reason: "unsupported-language",
-        requested_language: language,
-        suggestions,
-      });
-    }
+function scoreBenchmark(entry: StackMetrics, weights: ScoreWeights, subScorer: SubScorer): number {
+  return explainScore(entry, weights, subScorer).score;
+}
 
-    if (provider && !resolvedProvider) {
-      const markdown = `Provider "${provider}" is not recognized.\nTry: ${listKnownProviders().join(", ")}`;
-      return formatToolResponse(output_format, markdown, {
-        status: "error",
-        reason: "unsupported-provider",
-        requested_provider: provider,
-        supported_providers: listKnownProviders(),
-      });
-    }
+function rankBenchmarks<T extends StackMetrics>(
+  entries: T[],
+  weights: ScoreWeights,
+  latencyBasis: LatencyBasis = "mean",
+  strategy: ScoringStrategy = "linear"
+): (T & { score: number })[] {
+  const subScorer = createSubScorer(strategy, entries, latencyBasis);
+  return entries
+    .map((entry) => ({ ...entry, score: scoreBenchmark(entry, weights, subScorer) }))
+    .sort((a, b) => compareRanked(a, b, latencyBasis).order);
+}
 
-    let results = [...BENCHMARK_DATA];
+type RankCriterion = "score" | "latency" | "quality" | "cost" | "tie";
+
+/** rankBenchmarks' ordering: score, then latency, quality and cost as tie-breakers. Reports which criterion decided. */
+function compareRanked(a: StackMetrics & { score: number }, b: StackMetrics & { score: number }, latencyBasis: LatencyBasis): { order: number; decidedBy: RankCriterion } {
+  if (b.score !== a.score) return { order: b.score - a.score, decidedBy: "score" };
+  const latencyA = latencyFor(a, latencyBasis);
+  const latencyB = latencyFor(b, latencyBasis);
+  if (latencyA !== latencyB) return { order: latencyA - latencyB, decidedBy: "latency" };
+  if (b.quality !== a.quality) return { order: b.quality - a.quality, decidedBy: "quality" };
+  if (a.costPerMin !== b.costPerMin) return { order: a.costPerMin - b.costPerMin, decidedBy: "cost" };
+  return { order: 0, decidedBy: "tie" };
+}
 
-    if (language) {
-      results = results.filter((b) =>
-        b.languages.some((l) => l.toLowerCase() === resolvedLanguage!.toLowerCase())
-      );
-    }
+type RankExplanation = ScoreBreakdown & {
+  rank: number;
+  stack: string;
+  /** Against the next-ranked stack; null for the last row. */
+  vsNext: {
+    stack: string;
+    decidedBy: RankCriterion;
+    scoreMargin: number;
+    latencyMs: number;
+    quality: number;
+    costPerMin: number;
+  } | null;
+};
 
-    if (provider) {
-      results = results.filter(
-        (b) =>
-        makeProviderMatch(resolvedProvider!, b.stt) ||
-        makeProviderMatch(resolvedProvider!, b.llm) ||
-        makeProviderMatch(resolvedProvider!, b.tts)
-      );
-    }
+function explainRanking<T extends LanguageBenchmark & { score: number }>(
+  ranked: T[],
+  weights: ScoreWeights,
+  latencyBasis: LatencyBasis,
+  strategy: ScoringStrategy
+): RankExplanation[] {
+  const subScorer = createSubScorer(strategy, ranked, latencyBasis);
+  return ranked.map((row, index) => {
+    const next = ranked[index + 1];
+    return {
+      rank: index + 1,
+      stack: describeStack(row),
+      ...explainScore(row, weights, subScorer),
+      vsNext: next
+        ? {
+            stack: describeStack(next),
+            decidedBy: compareRanked(row, next, latencyBasis).decidedBy,
+            scoreMargin: roundTo(row.score - next.score, 1),
+            latencyMs: latencyFor(next, latencyBasis) - latencyFor(row, latencyBasis),
+            quality: roundTo(row.quality - next.quality, 2),
+            costPerMin: roundTo(next.costPerMin - row.costPerMin, 4),
+          }
+        : null,
+    };
+  });
+}
 
-    if (results.length === 0) {
-      const markdown = `No benchmark rows match the selected filters.${language ? ` Language=${resolvedLanguage}.` : ""}${provider ? ` Provider=${resolvedProvider}.` : ""}`;
-      return formatToolResponse(output_format, markdown, {
-        status: "ok",
-        language: resolvedLanguage,
-        provider: resolvedProvider,
-        sort_by,
-        rows: [],
-        count: 0,
+const SENSITIVITY_GRID_STEPS = 10;
+/** The top pick is robust when it wins at least this share of the grid... */
+const ROBUST_WIN_SHARE = 0.5;
+/** ...and no weight mix closer than this (largest single share change) picks another stack. */
+const ROBUST_FLIP_DISTANCE = 0.2;
+
+type WeightShares = Record<MetricKey, number>;
+
+type SensitivityReport = {
+  gridStep: number;
+  gridPoints: number;
+  baseShares: WeightShares;
+  topPick: string;
+  topPickWinShare: number;
+  label: "robust" | "fragile";
+  nearestFlip: { shares: WeightShares; winner: string; distance: number } | null;
+  winShares: Array<{ stack: string; wins: number; share: number }>;
+  flipRegions: Array<{ winner: string; points: number; latency: [number, number]; quality: [number, number]; cost: [number, number] }>;
+};
+
+/** Every latency/quality/cost weight mix on a simplex grid with SENSITIVITY_GRID_STEPS steps per axis. */
+function weightGrid(): WeightShares[] {
+  const grid: WeightShares[] = [];
+  for (let latency = 0; latency <= SENSITIVITY_GRID_STEPS; latency++) {
+    for (let quality = 0; quality <= SENSITIVITY_GRID_STEPS - latency; quality++) {
+      const cost = SENSITIVITY_GRID_STEPS - latency - quality;
+      grid.push({
+        latency: latency / SENSITIVITY_GRID_STEPS,
+        quality: quality / SENSITIVITY_GRID_STEPS,
+        cost: cost / SENSITIVITY_GRID_STEPS,
       });
     }
+  }
+  return grid;
+}
 
-    if (sort_by === "latency") results.sort((a, b) => a.latencyMs - b.latencyMs);
-    else if (sort_by === "cost") results.sort((a, b) => a.costPerMin - b.costPerMin);
-    else results.sort((a, b) => b.quality - a.quality);
-
-    const lines: string[] = [
-      `## VoiceForge Benchmarks`,
-      `**${results.length} combinations**${resolvedLanguage ? ` for ${resolvedLanguage}` : ""}${resolvedProvider ? ` with ${resolvedProvider}` : ""} (sorted by ${sort_by})`,
-      "",
-      "| # | STT | LLM | TTS | Latency | Quality | Cost/min | Languages |",
-      "|---|-----|-----|-----|---------|---------|----------|-----------|",
-    ];
-
-    results.forEach((b, i) => {
-      lines.push(
-        `| ${i + 1} | ${b.stt} ${b.sttModel} | ${b.llm} ${b.llmModel} | ${b.tts} ${b.ttsModel} | ${b.latencyMs}ms | ${b.quality}/5 | $${b.costPerMin} | ${b.languages.slice(0, 3).join(", ")} |`
-      );
+/**
+ * Re-ranks `rows` at every weight mix on the grid and records the winner.
+ * Scores only depend on weight ratios, so shares stand in for weights.
+ */
+function analyzeWeightSensitivity<T extends LanguageBenchmark>(
+  rows: T[],
+  baseWeights: ScoreWeights,
+  latencyBasis: LatencyBasis,
+  strategy: ScoringStrategy
+): SensitivityReport {
+  const label = (row: T): string => `${describeStack(row)}${localMark(row)}`;
+  const totalWeight = baseWeights.latency + baseWeights.quality + baseWeights.cost;
+  const baseShares = {
+    latency: roundTo(baseWeights.latency / totalWeight, 3),
+    quality: roundTo(baseWeights.quality / totalWeight, 3),
+    cost: roundTo(baseWeights.cost / totalWeight, 3),
+  };
+  const topPick = label(rankBenchmarks(rows, baseWeights, latencyBasis, strategy)[0]);
+
+  const results = weightGrid().map((shares) => ({
+    shares,
+    winner: label(rankBenchmarks(rows, shares, latencyBasis, strategy)[0]),
+  }));
+
+  const wins = new Map<string, number>();
+  for (const { winner } of results) wins.set(winner, (wins.get(winner) ?? 0) + 1);
+  const winShares = [...wins.entries()]
+    .map(([stack, count]) => ({ stack, wins: count, share: roundTo(count / results.length, 3) }))
+    .sort((a, b) => b.wins - a.wins);
+
+  const distance = (shares: WeightShares): number =>
+    roundTo(Math.max(...METRIC_KEYS.map((metric) => Math.abs(shares[metric] - baseShares[metric]))), 3);
+  const flips = results.filter(({ winner }) => winner !== topPick);
+  const nearest = [...flips].sort((a, b) => distance(a.shares) - distance(b.shares))[0];
+
+  const span = (points: WeightShares[], metric: MetricKey): [number, number] =>
+    [Math.min(...points.map((shares) => shares[metric])), Math.max(...points.map((shares) => shares[metric]))];
+  const flipRegions = winShares
+    .filter(({ stack }) => stack !== topPick)
+    .map(({ stack }) => {
+      const points = flips.filter(({ winner }) => winner === stack).map(({ shares }) => shares);
+      return { winner: stack, points: points.length, latency: span(points, "latency"), quality: span(points, "quality"), cost: span(points, "cost") };
     });
 
-    lines.push("");
-    lines.push("### Key Insights");
-    const fastest = [...results].sort((a, b) => a.latencyMs - b.latencyMs)[0];
-    const bestQuality = [...results].sort((a, b) => b.quality - a.quality)[0];
-    const cheapest = [...results].sort((a, b) => a.costPerMin - b.costPerMin)[0];
+  const topPickWinShare = roundTo((wins.get(topPick) ?? 0) / results.length, 3);
+  const nearestFlip = nearest ? { shares: nearest.shares, winner: nearest.winner, distance: distance(nearest.shares) } : null;
+  return {
+    gridStep: 1 / SENSITIVITY_GRID_STEPS,
+    gridPoints: results.length,
+    baseShares,
+    topPick,
+    topPickWinShare,
+    label: topPickWinShare >= ROBUST_WIN_SHARE && (!nearestFlip || nearestFlip.distance >= ROBUST_FLIP_DISTANCE) ? "robust" : "fragile",
+    nearestFlip,
+    winShares,
+    flipRegions,
+  };
+}
 
-    if (fastest) lines.push(`- **Fastest:** ${fastest.stt} + ${fastest.llm} + ${fastest.tts} (${fastest.latencyMs}ms)`);
-    if (bestQuality) lines.push(`- **Best quality:** ${bestQuality.stt} + ${bestQuality.llm} + ${bestQuality.tts} (${bestQuality.quality}/5)`);
-    if (cheapest) lines.push(`- **Cheapest:** ${cheapest.stt} + ${cheapest.llm} + ${cheapest.tts} ($${cheapest.costPerMin}/min)`);
+const formatShares = (shares: WeightShares): string =>
+  `latency ${Math.round(shares.latency * 100)}% / quality ${Math.round(shares.quality * 100)}% / cost ${Math.round(shares.cost * 100)}%`;
+
+function formatSensitivity(report: SensitivityReport): string[] {
+  const percent = (value: number): string => `${Math.round(value * 100)}%`;
+  const range = ([min, max]: [number, number]): string => (min === max ? percent(min) : `${percent(min)}–${percent(max)}`);
+  const lines = [
+    "### Weight Sensitivity",
+    "",
+    `**${report.label === "robust" ? "Robust" : "Fragile"}** — the top pick wins at ${percent(report.topPickWinShare)} of ${report.gridPoints} weight mixes (${percent(report.gridStep)} steps; your mix is ${formatShares(report.baseShares)}).`,
+    report.nearestFlip
+      ? `Nearest flip: at ${formatShares(report.nearestFlip.shares)} (no share moved more than ${percent(report.nearestFlip.distance)}), ${report.nearestFlip.winner} ranks first.`
+      : "No weight mix on the grid changes the top pick.",
+    "",
+    "| Stack | Wins | Share of grid |",
+    "|-------|------|---------------|",
+    ...report.winShares.map((entry) => `| ${entry.stack}${entry.stack === report.topPick ? " (top pick)" : ""} | ${entry.wins} | ${percent(entry.share)} |`),
+  ];
+  if (report.flipRegions.length > 0) {
+    lines.push("", "Where the top pick flips:");
+    for (const region of report.flipRegions) {
+      lines.push(`- ${region.winner}: ${region.points} mix(es) with latency ${range(region.latency)}, quality ${range(region.quality)}, cost ${range(region.cost)}`);
+    }
+  }
+  return lines;
+}
 
-    return formatToolResponse(output_format, lines.join("\n"), {
-      status: "ok",
-      language: resolvedLanguage,
-      provider: resolvedProvider,
-      sort_by,
-      count: results.length,
-      rows: results,
-      summary: {
-        fastest,
-        best_quality: bestQuality,
-        cheapest,
-      },
-    });
+const SCORING_FORMULAS: Record<ScoringStrategy, string> = {
+  linear: "latency = 100 − (ms − 100) × 0.5, quality = UTMOS / 5 × 100, cost = 100 − $/min × 5000",
+  minmax: "each metric scaled so the worst stack considered scores 0 and the best 100",
+  zscore: "50 + 10 × standard deviations better than the mean of the stacks considered",
+  rank: "percentile rank among the stacks considered (ties share the midpoint)",
+};
+
+function formatRankExplanation(explanations: RankExplanation[], latencyBasis: LatencyBasis, strategy: ScoringStrategy): string[] {
+  const cell = (explanation: RankExplanation, metric: MetricKey) =>
+    `${explanation.subScores[metric]} × ${explanation.weightShares[metric]} = ${explanation.contributions[metric]}`;
+  const lines = [
+    "### Why This Order",
+    "",
+    `Scoring: ${strategy}${latencyBasis === "p95" ? ", latency on p95" : ""}. Sub-scores: ${SCORING_FORMULAS[strategy]}. Each is multiplied by its weight share.`,
+    "",
+    "| Rank | Stack | Latency | Quality | Cost | Score | vs next |",
+    "|------|-------|---------|---------|------|-------|---------|",
+  ];
+  for (const explanation of explanations) {
+    const vsNext = explanation.vsNext;
+    const margin = !vsNext
+      ? "—"
+      : vsNext.decidedBy === "score"
+        ? `+${vsNext.scoreMargin} pts`
+        : vsNext.decidedBy === "tie"
+          ? "identical metrics"
+          : `same score; won on ${vsNext.decidedBy} tie-breaker`;
+    lines.push(`| ${explanation.rank} | ${explanation.stack} | ${cell(explanation, "latency")} | ${cell(explanation, "quality")} | ${cell(explanation, "cost")} | ${explanation.score} | ${margin} |`);
   }
-);
+  return lines;
+}
 
-// ─── Tool 3: Compare ─────────────────────────────────────────────────
+type DominanceMargin = { latencyMs: number; quality: number; costPerMin: number };
 
-server.tool(
-  "voiceforge_compare",
-  "Compare two specific STT+LLM+TTS combinations side-by-side. Useful when deciding between two shortlisted stacks.",
-  {
-    combo_a: z.string().describe("First combination, e.g., 'Deepgram + OpenAI + Cartesia'"),
-    combo_b: z.string().describe("Second combination, e.g., 'AssemblyAI + Anthropic + ElevenLabs'"),
-    output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
-  },
-  async ({ combo_a, combo_b, output_format }) => {
-    const resolvedA = parseComboMatches(combo_a);
-    const resolvedB = parseComboMatches(combo_b);
-
-    if (!resolvedA || !resolvedB) {
-      const missing = [];
-      if (!resolvedA) missing.push("A");
-      if (!resolvedB) missing.push("B");
-      const markdown = `Could not parse combo ${missing.join(" and ")} from benchmark rows.\n` +
-        `Expected format: provider-only or provider + model per segment, separated by + or commas.\n` +
-        `Examples:\n` +
-        `- "Deepgram + OpenAI + Cartesia"\n` +
-        `- "Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3"\n` +
-        `- "Deepgram nova-3, OpenAI gpt-4.1-mini, Cartesia sonic-3"\n` +
-        `Supported providers: ${listKnownProviders().join(", ")}`;
-      return formatToolResponse(output_format, markdown, {
-        status: "error",
-        reason: "unparseable-combo",
-        missing,
-        combo_a,
-        combo_b,
-        supported_providers: listKnownProviders(),
-      });
-    }
+/** True when `a` is no worse than `b` on latency, quality and cost, and strictly better on at least one. */
+function dominates(a: StackMetrics, b: StackMetrics, latencyBasis: LatencyBasis): boolean {
+  const latencyA = latencyFor(a, latencyBasis);
+  const latencyB = latencyFor(b, latencyBasis);
+  const noWorse = latencyA <= latencyB && a.quality >= b.quality && a.costPerMin <= b.costPerMin;
+  const better = latencyA < latencyB || a.quality > b.quality || a.costPerMin < b.costPerMin;
+  return noWorse && better;
+}
 
-    const noMatch: string[] = [];
-    if (resolvedA.entries.length === 0) noMatch.push(`A (${describeParsedCombo(resolvedA.parsed)})`);
-    if (resolvedB.entries.length === 0) noMatch.push(`B (${describeParsedCombo(resolvedB.parsed)})`);
+/** How much better `a` is than `b` on each metric (all non-negative when `a` dominates `b`). */
+function dominanceMargin(a: StackMetrics, b: StackMetrics, latencyBasis: LatencyBasis): DominanceMargin {
+  return {
+    latencyMs: latencyFor(b, latencyBasis) - latencyFor(a, latencyBasis),
+    quality: Number((a.quality - b.quality).toFixed(2)),
+    costPerMin: Number((b.costPerMin - a.costPerMin).toFixed(4)),
+  };
+}
 
-    if (noMatch.length > 0) {
-      const markdown = `No benchmark rows found for ${noMatch.join(" and ")}.\n` +
-        `Use supported providers in this stack: ${listKnownProviders().join(", ")}.\n` +
-        `Try adding exact model names from provider catalogs, or use provider-only input when you want the best matching benchmark for that provider trio.`;
-      return formatToolResponse(output_format, markdown, {
-        status: "error",
-        reason: "no-matching-combo",
-        combo_a: describeParsedCombo(resolvedA.parsed),
-        combo_b: describeParsedCombo(resolvedB.parsed),
-        matches_found: {
-          a: resolvedA.entries.length,
-          b: resolvedB.entries.length,
-        },
-      });
+/**
+ * Splits ranked rows into the non-dominated frontier and the rest. Each dominated
+ * row names the highest-ranked stack that dominates it, plus how many do.
+ */
+function splitParetoFrontier<T extends StackMetrics & { score: number }>(
+  ranked: T[],
+  latencyBasis: LatencyBasis
+): { frontier: T[]; dominated: Array<{ row: T; dominatedBy: T; margin: DominanceMargin; dominatorCount: number }> } {
+  const frontier: T[] = [];
+  const dominated: Array<{ row: T; dominatedBy: T; margin: DominanceMargin; dominatorCount: number }> = [];
+  for (const row of ranked) {
+    const dominators = ranked.filter((other) => other !== row && dominates(other, row, latencyBasis));
+    if (dominators.length === 0) {
+      frontier.push(row);
+      continue;
     }
+    dominated.push({
+      row,
+      dominatedBy: dominators[0],
+      margin: dominanceMargin(dominators[0], row, latencyBasis),
+      dominatorCount: dominators.length,
+    });
+  }
+  return { frontier, dominated };
+}
 
-    const rankedA = rankBenchmarks(resolvedA.entries, DEFAULT_WEIGHTS);
-    const rankedB = rankBenchmarks(resolvedB.entries, DEFAULT_WEIGHTS);
-    const a = rankedA[0];
-    const b = rankedB[0];
-    const ambiguityA = resolvedA.entries.length > 1;
-    const ambiguityB = resolvedB.entries.length > 1;
+function formatMargin(margin: DominanceMargin): string {
+  const parts = [
+    margin.latencyMs > 0 ? `${margin.latencyMs}ms faster` : "",
+    margin.quality > 0 ? `+${margin.quality} quality` : "",
+    margin.costPerMin > 0 ? `$${margin.costPerMin}/min cheaper` : "",
+  ].filter(Boolean);
+  return parts.length ? parts.join(", ") : "equal on every metric";
+}
 
-    if (!a || !b) {
-      const markdown = `Could not resolve benchmark matches for one or both inputs.\n` +
-        `A entries: ${resolvedA.entries.length}, B entries: ${resolvedB.entries.length}.`;
-      return formatToolResponse(output_format, markdown, {
-        status: "error",
-        reason: "unresolved-combo",
-        combo_a: describeParsedCombo(resolvedA.parsed),
-        combo_b: describeParsedCombo(resolvedB.parsed),
-        counts: {
-          a: resolvedA.entries.length,
-          b: resolvedB.entries.length,
-        },
-      });
-    }
+function findLanguageMetrics(entry: BenchmarkEntry, language: string): LanguageMetrics | undefined {
+  const key = Object.keys(entry.languageMetrics ?? {}).find((candidate) => normalizeTerm(candidate) === normalizeTerm(language));
+  return key ? entry.languageMetrics![key] : undefined;
+}
 
-    const formatCombo = (entry: BenchmarkEntry | undefined, label: string): string => {
-      if (!entry) return `**${label}:** Not found in benchmarks`;
-      return [
-        `**${label}:** ${entry.stt} ${entry.sttModel} → ${entry.llm} ${entry.llmModel} → ${entry.tts} ${entry.ttsModel}`,
-        `- Latency: ${entry.latencyMs}ms`,
-        `- Quality: ${entry.quality}/5.0${entry.mos ? ` (MOS: ${entry.mos})` : ""}`,
-        `- Cost: $${entry.costPerMin}/min`,
-        `- Languages: ${entry.languages.join(", ")}`,
-        entry.notes ? `- Notes: ${entry.notes}` : "",
-      ].filter(Boolean).join("\n");
+function applyLanguageMetrics(entry: BenchmarkEntry, language: string | null): LanguageBenchmark {
+  const { languageMetrics: _languageMetrics, ...aggregate } = entry;
+  const metrics = language ? findLanguageMetrics(entry, language) : undefined;
+  if (!metrics) {
+    return {
+      ...aggregate,
+      metricsLanguage: language,
+      metricsSource: "aggregate",
+      sttAccuracy: null,
+      sampleSize: entry.sampleSize ?? null,
     };
+  }
+  return {
+    ...aggregate,
+    latencyMs: metrics.latencyMs,
+    // A language measured without a distribution keeps the row's all-language tail rather than none.
+    latencyPercentiles: metrics.latencyPercentiles ?? entry.latencyPercentiles,
+    quality: metrics.quality,
+    costPerMin: metrics.costPerMin ?? entry.costPerMin,
+    metricsLanguage: language,
+    metricsSource: "language",
+    sttAccuracy: metrics.sttAccuracy ?? null,
+    sampleSize: metrics.sampleSize,
+  };
+}
 
-    const lines: string[] = [
-      "## VoiceForge Comparison",
-      "",
-      formatCombo(a, "Stack A"),
-      "",
-      formatCombo(b, "Stack B"),
-      "",
-    ];
+/**
+ * Projects a row onto several languages at once using the worst figure for each
+ * metric: highest latency, lowest quality, highest cost. A single language is
+ * plain applyLanguageMetrics.
+ */
+function applyWorstCaseMetrics(entry: BenchmarkEntry, languages: string[]): LanguageBenchmark {
+  if (languages.length === 1) return applyLanguageMetrics(entry, languages[0]);
+  const projections = languages.map((language) => applyLanguageMetrics(entry, language));
+  const pick = (better: (a: LanguageBenchmark, b: LanguageBenchmark) => boolean): LanguageBenchmark =>
+    projections.reduce((worst, candidate) => (better(worst, candidate) ? candidate : worst));
+  const slowest = pick((a, b) => b.latencyMs > a.latencyMs);
+  const lowestQuality = pick((a, b) => b.quality < a.quality);
+  const priciest = pick((a, b) => b.costPerMin > a.costPerMin);
+  const percentiles = projections.every((projection) => projection.latencyPercentiles)
+    ? (["p50", "p95", "p99"] as const).reduce((worst, key) => ({
+        ...worst,
+        [key]: Math.max(...projections.map((projection) => projection.latencyPercentiles![key])),
+      }), {} as LatencyPercentiles)
+    : slowest.latencyPercentiles;
+  const accuracies = projections.map((projection) => projection.sttAccuracy).filter((value): value is number => value !== null);
+  const samples = projections.map((projection) => projection.sampleSize).filter((value): value is number => value !== null);
+  return {
+    ...slowest,
+    latencyPercentiles: percentiles,
+    quality: lowestQuality.quality,
+    costPerMin: priciest.costPerMin,
+    metricsLanguage: languages.join(" + "),
+    metricsSource: projections.every((projection) => projection.metricsSource === "language") ? "language" : "aggregate",
+    sttAccuracy: accuracies.length ? Math.min(...accuracies) : null,
+    sampleSize: samples.length ? Math.min(...samples) : null,
+    // With no per-language figures at all, every language ties on the aggregate; naming one would mislead.
+    worstCaseLanguages: projections.some((projection) => projection.metricsSource === "language")
+      ? { latency: slowest.metricsLanguage!, quality: lowestQuality.metricsLanguage!, cost: priciest.metricsLanguage! }
+      : undefined,
+  };
+}
 
-    lines.push("### Head-to-Head");
-    lines.push("");
-    lines.push("| Metric | Stack A | Stack B | Winner |");
-    lines.push("|--------|---------|---------|--------|");
+/** Every unordered pair of the given languages. */
+function languagePairs(languages: string[]): Array<[string, string]> {
+  return languages.flatMap((first, i) => languages.slice(i + 1).map((second): [string, string] => [first, second]));
+}
 
-    const latencyWinner = a.latencyMs <= b.latencyMs ? "A" : "B";
-    const qualityWinner = a.quality >= b.quality ? "A" : "B";
-    const costWinner = a.costPerMin <= b.costPerMin ? "A" : "B";
+/** Measured code-switching accuracy for one language pair, or null when the row has none. */
+function findCodeSwitching(entry: Pick<BenchmarkEntry, "codeSwitching">, [first, second]: [string, string]): number | null {
+  const pair = [normalizeTerm(first), normalizeTerm(second)].sort().join("|");
+  const match = (entry.codeSwitching ?? []).find((metrics) => metrics.languages.map(normalizeTerm).sort().join("|") === pair);
+  return match ? match.sttAccuracy : null;
+}
 
-    const latencyDeltaMs = Math.abs(a.latencyMs - b.latencyMs);
-    const costDelta = Math.abs(a.costPerMin - b.costPerMin);
+function supportsLanguage(entry: BenchmarkEntry, language: string): boolean {
+  return entry.languages.some((l) => l.toLowerCase() === language.toLowerCase());
+}
 
-    lines.push(`| Latency | ${a.latencyMs}ms | ${b.latencyMs}ms | Stack ${latencyWinner} (${latencyDeltaMs}ms faster) |`);
-    lines.push(`| Quality | ${a.quality}/5 | ${b.quality}/5 | Stack ${qualityWinner} |`);
-    lines.push(`| Cost | $${a.costPerMin}/min | $${b.costPerMin}/min | Stack ${costWinner} ($${costDelta.toFixed(3)} cheaper) |`);
+function countAggregateFallbacks(rows: LanguageBenchmark[]): number {
+  return rows.filter((row) => row.metricsSource === "aggregate").length;
+}
 
-    const aLangs = new Set(a.languages);
-    const bLangs = new Set(b.languages);
-    const shared = a.languages.filter((l) => bLangs.has(l));
-    const aOnly = a.languages.filter((l) => !bLangs.has(l));
-    const bOnly = b.languages.filter((l) => !aLangs.has(l));
+function describeAggregateFallback(rows: LanguageBenchmark[], language: string): string | null {
+  const count = countAggregateFallbacks(rows);
+  if (count === 0) return null;
+  return `† ${count} of ${rows.length} stack(s) have no ${language}-specific measurement; their figures are the all-language aggregate.`;
+}
 
-    lines.push("");
-    lines.push("### Language Coverage");
-    lines.push(`- Both support: ${shared.join(", ") || "none"}`);
-    if (aOnly.length) lines.push(`- Only Stack A: ${aOnly.join(", ")}`);
-    if (bOnly.length) lines.push(`- Only Stack B: ${bOnly.join(", ")}`);
+function countUnknownP95(rows: StackMetrics[], latencyBasis: LatencyBasis): number {
+  return latencyBasis === "p95" ? rows.filter((row) => !hasMeasuredP95(row)).length : 0;
+}
 
-    if (ambiguityA || ambiguityB) {
-      lines.push("");
-      lines.push(`⚠️ Multiple benchmark matches were found for ${ambiguityA ? "Stack A" : ""}${ambiguityA && ambiguityB ? " and " : ""}${ambiguityB ? "Stack B" : ""}; selected best-scoring rows automatically.`);
+function describeUnknownP95(rows: StackMetrics[], latencyBasis: LatencyBasis): string | null {
+  const count = countUnknownP95(rows, latencyBasis);
+  if (count === 0) return null;
+  return `‡ ${count} of ${rows.length} stack(s) have no measured p95; they are ordered on their mean latency, which understates the tail.`;
+}
+
+const unknownP95Mark = (row: StackMetrics, latencyBasis: LatencyBasis): string => (latencyBasis === "p95" && !hasMeasuredP95(row) ? " ‡" : "");
+
+const fallbackMark = (row: LanguageBenchmark): string => (row.metricsSource === "aggregate" && row.metricsLanguage ? " †" : "");
+
+function formatPercentiles(entry: StackMetrics): string | null {
+  const p = entry.latencyPercentiles;
+  return p ? `p50 ${p.p50}ms / p95 ${p.p95}ms / p99 ${p.p99}ms` : null;
+}
+
+function formatLatencyBreakdown(entry: StackMetrics): string | null {
+  const stages = entry.latencyBreakdown;
+  return stages
+    ? `STT finalization ${stages.sttFinalizationMs}ms → LLM TTFT ${stages.llmTtftMs}ms → TTS TTFB ${stages.ttsTtfbMs}ms`
+    : null;
+}
+
+function getBenchmarkRows(localData: LocalDataMode): BenchmarkEntry[] {
+  if (localData === "only") return LOCAL_BENCHMARKS;
+  if (localData === "exclude") return BENCHMARK_DATA;
+  return [...BENCHMARK_DATA, ...LOCAL_BENCHMARKS];
+}
+
+/** One measured row per stack; a team-local row replaces the corpus row it re-measures, whatever the order. */
+function measuredRowsByStack(rows: BenchmarkEntry[]): Map<string, BenchmarkEntry> {
+  const byStack = new Map<string, BenchmarkEntry>();
+  for (const row of rows) {
+    if (row.source === "estimate") continue;
+    const key = stackKey(row);
+    const current = byStack.get(key);
+    if (!current || (row.source === "local" && current.source !== "local")) byStack.set(key, row);
+  }
+  return byStack;
+}
+
+const localMark = (row: Pick<BenchmarkEntry, "source">): string => (row.source === "local" ? " [local]" : "");
+
+const estimators = new Map<LocalDataMode, StackEstimator>();
+
+/** Estimator fitted to the rows a tool call can see; rebuilt after ingest changes the local rows. */
+function getEstimator(localData: LocalDataMode): StackEstimator {
+  let estimator = estimators.get(localData);
+  if (!estimator) {
+    estimator = buildEstimator(getBenchmarkRows(localData).filter((row) => row.source !== "estimate"));
+    estimators.set(localData, estimator);
+  }
+  return estimator;
+}
+
+/** Every untested STT × LLM × TTS combination of components seen in the measured rows. */
+function enumerateEstimates(localData: LocalDataMode): BenchmarkEntry[] {
+  const measured = getBenchmarkRows(localData);
+  const tested = new Set(measured.map(stackKey));
+  const { components, estimate } = getEstimator(localData);
+  const estimates: BenchmarkEntry[] = [];
+  for (const stt of components.stt) {
+    for (const llm of components.llm) {
+      for (const tts of components.tts) {
+        const stack = { stt: stt.stt, sttModel: stt.sttModel, llm: llm.llm, llmModel: llm.llmModel, tts: tts.tts, ttsModel: tts.ttsModel };
+        if (tested.has(stackKey(stack))) continue;
+        const result = estimate(stack);
+        if (result.ok) estimates.push(result.entry);
+      }
     }
+  }
+  return estimates;
+}
 
-    return formatToolResponse(output_format, lines.join("\n"), {
-      status: "ok",
-      combo_a: `${a.stt} ${a.sttModel} → ${a.llm} ${a.llmModel} → ${a.tts} ${a.ttsModel}`,
-      combo_b: `${b.stt} ${b.sttModel} → ${b.llm} ${b.llmModel} → ${b.tts} ${b.ttsModel}`,
-      winners: {
-        latency: a.latencyMs <= b.latencyMs ? "A" : "B",
-        quality: a.quality >= b.quality ? "A" : "B",
-        cost: a.costPerMin <= b.costPerMin ? "A" : "B",
-      },
-      deltas: {
-        latencyMs: Math.abs(a.latencyMs - b.latencyMs),
-        quality: Math.abs(a.quality - b.quality),
-        costPerMin: Number((Math.abs(a.costPerMin - b.costPerMin)).toFixed(3)),
+const estimateMark = (row: Pick<BenchmarkEntry, "source">): string => (row.source === "estimate" ? " ≈" : "");
+
+function formatEstimateBounds(entry: Pick<BenchmarkEntry, "estimate">): string | null {
+  const details = entry.estimate;
+  if (!details) return null;
+  const { latencyMs, quality, costPerMin } = details.bounds;
+  return `${details.confidence} confidence; 95% bounds ${latencyMs[0]}–${latencyMs[1]}ms, ${quality[0]}–${quality[1]}/5, $${costPerMin[0]}–$${costPerMin[1]}/min`;
+}
+
+const ESTIMATE_FOOTNOTE = "≈ Estimated from per-component contributions; no direct benchmark exists for this combination. Bounds are in the JSON output.";
+
+const LOCAL_DATA_PARAM = z.enum(["include", "exclude", "only"]).default("include").describe(
+  "Team-local rows from voiceforge_ingest: include (default) alongside the corpus, exclude them, or use only them"
+);
+
+type StackConstraints = {
+  max_latency_ms?: number;
+  max_cost_per_min?: number;
+  min_quality?: number;
+  required_providers: string[];
+  excluded_providers: string[];
+  /** Every pair of these languages needs a measured code-switching accuracy of at least min_accuracy. */
+  code_switching?: { languages: string[]; min_accuracy: number };
+  required_features?: ProviderFeature[];
+  compliance?: Certification[];
+  region?: DataRegion;
+  /** Only stacks this framework's scaffold can generate. */
+  framework?: ScaffoldFramework;
+};
+
+type ConstraintElimination = {
+  constraint: keyof StackConstraints;
+  limit: number | string;
+  /** Latency figure max_latency_ms was checked against. */
+  basis?: LatencyBasis;
+  rows: Array<{ stack: string; value: number | string }>;
+};
+
+const describeStack = (entry: Pick<BenchmarkEntry, "stt" | "sttModel" | "llm" | "llmModel" | "tts" | "ttsModel">): string =>
+  `${entry.stt} ${entry.sttModel} → ${entry.llm} ${entry.llmModel} → ${entry.tts} ${entry.ttsModel}`;
+
+/** Stages ("stt", "llm", "tts") served by the provider. */
+const stagesUsing = (entry: Pick<BenchmarkEntry, "stt" | "llm" | "tts">, provider: string): ProviderCategory[] =>
+  (["stt", "llm", "tts"] as const).filter((stage) => normalizeTerm(entry[stage]) === normalizeTerm(provider));
+
+/**
+ * Drops rows that break a hard constraint. Metric limits apply to the figures
+ * being ranked (per-language where measured), and max_latency_ms to the same
+ * latency basis as the ranking; on p95, a row with no measured p95 fails it. A row that breaks several constraints is
+ * listed under each of them.
+ */
+function applyConstraints<T extends LanguageBenchmark>(
+  rows: T[],
+  constraints: StackConstraints,
+  latencyBasis: LatencyBasis = "mean"
+): { kept: T[]; eliminated: ConstraintElimination[] } {
+  const checks: Array<{
+    constraint: keyof StackConstraints;
+    limit: number | string;
+    basis?: LatencyBasis;
+    fails: (row: T) => number | string | null;
+  }> = [];
+  if (constraints.max_latency_ms !== undefined) {
+    const limit = constraints.max_latency_ms;
+    checks.push({
+      constraint: "max_latency_ms",
+      limit,
+      basis: latencyBasis,
+      fails: (row) => {
+        if (latencyBasis === "p95" && !hasMeasuredP95(row)) return "p95 unknown";
+        return latencyFor(row, latencyBasis) > limit ? latencyFor(row, latencyBasis) : null;
       },
-      overlap_languages: {
-        both: shared,
-        only_a: aOnly,
-        only_b: bOnly,
+    });
+  }
+  if (constraints.max_cost_per_min !== undefined) {
+    const limit = constraints.max_cost_per_min;
+    checks.push({ constraint: "max_cost_per_min", limit, fails: (row) => (row.costPerMin > limit ? row.costPerMin : null) });
+  }
+  if (constraints.min_quality !== undefined) {
+    const limit = constraints.min_quality;
+    checks.push({ constraint: "min_quality", limit, fails: (row) => (row.quality < limit ? row.quality : null) });
+  }
+  for (const provider of constraints.required_providers) {
+    checks.push({
+      constraint: "required_providers",
+      limit: provider,
+      fails: (row) => (stagesUsing(row, provider).length > 0 ? null : "not used"),
+    });
+  }
+  for (const provider of constraints.excluded_providers) {
+    checks.push({
+      constraint: "excluded_providers",
+      limit: provider,
+      fails: (row) => (stagesUsing(row, provider).length > 0 ? `used for ${stagesUsing(row, provider).join("/").toUpperCase()}` : null),
+    });
+  }
+  for (const feature of constraints.required_features ?? []) {
+    checks.push({
+      constraint: "required_features",
+      limit: feature,
+      fails: (row) => {
+        const gaps = findFeatureGaps(row, [feature]);
+        return gaps.length > 0 ? gaps.map(describeFeatureGap).join("; ") : null;
       },
-      requested: {
-        a: describeParsedCombo(resolvedA.parsed),
-        b: describeParsedCombo(resolvedB.parsed),
+    });
+  }
+  for (const certification of constraints.compliance ?? []) {
+    checks.push({
+      constraint: "compliance",
+      limit: certification.toUpperCase(),
+      fails: (row) => {
+        const gaps = findComplianceGaps(row, { certifications: [certification] });
+        return gaps.length > 0 ? gaps.map(describeComplianceGap).join("; ") : null;
       },
-      candidate_counts: {
-        a: resolvedA.entries.length,
-        b: resolvedB.entries.length,
+    });
+  }
+  if (constraints.region) {
+    const region = constraints.region;
+    checks.push({
+      constraint: "region",
+      limit: region.toUpperCase(),
+      fails: (row) => {
+        const gaps = findComplianceGaps(row, { certifications: [], region });
+        return gaps.length > 0 ? gaps.map(describeComplianceGap).join("; ") : null;
       },
-      ambiguity: {
-        a: ambiguityA,
-        b: ambiguityB,
+    });
+  }
+  if (constraints.framework) {
+    const framework = constraints.framework;
+    checks.push({
+      constraint: "framework",
+      limit: framework,
+      fails: (row) => {
+        const unsupported = unsupportedScaffoldStages(row, framework);
+        return unsupported.length > 0 ? unsupported.map((stage) => `${stage.toUpperCase()} ${row[stage]} not supported`).join("; ") : null;
       },
     });
   }
+  if (constraints.code_switching) {
+    const { languages, min_accuracy } = constraints.code_switching;
+    for (const pair of languagePairs(languages)) {
+      checks.push({
+        constraint: "code_switching",
+        limit: `${pair.join("/")} ≥ ${Math.round(min_accuracy * 100)}%`,
+        fails: (row) => {
+          const accuracy = findCodeSwitching(row, pair);
+          if (accuracy === null) return "not measured";
+          return accuracy < min_accuracy ? `${Math.round(accuracy * 100)}% accuracy` : null;
+        },
+      });
+    }
+  }
+
+  const eliminated = checks.map(({ constraint, limit, basis, fails }) => ({
+    constraint,
+    limit,
+    ...(basis ? { basis } : {}),
+    rows: rows.flatMap((row) => {
+      const value = fails(row);
+      return value === null ? [] : [{ stack: describeStack(row), value }];
+    }),
+  }));
+  const kept = rows.filter((row) => checks.every(({ fails }) => fails(row) === null));
+  return { kept, eliminated };
+}
+
+/** Adds a custom use-case profile's constraints. Limits passed with the call win; lists are combined. */
+function withUseCaseConstraints(constraints: StackConstraints, useCase: string): StackConstraints {
+  const profile = CUSTOM_USE_CASES[useCase]?.constraints;
+  if (!profile) return constraints;
+  const union = <T,>(...lists: Array<T[] | undefined>): T[] => [...new Set(lists.flatMap((list) => list ?? []))];
+  const resolveAll = (providers: string[]): string[] => providers.map((provider) => resolveProvider(provider) ?? provider);
+  const merged: StackConstraints = {
+    ...constraints,
+    required_providers: union(constraints.required_providers, resolveAll(profile.required_providers)),
+    excluded_providers: union(constraints.excluded_providers, resolveAll(profile.excluded_providers)),
+  };
+  const maxLatency = constraints.max_latency_ms ?? profile.max_latency_ms;
+  const maxCost = constraints.max_cost_per_min ?? profile.max_cost_per_min;
+  const minQuality = constraints.min_quality ?? profile.min_quality;
+  const features = union(constraints.required_features, profile.required_features);
+  const certifications = union(constraints.compliance, profile.compliance);
+  const region = constraints.region ?? profile.region;
+  if (maxLatency !== undefined) merged.max_latency_ms = maxLatency;
+  if (maxCost !== undefined) merged.max_cost_per_min = maxCost;
+  if (minQuality !== undefined) merged.min_quality = minQuality;
+  if (features.length > 0) merged.required_features = features;
+  if (certifications.length > 0) merged.compliance = certifications;
+  if (region) merged.region = region;
+  return merged;
+}
+
+function describeConstraint({ constraint, limit, basis }: Pick<ConstraintElimination, "constraint" | "limit" | "basis">): string {
+  if (constraint === "max_latency_ms") return `${basis === "p95" ? "p95" : "mean"} latency ≤ ${limit}ms`;
+  if (constraint === "max_cost_per_min") return `cost ≤ $${limit}/min`;
+  if (constraint === "min_quality") return `quality ≥ ${limit}/5`;
+  if (constraint === "required_providers") return `uses ${limit}`;
+  if (constraint === "code_switching") return `code-switching ${limit}`;
+  if (constraint === "required_features") return `supports ${limit}`;
+  if (constraint === "compliance") return `${limit} compliant`;
+  if (constraint === "region") return `processes in ${limit}`;
+  if (constraint === "framework") return `scaffoldable with ${limit}`;
+  return `does not use ${limit}`;
+}
+
+function formatEliminations(eliminated: ConstraintElimination[]): string[] {
+  const unit = (constraint: ConstraintElimination["constraint"], value: number | string): string =>
+    typeof value === "string" ? value : constraint === "max_latency_ms" ? `${value}ms` : constraint === "max_cost_per_min" ? `$${value}/min` : constraint === "min_quality" ? `${value}/5` : String(value);
+  return eliminated.map((entry) =>
+    entry.rows.length === 0
+      ? `- ${describeConstraint(entry)}: eliminated none`
+      : `- ${describeConstraint(entry)}: eliminated ${entry.rows.length} — ${entry.rows.map((row) => `${row.stack} (${unit(entry.constraint, row.value)})`).join("; ")}`
+  );
+}
+
+function clampMaxResults(value: number): number {
+  return Math.max(1, Math.min(Math.floor(value), MAX_RESULTS));
+}
+
+function isScaffoldCompatible(entry: Pick<BenchmarkEntry, "stt" | "llm" | "tts">, framework: ScaffoldFramework): boolean {
+  return unsupportedScaffoldStages(entry, framework).length === 0;
+}
+
+function getFrameworkSupport(entry: Pick<BenchmarkEntry, "stt" | "llm" | "tts">): Record<ScaffoldFramework, boolean> {
+  return Object.fromEntries(SCAFFOLD_FRAMEWORKS.map((framework) => [framework, isScaffoldCompatible(entry, framework)])) as Record<ScaffoldFramework, boolean>;
+}
+
+function formatFrameworkSupport(support: Record<ScaffoldFramework, boolean>): string[] {
+  return SCAFFOLD_FRAMEWORKS.map((framework) => `- ${FRAMEWORK_LABELS[framework]} scaffold: ${support[framework] ? "supported" : "not supported"}`);
+}
+
+/** Stages whose provider the framework's scaffold template cannot wire up. An empty STT/LLM set means any provider. */
+function unsupportedScaffoldStages(entry: Pick<BenchmarkEntry, "stt" | "llm" | "tts">, framework: ScaffoldFramework): ProviderCategory[] {
+  const policy = FRAMEWORK_COMPATIBILITY[framework];
+  return (["stt", "llm", "tts"] as const).filter((stage) =>
+    !(policy[stage].has(entry[stage]) || (stage !== "tts" && policy[stage].size === 0))
+  );
+}
+
+// ─── Tool 1: Recommend ───────────────────────────────────────────────
+
+const RECOMMEND_PARAMS = {
+  language: z.string().optional().describe(
+    `Target language. Supported: ${SUPPORTED_LANGUAGES.join(", ")}. Use languages for more than one`
+  ),
+  languages: z.array(z.object({
+    language: z.string(),
+    required: z.boolean().default(true).describe("Required languages must all be supported and are ranked on their worst-case figures; others are nice-to-have"),
+  })).optional().describe("Several target languages, e.g. [{ language: 'Thai' }, { language: 'English' }, { language: 'Japanese', required: false }]"),
+  code_switching: z.boolean().default(false).describe(
+    "Callers switch between the required languages mid-call: keep only stacks with measured code-switching accuracy for every pair"
+  ),
+  min_code_switching_accuracy: z.number().min(0).max(1).default(0.85).describe("Minimum STT accuracy on mixed-language turns when code_switching is set"),
+  use_case: z.string().describe(
+    `Use case. Options: ${Object.keys(USE_CASE_PRIORITIES).join(", ")}, or describe your own`
+  ),
+  optimize_for: z.enum(["balanced", "latency", "quality", "cost"]).default("balanced").describe(
+    "What to optimize for: balanced (default), latency (fastest), quality (best MOS), or cost (cheapest)"
+  ),
+  max_results: z.number().default(5).describe("Number of results to return (default: 5)"),
+  local_data: LOCAL_DATA_PARAM,
+  include_estimates: z.boolean().default(false).describe(
+    "Also rank untested combinations of benchmarked components, using estimated metrics with confidence bounds"
+  ),
+  weights: z.object({
+    latency: z.number().nonnegative(),
+    quality: z.number().nonnegative(),
+    cost: z.number().nonnegative(),
+  }).optional().describe("Explicit scoring weights, e.g. { latency: 80, quality: 50, cost: 20 }. Overrides optimize_for and the use-case profile"),
+  max_latency_ms: z.number().positive().optional().describe(
+    "Hard limit: drop stacks whose latency exceeds this. Checked on p95 when optimize_for is latency (the figure ranked), otherwise on the mean"
+  ),
+  max_cost_per_min: z.number().nonnegative().optional().describe("Hard limit: drop stacks costing more than this (USD/min)"),
+  min_quality: z.number().min(0).max(5).optional().describe("Hard limit: drop stacks below this UTMOS quality"),
+  required_providers: z.array(z.string()).default([]).describe("Every provider listed must appear somewhere in the stack"),
+  excluded_providers: z.array(z.string()).default([]).describe("Drop stacks that use any of these providers"),
+  required_features: REQUIRED_FEATURES_PARAM,
+  ...COMPLIANCE_PARAMS,
+  framework: z.enum(SCAFFOLD_FRAMEWORKS).optional().describe("Only rank stacks voiceforge_scaffold can generate for this framework"),
+  explain: z.boolean().default(false).describe(
+    "Show how each stack was scored: normalized sub-scores, weights, contributions, tie-breaker and margin to the next stack"
+  ),
+  scoring: SCORING_STRATEGY_PARAM,
+  sensitivity: z.boolean().default(false).describe(
+    "Re-rank across a grid of latency/quality/cost weight mixes and report how often each stack wins, where the top pick flips, and whether it is robust or fragile"
+  ),
+  output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+};
+
+async function recommendStacks({
+  language, languages, code_switching, min_code_switching_accuracy, use_case, optimize_for, max_results, local_data, include_estimates,
+  weights: customWeights, max_latency_ms, max_cost_per_min, min_quality, required_providers, excluded_providers,
+  required_features, compliance, region, framework, explain, scoring, sensitivity, output_format,
+}: ToolArgs<typeof RECOMMEND_PARAMS>): Promise<ToolResponse> {
+  const requested = [...(language ? [{ language, required: true }] : []), ...(languages ?? [])];
+  const resolvedUseCase = resolveUseCase(use_case);
+  const unrecognized = requested.find((entry) => !resolveLanguage(entry.language));
+  if (unrecognized) {
+    const suggestions = getLanguageSuggestions(unrecognized.language);
+    return {
+      content: [{
+        type: "text",
+        text:
+          `Language "${unrecognized.language}" is not recognized in benchmark corpus.\n` +
+          `Try one of: ${suggestions.join(", ")}.`,
+      }],
+    };
+  }
+
+  const requiredLanguages = [...new Set(requested.filter((entry) => entry.required).map((entry) => resolveLanguage(entry.language)!))];
+  const niceLanguages = [...new Set(requested.filter((entry) => !entry.required).map((entry) => resolveLanguage(entry.language)!))]
+    .filter((entry) => !requiredLanguages.includes(entry));
+  if (requiredLanguages.length === 0) {
+    const markdown = `Provide a target language, or at least one required entry in languages. Supported: ${SUPPORTED_LANGUAGES.join(", ")}.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "missing-language",
+      supported_languages: SUPPORTED_LANGUAGES,
+    });
+  }
+  if (code_switching && requiredLanguages.length < 2) {
+    const markdown = "code_switching needs at least two required languages, e.g. languages: [{ language: 'Thai' }, { language: 'English' }].";
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "code-switching-needs-two-languages",
+      required_languages: requiredLanguages,
+    });
+  }
+  const resolvedLanguage = requiredLanguages.join(" + ");
+
+  const unresolvedProviders = [...required_providers, ...excluded_providers].filter((provider) => !resolveProvider(provider));
+  if (unresolvedProviders.length > 0) {
+    const markdown = `Provider(s) ${unresolvedProviders.map((provider) => `"${provider}"`).join(", ")} not recognized.\nTry: ${listKnownProviders().join(", ")}`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unsupported-provider",
+      requested_providers: unresolvedProviders,
+      supported_providers: listKnownProviders(),
+    });
+  }
+
+  if (customWeights && customWeights.latency + customWeights.quality + customWeights.cost === 0) {
+    return formatToolResponse(output_format, "At least one of the latency, quality and cost weights must be greater than 0.", {
+      status: "error",
+      reason: "invalid-weights",
+      weights: customWeights,
+    });
+  }
+
+  const constraints = withUseCaseConstraints({
+    max_latency_ms,
+    max_cost_per_min,
+    min_quality,
+    required_providers: required_providers.map((provider) => resolveProvider(provider)!),
+    excluded_providers: excluded_providers.map((provider) => resolveProvider(provider)!),
+    ...(code_switching ? { code_switching: { languages: requiredLanguages, min_accuracy: min_code_switching_accuracy } } : {}),
+    ...(required_features.length > 0 ? { required_features } : {}),
+    ...(compliance.length > 0 ? { compliance } : {}),
+    ...(region ? { region } : {}),
+    ...(framework ? { framework } : {}),
+  }, resolvedUseCase);
+  const hasConstraints = max_latency_ms !== undefined || max_cost_per_min !== undefined || min_quality !== undefined ||
+    required_providers.length > 0 || excluded_providers.length > 0 || code_switching || required_features.length > 0 ||
+    compliance.length > 0 || region !== undefined || framework !== undefined || Boolean(CUSTOM_USE_CASES[resolvedUseCase]?.constraints);
+
+  const candidates = include_estimates
+    ? [...getBenchmarkRows(local_data), ...enumerateEstimates(local_data)]
+    : getBenchmarkRows(local_data);
+  const matching = candidates
+    .filter((b) => requiredLanguages.every((required) => supportsLanguage(b, required)))
+    .map((b) => ({
+      ...applyWorstCaseMetrics(b, requiredLanguages),
+      ...(niceLanguages.length > 0 ? { niceToHaveCovered: niceLanguages.filter((nice) => supportsLanguage(b, nice)) } : {}),
+      ...(code_switching
+        ? { codeSwitchingAccuracy: Object.fromEntries(languagePairs(requiredLanguages).map((pair) => [pair.join("/"), findCodeSwitching(b, pair)])) }
+        : {}),
+    }));
+
+  if (matching.length === 0 && local_data === "only") {
+    return {
+      content: [{
+        type: "text",
+        text: `No team-local rows cover ${resolvedLanguage}. Ingest call logs with \`voiceforge_ingest\`, or set local_data to "include".`,
+      }],
+    };
+  }
+
+  if (matching.length === 0) {
+    return {
+      content: [{
+        type: "text",
+        text: `No benchmarks found covering ${requiredLanguages.map((required) => `"${required}"`).join(" and ")}. Supported languages: ${SUPPORTED_LANGUAGES.join(", ")}.\n\nTip: For unsupported languages, start with Deepgram nova-3 (STT) + OpenAI gpt-4.1-mini (LLM) + Cartesia sonic-3 (TTS) — this combination works well across most languages.`,
+      }],
+    };
+  }
+
+  const latencyBasis = getLatencyBasis(optimize_for);
+  const { kept, eliminated } = applyConstraints(matching, constraints, latencyBasis);
+  const constraintsPayload = {
+    applied: constraints,
+    considered: matching.length,
+    remaining: kept.length,
+    eliminated,
+  };
+
+  if (kept.length === 0) {
+    const markdown = [
+      `No ${resolvedLanguage} stack meets every constraint (${matching.length} considered).`,
+      "",
+      ...formatEliminations(eliminated),
+      "",
+      "Relax the tightest constraint above, or set include_estimates to consider untested combinations.",
+    ].join("\n");
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "no-stack-meets-constraints",
+      language: resolvedLanguage,
+      constraints: constraintsPayload,
+    });
+  }
+
+  const resultLimit = clampMaxResults(max_results);
+  const weights = customWeights ?? getObjectiveWeights(optimize_for, resolvedUseCase);
+  const weightsSource = customWeights ? "custom" : optimize_for === "balanced" ? "use_case" : "optimize_for";
+  const useCaseNotice = describeUseCaseFallback(resolvedUseCase, weightsSource === "use_case" ? [DEFAULT_WEIGHTS_FALLBACK] : []);
+  const ranked = rankBenchmarks(kept, weights, latencyBasis, scoring);
+  const top = ranked.slice(0, resultLimit);
+  const explanation = explain ? explainRanking(ranked, weights, latencyBasis, scoring).slice(0, resultLimit) : null;
+  const sensitivityReport = sensitivity ? analyzeWeightSensitivity(kept, weights, latencyBasis, scoring) : null;
+  const fallbackNote = describeAggregateFallback(top, resolvedLanguage);
+  const unknownP95Note = describeUnknownP95(top, latencyBasis);
+  const estimatedCount = top.filter((b) => b.source === "estimate").length;
+
+  if (output_format === "json") {
+    return {
+      content: [{
+        type: "text",
+        text: JSON.stringify({
+          language: resolvedLanguage,
+          languages: { required: requiredLanguages, nice_to_have: niceLanguages },
+          code_switching: code_switching ? { min_accuracy: min_code_switching_accuracy, pairs: languagePairs(requiredLanguages).map((pair) => pair.join("/")) } : null,
+          use_case: resolvedUseCase,
+          use_case_source: getUseCaseSource(resolvedUseCase),
+          use_case_notice: useCaseNotice,
+          optimize_for,
+          local_data,
+          include_estimates,
+          weights,
+          weights_source: weightsSource,
+          scoring_strategy: scoring,
+          latency_basis: latencyBasis,
+          aggregate_fallback_count: countAggregateFallbacks(top),
+          p95_unknown_count: countUnknownP95(top, latencyBasis),
+          estimated_count: estimatedCount,
+          constraints: hasConstraints ? constraintsPayload : null,
+          top,
+          ...(explanation ? { explanation } : {}),
+          ...(sensitivityReport ? { sensitivity: sensitivityReport } : {}),
+        }, null, 2),
+      }],
+    };
+  }
+
+  // Format output
+  const lines: string[] = [
+    `## VoiceForge Recommendation`,
+    `**Language:** ${resolvedLanguage}${niceLanguages.length ? ` (nice to have: ${niceLanguages.join(", ")})` : ""}${code_switching ? " with code-switching" : ""} | **Use Case:** ${resolvedUseCase} | **Optimizing for:** ${customWeights ? `custom weights (latency ${weights.latency}, quality ${weights.quality}, cost ${weights.cost})` : optimize_for}`,
+    ...(useCaseNotice ? [`> ⚠️ ${useCaseNotice}`] : []),
+    "",
+    `| Rank | STT | LLM | TTS | Latency | P95 | Quality | Cost/min | Score |${niceLanguages.length ? " Nice-to-have |" : ""}`,
+    `|------|-----|-----|-----|---------|-----|---------|----------|-------|${niceLanguages.length ? "--------------|" : ""}`,
+  ];
+
+  top.forEach((b, i) => {
+    const niceCell = b.niceToHaveCovered ? ` ${b.niceToHaveCovered.join(", ") || "none"} |` : "";
+    lines.push(
+      `| ${i + 1} | ${b.stt} ${b.sttModel} | ${b.llm} ${b.llmModel} | ${b.tts} ${b.ttsModel}${localMark(b)}${estimateMark(b)} | ${b.latencyMs}ms${fallbackMark(b)} | ${b.latencyPercentiles ? `${b.latencyPercentiles.p95}ms` : "—"}${unknownP95Mark(b, latencyBasis)} | ${b.quality}/5 | $${b.costPerMin} | ${b.score} |${niceCell}`
+    );
+  });
+  if (requiredLanguages.length > 1) {
+    lines.push("", `_Figures are the worst case across ${requiredLanguages.join(", ")}: highest latency, lowest quality, highest cost._`);
+  }
+  if (fallbackNote) lines.push("", fallbackNote);
+  if (estimatedCount > 0) lines.push("", ESTIMATE_FOOTNOTE);
+  if (latencyBasis === "p95") lines.push("", "_Latency is scored on p95._");
+  if (unknownP95Note) lines.push("", unknownP95Note);
+  if (hasConstraints) {
+    lines.push("", `### Constraints (${kept.length} of ${matching.length} stacks remain)`, ...formatEliminations(eliminated));
+  }
+  if (explanation) lines.push("", ...formatRankExplanation(explanation, latencyBasis, scoring));
+  else if (scoring !== "linear") lines.push("", `_Scores use ${scoring} normalization over the ${kept.length} stacks considered._`);
+  if (sensitivityReport) lines.push("", ...formatSensitivity(sensitivityReport));
+
+  lines.push("");
+  lines.push("### Top Pick Details");
+  const best = top[0];
+  const bestPercentiles = formatPercentiles(best);
+  const bestStages = formatLatencyBreakdown(best);
+  lines.push(`**${best.stt} ${best.sttModel}** → **${best.llm} ${best.llmModel}** → **${best.tts} ${best.ttsModel}**`);
+  lines.push(`- Latency: ${best.latencyMs}ms end-to-end${bestPercentiles ? ` (${bestPercentiles})` : ""}`);
+  if (bestStages) lines.push(`- Stages: ${bestStages}`);
+  lines.push(`- Quality: ${best.quality}/5.0 UTMOS${best.mos ? ` (MOS: ${best.mos})` : ""}`);
+  lines.push(`- Cost: $${best.costPerMin}/min`);
+  const bestBounds = formatEstimateBounds(best);
+  if (bestBounds) lines.push(`- Estimated, not measured: ${bestBounds}`);
+  if (best.codeSwitchingAccuracy) {
+    lines.push(`- Code-switching STT accuracy: ${Object.entries(best.codeSwitchingAccuracy).map(([pair, accuracy]) => `${pair} ${accuracy === null ? "not measured" : `${Math.round(accuracy * 100)}%`}`).join(", ")}`);
+  }
+  if (best.worstCaseLanguages) {
+    lines.push(`- Worst-case languages: latency ${best.worstCaseLanguages.latency}, quality ${best.worstCaseLanguages.quality}, cost ${best.worstCaseLanguages.cost}`);
+  }
+  if (best.metricsSource === "language") {
+    lines.push(`- Measured for ${resolvedLanguage}: ${best.sampleSize} calls${best.sttAccuracy !== null ? `, STT accuracy ${(best.sttAccuracy * 100).toFixed(0)}%` : ""}`);
+  } else if (best.source !== "estimate") {
+    lines.push(`- No ${resolvedLanguage}-specific measurement; figures are the all-language aggregate`);
+  }
+  if (best.notes) lines.push(`- Notes: ${best.notes}`);
+  lines.push("");
+  lines.push(`> Use \`voiceforge_scaffold\` to generate a complete project with this stack.`);
+
+  return { content: [{ type: "text", text: lines.join("\n") }] };
+}
+
+server.tool(
+  "voiceforge_recommend",
+  "Recommend the optimal STT+LLM+TTS combination for a voice AI agent. Provide a language (or several) and use case to get a ranked list of tested stacks with latency, quality, and cost data from production benchmarks. Set include_estimates to also rank untested combinations of benchmarked components.",
+  RECOMMEND_PARAMS,
+  recommendStacks
 );
 
-// ─── Tool 4: Scaffold ────────────────────────────────────────────────
+// ─── Tool 2: Benchmark ───────────────────────────────────────────────
 
 server.tool(
-  "voiceforge_scaffold",
-  "Generate a complete voice AI project with the recommended STT+LLM+TTS stack. Creates all files needed to start building: agent code, config, environment variables, and README. Supports LiveKit Agents (Python) and Next.js (TypeScript) frameworks.",
+  "voiceforge_benchmark",
+  "View benchmark data for all tested STT+LLM+TTS combinations. Filter by language, provider, or sort by different metrics. Data from 4 years of production voice AI across enterprise deployments.",
   {
-    language: z.string().describe("Target language (e.g., 'Thai', 'English')"),
-    use_case: z.string().describe("Use case (e.g., 'sales', 'customer-support', 'healthcare-triage')"),
-    framework: z.enum(["livekit", "nextjs"]).default("livekit").describe(
-      "Framework: 'livekit' for LiveKit Agents (Python), 'nextjs' for Next.js + ElevenLabs (TypeScript)"
-    ),
-    agent_name: z.string().optional().describe("Agent name (default: auto-generated from language + use case)"),
-    output_dir: z.string().optional().describe("Output directory (default: ./<agent-name>)"),
+    language: z.string().optional().describe("Filter by language (e.g., 'Thai', 'English')"),
+    provider: z.string().optional().describe("Filter by any provider name (e.g., 'Deepgram', 'ElevenLabs')"),
+    sort_by: z.enum(["latency", "latency_p95", "quality", "cost"]).default("quality").describe("Sort results by metric (latency_p95 sorts on the tail rather than the mean)"),
+    local_data: LOCAL_DATA_PARAM,
     output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
   },
-  async ({ language, use_case, framework, agent_name, output_dir, output_format }) => {
-    const resolvedLanguage = resolveLanguage(language);
-    const resolvedUseCase = resolveUseCase(use_case);
-    if (!resolvedLanguage) {
+  async ({ language, provider, sort_by, local_data, output_format }) => {
+    const resolvedLanguage = language ? resolveLanguage(language) : null;
+    const resolvedProvider = provider ? resolveProvider(provider) : null;
+    if (language && !resolvedLanguage) {
       const suggestions = getLanguageSuggestions(language);
-      const markdown = `Language "${language}" is not recognized in benchmark corpus.\n` +
-        `Try one of: ${suggestions.join(", ")}.`;
+      const markdown = `Language "${language}" is not recognized.\nTry one of: ${suggestions.join(", ")}.`;
       return formatToolResponse(output_format, markdown, {
         status: "error",
         reason: "unsupported-language",
@@ -782,13 +1742,797 @@ server.tool(
       });
     }
 
-    const matching = BENCHMARK_DATA.filter((b) =>
-      b.languages.some((l) => l.toLowerCase() === resolvedLanguage.toLowerCase())
-    );
+    if (provider && !resolvedProvider) {
+      const markdown = `Provider "${provider}" is not recognized.\nTry: ${listKnownProviders().join(", ")}`;
+      return formatToolResponse(output_format, markdown, {
+        status: "error",
+        reason: "unsupported-provider",
+        requested_provider: provider,
+        supported_providers: listKnownProviders(),
+      });
+    }
+
+    let results = getBenchmarkRows(local_data)
+      .filter((b) => !resolvedLanguage || supportsLanguage(b, resolvedLanguage))
+      .map((b) => applyLanguageMetrics(b, resolvedLanguage));
+
+    if (provider) {
+      results = results.filter(
+        (b) =>
+        makeProviderMatch(resolvedProvider!, b.stt) ||
+        makeProviderMatch(resolvedProvider!, b.llm) ||
+        makeProviderMatch(resolvedProvider!, b.tts)
+      );
+    }
 
-    if (matching.length === 0) {
-      const markdown = `No benchmarks for "${language}". Using default stack: Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3.`;
+    if (results.length === 0) {
+      const markdown = `No benchmark rows match the selected filters.${language ? ` Language=${resolvedLanguage}.` : ""}${provider ? ` Provider=${resolvedProvider}.` : ""}`;
       return formatToolResponse(output_format, markdown, {
+        status: "ok",
+        language: resolvedLanguage,
+        provider: resolvedProvider,
+        sort_by,
+        local_data,
+        rows: [],
+        count: 0,
+      });
+    }
+
+    if (sort_by === "latency") results.sort((a, b) => a.latencyMs - b.latencyMs);
+    else if (sort_by === "latency_p95") results.sort((a, b) => latencyFor(a, "p95") - latencyFor(b, "p95"));
+    else if (sort_by === "cost") results.sort((a, b) => a.costPerMin - b.costPerMin);
+    else results.sort((a, b) => b.quality - a.quality);
+
+    const lines: string[] = [
+      `## VoiceForge Benchmarks`,
+      `**${results.length} combinations**${resolvedLanguage ? ` for ${resolvedLanguage}` : ""}${resolvedProvider ? ` with ${resolvedProvider}` : ""} (sorted by ${sort_by})`,
+      "",
+      "| # | STT | LLM | TTS | Latency | P95 | Quality | Cost/min | Languages |",
+      "|---|-----|-----|-----|---------|-----|---------|----------|-----------|",
+    ];
+
+    results.forEach((b, i) => {
+      lines.push(
+        `| ${i + 1} | ${b.stt} ${b.sttModel} | ${b.llm} ${b.llmModel} | ${b.tts} ${b.ttsModel}${localMark(b)} | ${b.latencyMs}ms${fallbackMark(b)} | ${b.latencyPercentiles ? `${b.latencyPercentiles.p95}ms` : "—"} | ${b.quality}/5 | $${b.costPerMin} | ${b.languages.slice(0, 3).join(", ")} |`
+      );
+    });
+    const fallbackNote = resolvedLanguage ? describeAggregateFallback(results, resolvedLanguage) : null;
+    if (fallbackNote) lines.push("", fallbackNote);
+
+    lines.push("");
+    lines.push("### Key Insights");
+    const fastest = [...results].sort((a, b) => a.latencyMs - b.latencyMs)[0];
+    const bestQuality = [...results].sort((a, b) => b.quality - a.quality)[0];
+    const cheapest = [...results].sort((a, b) => a.costPerMin - b.costPerMin)[0];
+
+    if (fastest) lines.push(`- **Fastest:** ${fastest.stt} + ${fastest.llm} + ${fastest.tts} (${fastest.latencyMs}ms)`);
+    if (bestQuality) lines.push(`- **Best quality:** ${bestQuality.stt} + ${bestQuality.llm} + ${bestQuality.tts} (${bestQuality.quality}/5)`);
+    if (cheapest) lines.push(`- **Cheapest:** ${cheapest.stt} + ${cheapest.llm} + ${cheapest.tts} ($${cheapest.costPerMin}/min)`);
+
+    return formatToolResponse(output_format, lines.join("\n"), {
+      status: "ok",
+      language: resolvedLanguage,
+      provider: resolvedProvider,
+      sort_by,
+      local_data,
+      count: results.length,
+      aggregate_fallback_count: resolvedLanguage ? countAggregateFallbacks(results) : 0,
+      rows: results,
+      summary: {
+        fastest,
+        best_quality: bestQuality,
+        cheapest,
+      },
+    });
+  }
+);
+
+// ─── Tool 3: Compare ─────────────────────────────────────────────────
+
+const COMPARE_PARAMS = {
+  combo_a: z.string().describe("First combination, e.g., 'Deepgram + OpenAI + Cartesia'"),
+  combo_b: z.string().describe("Second combination, e.g., 'AssemblyAI + Anthropic + ElevenLabs'"),
+  language: z.string().optional().describe("Compare on the figures measured for this language (default: all-language aggregate)"),
+  estimate: z.boolean().default(false).describe(
+    "Estimate metrics for a combo with no benchmark row (requires a model for every stage)"
+  ),
+  output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+};
+
+async function compareStacks({ combo_a, combo_b, language, estimate, output_format }: ToolArgs<typeof COMPARE_PARAMS>): Promise<ToolResponse> {
+  const resolvedLanguage = language ? resolveLanguage(language) : null;
+  if (language && !resolvedLanguage) {
+    const suggestions = getLanguageSuggestions(language);
+    const markdown = `Language "${language}" is not recognized.\nTry one of: ${suggestions.join(", ")}.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unsupported-language",
+      requested_language: language,
+      suggestions,
+    });
+  }
+
+  const resolvedA = parseComboMatches(combo_a);
+  const resolvedB = parseComboMatches(combo_b);
+
+  if (!resolvedA || !resolvedB) {
+    const missing = [];
+    if (!resolvedA) missing.push("A");
+    if (!resolvedB) missing.push("B");
+    const markdown = `Could not parse combo ${missing.join(" and ")} from benchmark rows.\n` +
+      `Expected format: provider-only or provider + model per segment, separated by + or commas.\n` +
+      `Examples:\n` +
+      `- "Deepgram + OpenAI + Cartesia"\n` +
+      `- "Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3"\n` +
+      `- "Deepgram nova-3, OpenAI gpt-4.1-mini, Cartesia sonic-3"\n` +
+      `Supported providers: ${listKnownProviders().join(", ")}`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unparseable-combo",
+      missing,
+      combo_a,
+      combo_b,
+      supported_providers: listKnownProviders(),
+    });
+  }
+
+  const estimateA = estimate && resolvedA.entries.length === 0 ? estimateParsedCombo(resolvedA.parsed) : null;
+  const estimateB = estimate && resolvedB.entries.length === 0 ? estimateParsedCombo(resolvedB.parsed) : null;
+  const entriesA = estimateA?.ok ? [estimateA.entry] : resolvedA.entries;
+  const entriesB = estimateB?.ok ? [estimateB.entry] : resolvedB.entries;
+
+  const noMatch: string[] = [];
+  if (entriesA.length === 0) noMatch.push(`A (${describeParsedCombo(resolvedA.parsed)})`);
+  if (entriesB.length === 0) noMatch.push(`B (${describeParsedCombo(resolvedB.parsed)})`);
+
+  if (noMatch.length > 0) {
+    const estimateProblems = estimate
+      ? [
+          entriesA.length === 0 ? `A: ${describeEstimateFailure(estimateA)}` : "",
+          entriesB.length === 0 ? `B: ${describeEstimateFailure(estimateB)}` : "",
+        ].filter(Boolean)
+      : [];
+    const markdown = `No benchmark rows found for ${noMatch.join(" and ")}.\n` +
+      `Use supported providers in this stack: ${listKnownProviders().join(", ")}.\n` +
+      `Try adding exact model names from provider catalogs, or use provider-only input when you want the best matching benchmark for that provider trio.` +
+      (estimate
+        ? estimateProblems.map((problem) => `\nCould not estimate ${problem}.`).join("")
+        : `\nPass estimate: true to estimate metrics for an untested combination with a model for every stage.`);
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "no-matching-combo",
+      combo_a: describeParsedCombo(resolvedA.parsed),
+      combo_b: describeParsedCombo(resolvedB.parsed),
+      matches_found: {
+        a: resolvedA.entries.length,
+        b: resolvedB.entries.length,
+      },
+      ...(estimate ? { estimate_unavailable: estimateProblems } : {}),
+    });
+  }
+
+  const rankedA = rankBenchmarks(entriesA.map((entry) => applyLanguageMetrics(entry, resolvedLanguage)), DEFAULT_WEIGHTS);
+  const rankedB = rankBenchmarks(entriesB.map((entry) => applyLanguageMetrics(entry, resolvedLanguage)), DEFAULT_WEIGHTS);
+  const a = rankedA[0];
+  const b = rankedB[0];
+  const ambiguityA = resolvedA.entries.length > 1;
+  const ambiguityB = resolvedB.entries.length > 1;
+
+  if (!a || !b) {
+    const markdown = `Could not resolve benchmark matches for one or both inputs.\n` +
+      `A entries: ${resolvedA.entries.length}, B entries: ${resolvedB.entries.length}.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unresolved-combo",
+      combo_a: describeParsedCombo(resolvedA.parsed),
+      combo_b: describeParsedCombo(resolvedB.parsed),
+      counts: {
+        a: resolvedA.entries.length,
+        b: resolvedB.entries.length,
+      },
+    });
+  }
+
+  const formatCombo = (entry: LanguageBenchmark | undefined, label: string): string => {
+    if (!entry) return `**${label}:** Not found in benchmarks`;
+    const bounds = formatEstimateBounds(entry);
+    return [
+      `**${label}:** ${entry.stt} ${entry.sttModel} → ${entry.llm} ${entry.llmModel} → ${entry.tts} ${entry.ttsModel}${estimateMark(entry)}`,
+      bounds ? `- Figures: estimated, not measured (${bounds})` : "",
+      resolvedLanguage && !bounds
+        ? entry.metricsSource === "language"
+          ? `- Figures: measured for ${resolvedLanguage} (${entry.sampleSize} calls)`
+          : `- Figures: all-language aggregate (no ${resolvedLanguage}-specific measurement)`
+        : "",
+      `- Latency: ${entry.latencyMs}ms${formatPercentiles(entry) ? ` (${formatPercentiles(entry)})` : ""}`,
+      formatLatencyBreakdown(entry) ? `- Stages: ${formatLatencyBreakdown(entry)}` : "",
+      `- Quality: ${entry.quality}/5.0${entry.mos ? ` (MOS: ${entry.mos})` : ""}`,
+      `- Cost: $${entry.costPerMin}/min`,
+      `- Languages: ${entry.languages.join(", ")}`,
+      entry.notes ? `- Notes: ${entry.notes}` : "",
+    ].filter(Boolean).join("\n");
+  };
+
+  const lines: string[] = [
+    "## VoiceForge Comparison",
+    "",
+    formatCombo(a, "Stack A"),
+    "",
+    formatCombo(b, "Stack B"),
+    "",
+  ];
+
+  lines.push("### Head-to-Head");
+  lines.push("");
+  lines.push("| Metric | Stack A | Stack B | Winner |");
+  lines.push("|--------|---------|---------|--------|");
+
+  const latencyWinner = a.latencyMs <= b.latencyMs ? "A" : "B";
+  const qualityWinner = a.quality >= b.quality ? "A" : "B";
+  const costWinner = a.costPerMin <= b.costPerMin ? "A" : "B";
+
+  const latencyDeltaMs = Math.abs(a.latencyMs - b.latencyMs);
+  const costDelta = Math.abs(a.costPerMin - b.costPerMin);
+
+  lines.push(`| Latency | ${a.latencyMs}ms | ${b.latencyMs}ms | Stack ${latencyWinner} (${latencyDeltaMs}ms faster) |`);
+  const p95A = latencyFor(a, "p95");
+  const p95B = latencyFor(b, "p95");
+  lines.push(`| Latency p95 | ${p95A}ms | ${p95B}ms | Stack ${p95A <= p95B ? "A" : "B"} (${Math.abs(p95A - p95B)}ms faster) |`);
+  lines.push(`| Quality | ${a.quality}/5 | ${b.quality}/5 | Stack ${qualityWinner} |`);
+  lines.push(`| Cost | $${a.costPerMin}/min | $${b.costPerMin}/min | Stack ${costWinner} ($${costDelta.toFixed(3)} cheaper) |`);
+
+  const aLangs = new Set(a.languages);
+  const bLangs = new Set(b.languages);
+  const shared = a.languages.filter((l) => bLangs.has(l));
+  const aOnly = a.languages.filter((l) => !bLangs.has(l));
+  const bOnly = b.languages.filter((l) => !aLangs.has(l));
+
+  lines.push("");
+  lines.push("### Language Coverage");
+  lines.push(`- Both support: ${shared.join(", ") || "none"}`);
+  if (aOnly.length) lines.push(`- Only Stack A: ${aOnly.join(", ")}`);
+  if (bOnly.length) lines.push(`- Only Stack B: ${bOnly.join(", ")}`);
+
+  if (ambiguityA || ambiguityB) {
+    lines.push("");
+    lines.push(`⚠️ Multiple benchmark matches were found for ${ambiguityA ? "Stack A" : ""}${ambiguityA && ambiguityB ? " and " : ""}${ambiguityB ? "Stack B" : ""}; selected best-scoring rows automatically.`);
+  }
+  if (a.source === "estimate" || b.source === "estimate") lines.push("", ESTIMATE_FOOTNOTE);
+
+  return formatToolResponse(output_format, lines.join("\n"), {
+    status: "ok",
+    combo_a: `${a.stt} ${a.sttModel} → ${a.llm} ${a.llmModel} → ${a.tts} ${a.ttsModel}`,
+    combo_b: `${b.stt} ${b.sttModel} → ${b.llm} ${b.llmModel} → ${b.tts} ${b.ttsModel}`,
+    language: resolvedLanguage,
+    metrics_source: {
+      a: a.metricsSource,
+      b: b.metricsSource,
+    },
+    estimated: {
+      a: a.estimate ?? null,
+      b: b.estimate ?? null,
+    },
+    winners: {
+      latency: a.latencyMs <= b.latencyMs ? "A" : "B",
+      latency_p95: p95A <= p95B ? "A" : "B",
+      quality: a.quality >= b.quality ? "A" : "B",
+      cost: a.costPerMin <= b.costPerMin ? "A" : "B",
+    },
+    deltas: {
+      latencyMs: Math.abs(a.latencyMs - b.latencyMs),
+      latencyP95Ms: Math.abs(p95A - p95B),
+      quality: Math.abs(a.quality - b.quality),
+      costPerMin: Number((Math.abs(a.costPerMin - b.costPerMin)).toFixed(3)),
+    },
+    latency_breakdown: {
+      a: a.latencyBreakdown ?? null,
+      b: b.latencyBreakdown ?? null,
+    },
+    latency_percentiles: {
+      a: a.latencyPercentiles ?? null,
+      b: b.latencyPercentiles ?? null,
+    },
+    overlap_languages: {
+      both: shared,
+      only_a: aOnly,
+      only_b: bOnly,
+    },
+    requested: {
+      a: describeParsedCombo(resolvedA.parsed),
+      b: describeParsedCombo(resolvedB.parsed),
+    },
+    candidate_counts: {
+      a: resolvedA.entries.length,
+      b: resolvedB.entries.length,
+    },
+    ambiguity: {
+      a: ambiguityA,
+      b: ambiguityB,
+    },
+  });
+}
+
+server.tool(
+  "voiceforge_compare",
+  "Compare two specific STT+LLM+TTS combinations side-by-side. Useful when deciding between two shortlisted stacks.",
+  COMPARE_PARAMS,
+  compareStacks
+);
+
+const MAX_MATRIX_COMBOS = 8;
+const MATRIX_METRICS = ["latency", "latency_p95", "quality", "cost", "language_coverage", "scaffold_compatibility"] as const;
+type MatrixMetric = typeof MATRIX_METRICS[number];
+/** A head-to-head goes to the stack that wins more of the metrics the ranking score weighs. */
+const HEAD_TO_HEAD_METRICS: readonly MatrixMetric[] = ["latency", "quality", "cost"];
+const LOWER_IS_BETTER: ReadonlySet<MatrixMetric> = new Set(["latency", "latency_p95", "cost"]);
+
+type MatrixStack = {
+  label: string;
+  requested: string;
+  entry: LanguageBenchmark;
+  candidateCount: number;
+  frameworks: ScaffoldFramework[];
+};
+
+type HeadToHead = {
+  stacks: [string, string];
+  winner: string | null;
+  metrics_won: Record<string, MatrixMetric[]>;
+};
+
+function matrixMetricValue(stack: MatrixStack, metric: MatrixMetric): number {
+  switch (metric) {
+    case "latency": return stack.entry.latencyMs;
+    case "latency_p95": return latencyFor(stack.entry, "p95");
+    case "quality": return stack.entry.quality;
+    case "cost": return stack.entry.costPerMin;
+    case "language_coverage": return stack.entry.languages.length;
+    case "scaffold_compatibility": return stack.frameworks.length;
+  }
+}
+
+/** Positive when `a` is better on the metric, negative when `b` is, zero on a tie. */
+function compareOnMetric(a: MatrixStack, b: MatrixStack, metric: MatrixMetric): number {
+  const difference = matrixMetricValue(a, metric) - matrixMetricValue(b, metric);
+  return LOWER_IS_BETTER.has(metric) ? -difference : difference;
+}
+
+/** Every stack holding the best value; more than one on a tie. */
+function matrixWinners(stacks: MatrixStack[], metric: MatrixMetric): string[] {
+  const best = stacks.reduce((leader, stack) => compareOnMetric(stack, leader, metric) > 0 ? stack : leader);
+  return stacks.filter((stack) => compareOnMetric(stack, best, metric) === 0).map((stack) => stack.label);
+}
+
+function headToHead(a: MatrixStack, b: MatrixStack): HeadToHead {
+  const wonByA = HEAD_TO_HEAD_METRICS.filter((metric) => compareOnMetric(a, b, metric) > 0);
+  const wonByB = HEAD_TO_HEAD_METRICS.filter((metric) => compareOnMetric(a, b, metric) < 0);
+  return {
+    stacks: [a.label, b.label],
+    winner: wonByA.length === wonByB.length ? null : wonByA.length > wonByB.length ? a.label : b.label,
+    metrics_won: { [a.label]: wonByA, [b.label]: wonByB },
+  };
+}
+
+const COMPARE_MATRIX_PARAMS = {
+  combos: z.array(z.string()).min(2).max(MAX_MATRIX_COMBOS).describe(
+    "Combinations in voiceforge_compare syntax, e.g., ['Deepgram + OpenAI + Cartesia', 'AssemblyAI + Anthropic + ElevenLabs', 'Google + Google + Cartesia']"
+  ),
+  language: z.string().optional().describe("Compare on the figures measured for this language (default: all-language aggregate)"),
+  estimate: z.boolean().default(false).describe(
+    "Estimate metrics for a combo with no benchmark row (requires a model for every stage)"
+  ),
+  output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+};
+
+async function compareStackMatrix({ combos, language, estimate, output_format }: ToolArgs<typeof COMPARE_MATRIX_PARAMS>): Promise<ToolResponse> {
+  const resolvedLanguage = language ? resolveLanguage(language) : null;
+  if (language && !resolvedLanguage) {
+    const suggestions = getLanguageSuggestions(language);
+    const markdown = `Language "${language}" is not recognized.\nTry one of: ${suggestions.join(", ")}.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unsupported-language",
+      requested_language: language,
+      suggestions,
+    });
+  }
+
+  const labels = combos.map((_, index) => String.fromCharCode(65 + index));
+  const resolved = combos.map((combo) => parseComboMatches(combo));
+
+  const unparseable = labels.filter((_, index) => !resolved[index]);
+  if (unparseable.length > 0) {
+    const markdown = `Could not parse combo ${unparseable.join(", ")} from benchmark rows.\n` +
+      `Expected format: provider-only or provider + model per segment, separated by + or commas, ` +
+      `e.g. "Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3".\n` +
+      `Supported providers: ${listKnownProviders().join(", ")}`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unparseable-combo",
+      missing: unparseable,
+      combos,
+      supported_providers: listKnownProviders(),
+    });
+  }
+  const matches = resolved.filter((match): match is NonNullable<typeof match> => match !== null);
+
+  const estimates = matches.map((match) =>
+    estimate && match.entries.length === 0 ? estimateParsedCombo(match.parsed) : null
+  );
+  const entries = matches.map((match, index) => {
+    const estimated = estimates[index];
+    return estimated?.ok ? [estimated.entry] : match.entries;
+  });
+
+  const unmatched = labels.filter((_, index) => entries[index].length === 0);
+  if (unmatched.length > 0) {
+    const problems = unmatched.map((label) => {
+      const index = labels.indexOf(label);
+      return `${label} (${describeParsedCombo(matches[index].parsed)})` +
+        (estimate ? `: could not estimate, ${describeEstimateFailure(estimates[index])}` : "");
+    });
+    const markdown = `No benchmark rows found for:\n${problems.map((problem) => `- ${problem}`).join("\n")}\n` +
+      `Try adding exact model names from provider catalogs, or use provider-only input when you want the best matching benchmark for that provider trio.` +
+      (estimate ? "" : `\nPass estimate: true to estimate metrics for an untested combination with a model for every stage.`);
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "no-matching-combo",
+      unmatched,
+      requested: Object.fromEntries(labels.map((label, index) => [label, describeParsedCombo(matches[index].parsed)])),
+      matches_found: Object.fromEntries(labels.map((label, index) => [label, matches[index].entries.length])),
+      ...(estimate ? { estimate_unavailable: problems } : {}),
+    });
+  }
+
+  const stacks: MatrixStack[] = labels.map((label, index) => {
+    const entry = rankBenchmarks(entries[index].map((row) => applyLanguageMetrics(row, resolvedLanguage)), DEFAULT_WEIGHTS)[0];
+    return {
+      label,
+      requested: describeParsedCombo(matches[index].parsed),
+      entry,
+      candidateCount: matches[index].entries.length,
+      frameworks: SCAFFOLD_FRAMEWORKS.filter((framework) => isScaffoldCompatible(entry, framework)),
+    };
+  });
+
+  const winners = Object.fromEntries(MATRIX_METRICS.map((metric) => [metric, matrixWinners(stacks, metric)])) as Record<MatrixMetric, string[]>;
+  const pairs = stacks.flatMap((a, index) => stacks.slice(index + 1).map((b) => headToHead(a, b)));
+  const records = Object.fromEntries(stacks.map((stack) => {
+    const played = pairs.filter((pair) => pair.stacks.includes(stack.label));
+    return [stack.label, {
+      wins: played.filter((pair) => pair.winner === stack.label).length,
+      losses: played.filter((pair) => pair.winner !== null && pair.winner !== stack.label).length,
+      ties: played.filter((pair) => pair.winner === null).length,
+    }];
+  }));
+  const sharedLanguages = stacks[0].entry.languages.filter((lang) =>
+    stacks.every((stack) => stack.entry.languages.includes(lang))
+  );
+  const describeEntry = (entry: LanguageBenchmark): string =>
+    `${entry.stt} ${entry.sttModel} → ${entry.llm} ${entry.llmModel} → ${entry.tts} ${entry.ttsModel}`;
+  const ambiguous = stacks.filter((stack) => stack.candidateCount > 1).map((stack) => stack.label);
+  const mark = (label: string, metric: MatrixMetric): string => winners[metric].includes(label) ? " ✓" : "";
+
+  const lines: string[] = [
+    "## VoiceForge Comparison Matrix",
+    "",
+    ...stacks.map((stack) => `- **Stack ${stack.label}:** ${describeEntry(stack.entry)}${estimateMark(stack.entry)}`),
+    "",
+    `Figures: ${resolvedLanguage ? `${resolvedLanguage} where measured, all-language aggregate otherwise` : "all-language aggregate"}. ✓ marks the best value per metric.`,
+    "",
+    "| Stack | Latency | p95 | Quality | Cost | Languages | Scaffolds | W-L-T |",
+    "|-------|---------|-----|---------|------|-----------|-----------|-------|",
+    ...stacks.map((stack) => {
+      const { entry, label } = stack;
+      const record = records[label];
+      return `| ${label} | ${entry.latencyMs}ms${mark(label, "latency")} | ${latencyFor(entry, "p95")}ms${mark(label, "latency_p95")} | ` +
+        `${entry.quality}/5${mark(label, "quality")} | $${entry.costPerMin}/min${mark(label, "cost")} | ` +
+        `${entry.languages.length}${mark(label, "language_coverage")} | ${stack.frameworks.join(", ") || "none"}${mark(label, "scaffold_compatibility")} | ` +
+        `${record.wins}-${record.losses}-${record.ties} |`;
+    }),
+    "",
+    "### Head-to-Head",
+    `Each cell is the row stack's result against the column stack on ${HEAD_TO_HEAD_METRICS.join(", ")}.`,
+    "",
+    `| | ${labels.join(" | ")} |`,
+    `|---|${labels.map(() => "---").join("|")}|`,
+    ...stacks.map((row) => `| ${row.label} | ${stacks.map((column) => {
+      if (row === column) return "—";
+      const pair = pairs.find((candidate) => candidate.stacks.includes(row.label) && candidate.stacks.includes(column.label));
+      const result = pair?.winner === null ? "T" : pair?.winner === row.label ? "W" : "L";
+      return `${result} ${pair?.metrics_won[row.label].length ?? 0}–${pair?.metrics_won[column.label].length ?? 0}`;
+    }).join(" | ")} |`),
+    "",
+    "### Language Coverage",
+    `- All stacks support: ${sharedLanguages.join(", ") || "none"}`,
+    ...stacks
+      .map((stack) => ({ stack, extra: stack.entry.languages.filter((lang) => !sharedLanguages.includes(lang)) }))
+      .filter(({ extra }) => extra.length > 0)
+      .map(({ stack, extra }) => `- Also Stack ${stack.label}: ${extra.join(", ")}`),
+  ];
+
+  if (ambiguous.length > 0) {
+    lines.push("");
+    lines.push(`⚠️ Multiple benchmark matches were found for ${ambiguous.map((label) => `Stack ${label}`).join(", ")}; selected best-scoring rows automatically.`);
+  }
+  if (stacks.some((stack) => stack.entry.source === "estimate")) lines.push("", ESTIMATE_FOOTNOTE);
+
+  return formatToolResponse(output_format, lines.join("\n"), {
+    status: "ok",
+    language: resolvedLanguage,
+    stacks: stacks.map((stack) => ({
+      label: stack.label,
+      combo: describeEntry(stack.entry),
+      requested: stack.requested,
+      metrics_source: stack.entry.metricsSource,
+      latencyMs: stack.entry.latencyMs,
+      latencyP95Ms: latencyFor(stack.entry, "p95"),
+      quality: stack.entry.quality,
+      costPerMin: stack.entry.costPerMin,
+      languages: stack.entry.languages,
+      scaffold_compatibility: Object.fromEntries(SCAFFOLD_FRAMEWORKS.map((framework) => [framework, stack.frameworks.includes(framework)])),
+      estimated: stack.entry.estimate ?? null,
+      candidate_count: stack.candidateCount,
+      ambiguity: stack.candidateCount > 1,
+      record: records[stack.label],
+    })),
+    winners,
+    head_to_head: pairs,
+    shared_languages: sharedLanguages,
+  });
+}
+
+server.tool(
+  "voiceforge_compare_matrix",
+  "Compare two or more STT+LLM+TTS combinations at once: a latency, quality, cost, language and scaffold matrix with per-metric winners and each stack's head-to-head record.",
+  COMPARE_MATRIX_PARAMS,
+  compareStackMatrix
+);
+
+// ─── Tool 4: Scaffold ────────────────────────────────────────────────
+
+const SCAFFOLD_PARAMS = {
+  language: z.string().describe("Target language (e.g., 'Thai', 'English')"),
+  use_case: z.string().describe("Use case (e.g., 'sales', 'customer-support', 'healthcare-triage')"),
+  framework: z.enum(SCAFFOLD_FRAMEWORKS).default("livekit").describe(
+    "Framework: 'livekit' for LiveKit Agents (Python), 'livekit-node' for LiveKit Agents (Node/TypeScript), 'nextjs' for Next.js + ElevenLabs (TypeScript), 'nextjs-routes' for Next.js API routes calling the chosen providers (TypeScript), 'pipecat' for a Pipecat bot (Python), 'twilio' for a Twilio Media Streams phone server (Node/TypeScript)"
+  ),
+  stack: z.string().optional().describe(
+    "Scaffold this stack instead of the top-ranked one, in voiceforge_compare syntax (e.g., 'Deepgram nova-3 + Anthropic claude-sonnet-4-5 + ElevenLabs eleven_v3')"
+  ),
+  stt_provider: z.string().optional().describe("STT provider for an explicit stack; overrides the stack string"),
+  stt_model: z.string().optional().describe("STT model for an explicit stack"),
+  llm_provider: z.string().optional().describe("LLM provider for an explicit stack; overrides the stack string"),
+  llm_model: z.string().optional().describe("LLM model for an explicit stack"),
+  tts_provider: z.string().optional().describe("TTS provider for an explicit stack; overrides the stack string"),
+  tts_model: z.string().optional().describe("TTS model for an explicit stack"),
+  agent_name: z.string().optional().describe("Agent name (default: auto-generated from language + use case)"),
+  output_dir: z.string().optional().describe("Output directory (default: ./<agent-name>); relative to the scaffold root when writing"),
+  write: z.boolean().default(false).describe(
+    "Write the files to output_dir instead of only returning them. The directory must be inside the scaffold root"
+  ),
+  dry_run: z.boolean().default(false).describe("Report what write would create, skip or conflict with, without touching the disk"),
+  force: z.boolean().default(false).describe("With write, overwrite existing files whose content differs"),
+  livekit_version: z.enum(LIVEKIT_VERSIONS).optional().describe(
+    "LiveKit Agents API for the livekit framework: '1.x' (default) for AgentSession/Agent, '0.x' for the legacy VoicePipelineAgent"
+  ),
+  turn_detection: z.enum(TURN_DETECTION_MODES).optional().describe(
+    "livekit only. 'model' uses LiveKit's turn detector model (default on 1.x), 'vad' ends turns on silence (default on 0.x), 'stt' uses the STT provider's endpointing (1.x only)"
+  ),
+  noise_cancellation: z.enum(NOISE_CANCELLATION_MODES).optional().describe(
+    "livekit only. LiveKit Cloud noise cancellation: 'nc', 'bvc' (background voice cancellation) or 'bvc-telephony'. Default 'none'"
+  ),
+  scoring: SCORING_STRATEGY_PARAM,
+  ...COMPLIANCE_PARAMS,
+  output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+};
+
+const FILE_OUTCOME_LABELS: Record<PlannedFile["outcome"], { done: string; planned: string }> = {
+  created: { done: "created", planned: "would create" },
+  overwritten: { done: "overwritten", planned: "would overwrite" },
+  skipped: { done: "skipped (unchanged)", planned: "would skip (unchanged)" },
+  conflict: { done: "not written", planned: "would not write" },
+};
+
+type ScaffoldStack = Pick<BenchmarkEntry, "stt" | "sttModel" | "llm" | "llmModel" | "tts" | "ttsModel">;
+
+/** Where the expected figures for an explicit stack come from. */
+type ScaffoldBenchmark = "measured" | "estimated" | "none";
+
+type ScaffoldSelection =
+  | {
+      ok: true;
+      source: "ranked" | "explicit";
+      stack: ScaffoldStack;
+      /** Null when an explicit stack has neither a benchmark row nor an estimate. */
+      expected: LanguageBenchmark | null;
+      benchmark: ScaffoldBenchmark;
+      /** Ranked only: set when the top-scoring stack could not be scaffolded. */
+      fallbackNotice: string | null;
+      /** Ranked only: what the constraints removed. */
+      filtered: { considered: number; remaining: number; eliminated: ConstraintElimination[] } | null;
+      warnings: string[];
+    }
+  | { ok: false; markdown: string; payload: Record<string, unknown> };
+
+function hasExplicitStack(args: Pick<ToolArgs<typeof SCAFFOLD_PARAMS>, "stack" | "stt_provider" | "stt_model" | "llm_provider" | "llm_model" | "tts_provider" | "tts_model">): boolean {
+  return [args.stack, args.stt_provider, args.stt_model, args.llm_provider, args.llm_model, args.tts_provider, args.tts_model]
+    .some((value) => value?.trim());
+}
+
+/**
+ * Resolves the stack the caller named for scaffolding. Individual provider/model
+ * arguments override the matching segment of `stack`. A missing model is taken
+ * from the best benchmark row for the named providers.
+ */
+function resolveExplicitStack(
+  args: ToolArgs<typeof SCAFFOLD_PARAMS>,
+  language: string,
+  framework: ScaffoldFramework,
+  compliance: ComplianceRequirement
+): ScaffoldSelection {
+  const parsed = args.stack ? parseComboInput(args.stack) : null;
+  if (args.stack && !parsed) {
+    return {
+      ok: false,
+      markdown: `Could not parse stack "${args.stack}".\n` +
+        `Expected format: provider-only or provider + model per segment, separated by + or commas, ` +
+        `e.g. "Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3".`,
+      payload: { status: "error", reason: "unparseable-combo", stack: args.stack, supported_providers: listKnownProviders() },
+    };
+  }
+
+  const requested = {
+    stt: { provider: args.stt_provider?.trim() || parsed?.stt.provider, model: args.stt_model?.trim() || parsed?.stt.model },
+    llm: { provider: args.llm_provider?.trim() || parsed?.llm.provider, model: args.llm_model?.trim() || parsed?.llm.model },
+    tts: { provider: args.tts_provider?.trim() || parsed?.tts.provider, model: args.tts_model?.trim() || parsed?.tts.model },
+  };
+  const stages = ["stt", "llm", "tts"] as const;
+
+  const missingProviders = stages.filter((stage) => !requested[stage].provider);
+  const providers = Object.fromEntries(stages.map((stage) => {
+    const provider = requested[stage].provider;
+    return [stage, provider ? resolveProviderCategory(provider, stage) : null];
+  })) as Record<ProviderCategory, string | null>;
+  const unresolved = stages.filter((stage) => requested[stage].provider && !providers[stage]);
+  if (missingProviders.length > 0 || unresolved.length > 0) {
+    const markdown = [
+      ...(missingProviders.length > 0 ? [`An explicit stack needs a provider for every stage; missing: ${missingProviders.map((stage) => stage.toUpperCase()).join(", ")}.`] : []),
+      ...unresolved.map((stage) => `${stage.toUpperCase()} provider "${requested[stage].provider}" is not recognized.`),
+      `Expected providers:`,
+      ...stages.map((stage) => `- ${stage.toUpperCase()}: ${listKnownProviders(stage).join(", ")}`),
+    ].join("\n");
+    return {
+      ok: false,
+      markdown,
+      payload: {
+        status: "error",
+        reason: missingProviders.length > 0 ? "incomplete-stack" : "unresolved-provider",
+        missing_providers: missingProviders,
+        unresolved_providers: unresolved,
+        expected_providers: Object.fromEntries(stages.map((stage) => [stage, listKnownProviders(stage)])),
+      },
+    };
+  }
+
+  const unknownModels = stages.filter((stage) => {
+    const model = requested[stage].model;
+    const provider = providers[stage] as string;
+    return model && getProviderModels(provider, stage).length > 0 && !isModelKnown(provider, stage, model);
+  });
+  if (unknownModels.length > 0) {
+    const supported = Object.fromEntries(unknownModels.map((stage) => [stage, getProviderModels(providers[stage] as string, stage)]));
+    const markdown = [
+      `Model validation issue for known providers: ${unknownModels.join(", ")}.`,
+      ...unknownModels.map((stage) => `- ${stage.toUpperCase()} (${providers[stage]}): "${requested[stage].model}" is not one of ${supported[stage].join(", ")}`),
+    ].join("\n");
+    return {
+      ok: false,
+      markdown,
+      payload: {
+        status: "error",
+        reason: "unsupported-model",
+        unknown_models: unknownModels,
+        requested_models: Object.fromEntries(unknownModels.map((stage) => [stage, requested[stage].model])),
+        supported_models: supported,
+      },
+    };
+  }
+
+  const unsupportedStages = unsupportedScaffoldStages({ stt: providers.stt as string, llm: providers.llm as string, tts: providers.tts as string }, framework);
+  if (unsupportedStages.length > 0) {
+    const policy = FRAMEWORK_COMPATIBILITY[framework];
+    const markdown = [
+      `The ${framework} scaffold cannot wire up ${unsupportedStages.map((stage) => `${stage.toUpperCase()} ${providers[stage]}`).join(", ")}.`,
+      ...unsupportedStages.map((stage) => `- ${stage.toUpperCase()} providers it supports: ${[...policy[stage]].join(", ")}`),
+    ].join("\n");
+    return {
+      ok: false,
+      markdown,
+      payload: {
+        status: "error",
+        reason: "framework-incompatible",
+        framework,
+        unsupported_stages: unsupportedStages,
+        supported_providers: Object.fromEntries(unsupportedStages.map((stage) => [stage, [...policy[stage]]])),
+      },
+    };
+  }
+
+  const measuredRows = getBenchmarkRows("include").filter((row) => row.source !== "estimate");
+  const rowsForProviders = rankBenchmarks(measuredRows.filter((row) => stages.every((stage) => {
+    const model = requested[stage].model;
+    const modelField = STAGE_FIELDS[stage].model;
+    return row[stage] === providers[stage] && (!model || modelMatches(row[modelField], model));
+  })).map((row) => applyLanguageMetrics(row, language)), DEFAULT_WEIGHTS)
+    .sort((a, b) => Number(b.languages.includes(language)) - Number(a.languages.includes(language)));
+
+  const missingModels = stages.filter((stage) => !requested[stage].model);
+  if (missingModels.length > 0 && rowsForProviders.length === 0) {
+    const markdown = `No benchmark row uses ${describeParsedCombo({
+      stt: { provider: providers.stt as string, model: requested.stt.model },
+      llm: { provider: providers.llm as string, model: requested.llm.model },
+      tts: { provider: providers.tts as string, model: requested.tts.model },
+    })}, so the missing ${missingModels.map((stage) => stage.toUpperCase()).join(", ")} model cannot be chosen. Name a model for every stage.`;
+    return {
+      ok: false,
+      markdown,
+      payload: {
+        status: "error",
+        reason: "incomplete-stack",
+        missing_models: missingModels,
+        supported_models: Object.fromEntries(missingModels.map((stage) => [stage, getProviderModels(providers[stage] as string, stage)])),
+      },
+    };
+  }
+
+  const fill = rowsForProviders[0];
+  const stack: ScaffoldStack = {
+    stt: providers.stt as string,
+    sttModel: requested.stt.model ? canonicalModel(providers.stt as string, "stt", requested.stt.model) : fill.sttModel,
+    llm: providers.llm as string,
+    llmModel: requested.llm.model ? canonicalModel(providers.llm as string, "llm", requested.llm.model) : fill.llmModel,
+    tts: providers.tts as string,
+    ttsModel: requested.tts.model ? canonicalModel(providers.tts as string, "tts", requested.tts.model) : fill.ttsModel,
+  };
+
+  const warnings = findComplianceGaps(stack, compliance).map((gap) => `${describeComplianceGap(gap)}.`);
+  const selected = { ok: true as const, source: "explicit" as const, stack, fallbackNotice: null, filtered: null, warnings };
+  const exact = rowsForProviders.find((row) => stackKey(row) === stackKey(stack));
+  if (exact) {
+    if (!exact.languages.includes(language)) {
+      warnings.unshift(`This stack is benchmarked, but not for ${language}; expected figures are the all-language aggregate.`);
+    }
+    return { ...selected, expected: exact, benchmark: "measured" };
+  }
+
+  const estimated = getEstimator("include").estimate(stack);
+  if (estimated.ok) {
+    warnings.unshift("No benchmark row for this stack; expected figures are estimated from its components.");
+    return { ...selected, expected: applyLanguageMetrics(estimated.entry, language), benchmark: "estimated" };
+  }
+  warnings.unshift(`No benchmark row for this stack, and it cannot be estimated (${describeEstimateFailure(estimated)}); no expected figures.`);
+  return { ...selected, expected: null, benchmark: "none" };
+}
+
+/** The best-scoring stack for the language that meets the constraints and the framework can scaffold. */
+function selectRankedStack(
+  language: string,
+  useCase: string,
+  framework: ScaffoldFramework,
+  scoring: ScoringStrategy,
+  constraints: StackConstraints
+): ScaffoldSelection {
+  const matching = BENCHMARK_DATA
+    .filter((b) => supportsLanguage(b, language))
+    .map((b) => applyLanguageMetrics(b, language));
+
+  if (matching.length === 0) {
+    const markdown = `No benchmarks for "${language}". Using default stack: Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3.`;
+    return {
+      ok: false,
+      markdown,
+      payload: {
         status: "fallback",
         reason: "no-language-benchmarks",
         language: language,
@@ -800,86 +2544,265 @@ server.tool(
           tts: "Cartesia",
           tts_model: "sonic-3",
         },
-      });
-    }
+      },
+    };
+  }
 
-    const ranked = rankBenchmarks(matching, getUseCaseWeights(resolvedUseCase));
-    const scaffoldable = ranked.filter((entry) => isScaffoldCompatible(entry, framework));
-    const topPick = ranked[0];
+  const { kept: compliant, eliminated } = applyConstraints(matching, constraints);
+  if (compliant.length === 0) {
+    const markdown = [
+      `No ${language} stack meets every constraint (${matching.length} considered).`,
+      "",
+      ...formatEliminations(eliminated),
+    ].join("\n");
+    return {
+      ok: false,
+      markdown,
+      payload: {
+        status: "error",
+        reason: "no-stack-meets-constraints",
+        language,
+        constraints: { applied: constraints, considered: matching.length, remaining: 0, eliminated },
+      },
+    };
+  }
 
-    if (scaffoldable.length === 0) {
-      const markdown =
-        framework === "livekit"
-          ? "No benchmarks currently map to a supported LiveKit scaffold for this language. Use a supported combination (Deepgram/OpenAI/Google + OpenAI/Anthropic/Google + Cartesia/ElevenLabs) or switch to nextjs."
-          : "No benchmarks currently map to an ElevenLabs scaffold for this language. Next.js generation currently supports ElevenLabs TTS only.";
-      return formatToolResponse(output_format, markdown, {
+  const ranked = rankBenchmarks(compliant, getUseCaseWeights(useCase), "mean", scoring);
+  const scaffoldable = ranked.filter((entry) => isScaffoldCompatible(entry, framework));
+  const topPick = ranked[0];
+
+  if (scaffoldable.length === 0) {
+    const markdown =
+      framework === "livekit"
+        ? "No benchmarks currently map to a supported LiveKit scaffold for this language. Use a supported combination (Deepgram/OpenAI/Google + OpenAI/Anthropic/Google + Cartesia/ElevenLabs) or switch to nextjs."
+        : framework === "nextjs"
+          ? "No benchmarks currently map to an ElevenLabs scaffold for this language. Next.js generation currently supports ElevenLabs TTS only; use nextjs-routes for other providers."
+          : `No benchmarks currently map to a supported ${FRAMEWORK_LABELS[framework]} scaffold for this language. It supports STT ${[...FRAMEWORK_COMPATIBILITY[framework].stt].join("/")}, LLM ${[...FRAMEWORK_COMPATIBILITY[framework].llm].join("/")} and TTS ${[...FRAMEWORK_COMPATIBILITY[framework].tts].join("/")}.`;
+    return {
+      ok: false,
+      markdown,
+      payload: {
         status: "error",
         reason: "no-scaffold-compatible-stack",
         framework,
-        language: resolvedLanguage,
+        language,
         supported_frameworks: {
           livekit_stt: [...FRAMEWORK_COMPATIBILITY.livekit.stt],
           livekit_llm: [...FRAMEWORK_COMPATIBILITY.livekit.llm],
           livekit_tts: [...FRAMEWORK_COMPATIBILITY.livekit.tts],
+          livekit_node_stt: [...FRAMEWORK_COMPATIBILITY["livekit-node"].stt],
+          livekit_node_llm: [...FRAMEWORK_COMPATIBILITY["livekit-node"].llm],
+          livekit_node_tts: [...FRAMEWORK_COMPATIBILITY["livekit-node"].tts],
           nextjs_tts: [...FRAMEWORK_COMPATIBILITY.nextjs.tts],
+          nextjs_routes_stt: [...FRAMEWORK_COMPATIBILITY["nextjs-routes"].stt],
+          nextjs_routes_llm: [...FRAMEWORK_COMPATIBILITY["nextjs-routes"].llm],
+          nextjs_routes_tts: [...FRAMEWORK_COMPATIBILITY["nextjs-routes"].tts],
+          pipecat_stt: [...FRAMEWORK_COMPATIBILITY.pipecat.stt],
+          pipecat_llm: [...FRAMEWORK_COMPATIBILITY.pipecat.llm],
+          pipecat_tts: [...FRAMEWORK_COMPATIBILITY.pipecat.tts],
+          twilio_stt: [...FRAMEWORK_COMPATIBILITY.twilio.stt],
+          twilio_llm: [...FRAMEWORK_COMPATIBILITY.twilio.llm],
+          twilio_tts: [...FRAMEWORK_COMPATIBILITY.twilio.tts],
         },
-      });
-    }
-
-    const best = scaffoldable[0];
-    const isSameStack =
-      `${topPick.stt} ${topPick.sttModel} ${topPick.llm} ${topPick.llmModel} ${topPick.tts} ${topPick.ttsModel}` ===
-      `${best.stt} ${best.sttModel} ${best.llm} ${best.llmModel} ${best.tts} ${best.ttsModel}`;
-    const scoreDelta = Math.abs(topPick.score - best.score);
-    // Only show fallback notice when the difference is significant (>2 points)
-    const fallbackNotice = !isSameStack && scoreDelta > 2
-      ? `Note: Top-scoring stack (${topPick.stt} ${topPick.sttModel} + ${topPick.llm} ${topPick.llmModel} + ${topPick.tts} ${topPick.ttsModel}) is not scaffoldable with ${framework}. Using nearest supported stack (${scoreDelta.toFixed(1)}pt difference).`
-      : "";
-
-    const safeAgentName = toSafeSlug(agent_name || `${resolvedLanguage.toLowerCase()}-${resolvedUseCase}-agent`);
-    const name = safeAgentName || `${Date.now()}-voiceforge-agent`;
-    const dir = output_dir || `./${name}`;
-
-    const config = {
-      language: resolvedLanguage,
-      useCase: use_case,
-      stt: best.stt,
-      sttModel: best.sttModel,
-      llm: best.llm,
-      llmModel: best.llmModel,
-      tts: best.tts,
-      ttsModel: best.ttsModel,
-      agentName: name,
+      },
     };
+  }
 
-    let files;
-    try {
-      files = framework === "livekit"
-        ? getLiveKitAgentTemplate(config)
-        : getNextJSTemplate(config);
-    } catch (error) {
-      const markdown = `Scaffold generation failed: ${error instanceof Error ? error.message : "unknown error"}. Use a supported framework/provider combination.`;
-      return formatToolResponse(output_format, markdown, {
-        status: "error",
-        reason: "template-generation-failed",
-        error: error instanceof Error ? error.message : "unknown error",
-      });
-    }
+  const best = scaffoldable[0];
+  const isSameStack =
+    `${topPick.stt} ${topPick.sttModel} ${topPick.llm} ${topPick.llmModel} ${topPick.tts} ${topPick.ttsModel}` ===
+    `${best.stt} ${best.sttModel} ${best.llm} ${best.llmModel} ${best.tts} ${best.ttsModel}`;
+  const scoreDelta = Math.abs(topPick.score - best.score);
+  // Only show fallback notice when the difference is significant (>2 points)
+  const fallbackNotice = !isSameStack && scoreDelta > 2
+    ? `Note: Top-scoring stack (${topPick.stt} ${topPick.sttModel} + ${topPick.llm} ${topPick.llmModel} + ${topPick.tts} ${topPick.ttsModel}) is not scaffoldable with ${framework}. Using nearest supported stack (${scoreDelta.toFixed(1)}pt difference).`
+    : null;
 
-    const lines: string[] = [
-      `## VoiceForge Scaffold: ${name}`,
-      "",
-      `**Stack:** ${best.stt} ${best.sttModel} → ${best.llm} ${best.llmModel} → ${best.tts} ${best.ttsModel}`,
-      `**Framework:** ${framework === "livekit" ? "LiveKit Agents (Python)" : "Next.js + ElevenLabs (TypeScript)"}`,
-      ...(fallbackNotice ? [`${fallbackNotice}`] : []),
-      `**Expected:** ${best.latencyMs}ms latency, ${best.quality}/5 quality, $${best.costPerMin}/min`,
-      "",
-      `### Files to create in \`${dir}/\``,
-      "",
-    ];
+  return {
+    ok: true,
+    source: "ranked",
+    stack: best,
+    expected: best,
+    benchmark: "measured",
+    fallbackNotice,
+    filtered: { considered: matching.length, remaining: compliant.length, eliminated },
+    warnings: [],
+  };
+}
+
+/** What a bundled use case asks for that the chosen framework's scaffold leaves out. */
+function describeUseCaseTemplateGaps(template: UseCaseTemplate | undefined, useCase: string, framework: ScaffoldFramework): string[] {
+  if (!template) return [];
+  const gaps: string[] = [];
+  if (template.disclosure && (framework === "nextjs" || framework === "nextjs-routes")) {
+    gaps.push(`The ${useCase} disclosure is only requested in the system prompt; ${FRAMEWORK_LABELS[framework]} cannot script it, so make sure it is played before the agent speaks.`);
+  }
+  if (template.tools.length > 0 && framework !== "livekit") {
+    gaps.push(`The ${useCase} function tools (${template.tools.map((tool) => tool.name).join(", ")}) are only generated for the livekit framework; add them to this agent yourself.`);
+  }
+  return gaps;
+}
 
+async function scaffoldProject(args: ToolArgs<typeof SCAFFOLD_PARAMS>): Promise<ToolResponse> {
+  const { language, use_case, framework, agent_name, output_dir, write, dry_run, force, scoring, compliance, region, output_format } = args;
+  const liveKitOptions = resolveLiveKitAgentOptions({
+    version: args.livekit_version,
+    turnDetection: args.turn_detection,
+    noiseCancellation: args.noise_cancellation,
+  });
+  const liveKitOptionsIgnored = framework !== "livekit" &&
+    [args.livekit_version, args.turn_detection, args.noise_cancellation].some((option) => option !== undefined);
+  const resolvedLanguage = resolveLanguage(language);
+  const resolvedUseCase = resolveUseCase(use_case);
+  if (!resolvedLanguage) {
+    const suggestions = getLanguageSuggestions(language);
+    const markdown = `Language "${language}" is not recognized in benchmark corpus.\n` +
+      `Try one of: ${suggestions.join(", ")}.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unsupported-language",
+      requested_language: language,
+      suggestions,
+    });
+  }
+
+  const constraints = withUseCaseConstraints({
+    required_providers: [],
+    excluded_providers: [],
+    ...(compliance.length > 0 ? { compliance } : {}),
+    ...(region ? { region } : {}),
+  }, resolvedUseCase);
+  const selection = hasExplicitStack(args)
+    ? resolveExplicitStack(args, resolvedLanguage, framework, { certifications: constraints.compliance ?? [], region: constraints.region })
+    : selectRankedStack(resolvedLanguage, resolvedUseCase, framework, scoring, constraints);
+  if (!selection.ok) return formatToolResponse(output_format, selection.markdown, selection.payload);
+
+  const { stack, expected, fallbackNotice, filtered } = selection;
+  const warnings = [
+    ...selection.warnings,
+    ...(liveKitOptionsIgnored ? [`livekit_version, turn_detection and noise_cancellation only apply to the livekit framework; ignored for ${framework}.`] : []),
+    ...describeUseCaseTemplateGaps(USE_CASE_TEMPLATES[resolvedUseCase], resolvedUseCase, framework),
+  ];
+  const eliminated = filtered?.eliminated ?? [];
+  const useCaseNotice = describeUseCaseFallback(resolvedUseCase, [DEFAULT_WEIGHTS_FALLBACK, DEFAULT_PROMPT_FALLBACK]);
+
+  const safeAgentName = toSafeSlug(agent_name || `${resolvedLanguage.toLowerCase()}-${resolvedUseCase}-agent`);
+  const name = safeAgentName || `${Date.now()}-voiceforge-agent`;
+  const dir = output_dir || `./${name}`;
+  const useCaseTemplate = USE_CASE_TEMPLATES[resolvedUseCase];
+
+  const config = {
+    language: resolvedLanguage,
+    useCase: use_case,
+    stt: stack.stt,
+    sttModel: stack.sttModel,
+    llm: stack.llm,
+    llmModel: stack.llmModel,
+    tts: stack.tts,
+    ttsModel: stack.ttsModel,
+    languageCode: LANGUAGE_ALIASES[normalizeTerm(resolvedLanguage)]?.[0] ?? "en",
+    agentName: name,
+    systemPrompt: CUSTOM_USE_CASES[resolvedUseCase]?.systemPrompt
+      ?? (useCaseTemplate ? useCaseSystemPrompt(useCaseTemplate, resolvedLanguage) : undefined),
+    ...(useCaseTemplate ? { useCaseTemplate } : {}),
+    ...(constraints.region ? { region: DEPLOYMENT_REGIONS[constraints.region] } : {}),
+    ...(constraints.compliance ? { compliance: constraints.compliance } : {}),
+  };
+
+  let files;
+  try {
+    files = framework === "livekit"
+      ? getLiveKitAgentTemplate(config, liveKitOptions)
+      : framework === "livekit-node"
+        ? getLiveKitNodeTemplate(config)
+        : framework === "pipecat"
+          ? getPipecatTemplate(config)
+          : framework === "twilio"
+            ? getTwilioTemplate(config)
+            : framework === "nextjs-routes"
+              ? getNextJSRoutesTemplate(config)
+              : getNextJSTemplate(config);
+  } catch (error) {
+    const markdown = `Scaffold generation failed: ${error instanceof Error ? error.message : "unknown error"}. Use a supported framework/provider combination.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "template-generation-failed",
+      error: error instanceof Error ? error.message : "unknown error",
+    });
+  }
+
+  const written = write || dry_run ? writeScaffold(SCAFFOLD_ROOT, dir, files, { dryRun: dry_run, force }) : null;
+  if (written && !written.ok && written.reason === "write-failed") {
+    const markdown = [
+      `Writing the scaffold failed: ${written.message}.`,
+      written.written.length > 0
+        ? `Already written to \`${dir}/\`: ${written.written.map((file) => `\`${file}\``).join(", ")}. Re-run once the problem is fixed; unchanged files are skipped.`
+        : "No files were written.",
+    ].join("\n");
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: written.reason,
+      output_dir: dir,
+      scaffold_root: SCAFFOLD_ROOT,
+      written_files: written.written,
+      error: written.message,
+    });
+  }
+  if (written && !written.ok) {
+    const markdown = `Scaffold files were not written: ${written.message}.
+` +
+      `Pass an output_dir inside ${SCAFFOLD_ROOT}, or start the server with --scaffold-root to allow another location.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: written.reason,
+      output_dir: dir,
+      scaffold_root: SCAFFOLD_ROOT,
+      error: written.message,
+    });
+  }
+  const report = written?.report ?? null;
+  const conflicts = report?.files.filter((file) => file.outcome === "conflict") ?? [];
+
+  const lines: string[] = [
+    `## VoiceForge Scaffold: ${name}`,
+    "",
+    `**Stack:** ${stack.stt} ${stack.sttModel} → ${stack.llm} ${stack.llmModel} → ${stack.tts} ${stack.ttsModel}${selection.source === "explicit" ? " (as requested)" : ""}`,
+    `**Framework:** ${FRAMEWORK_LABELS[framework]}`,
+    ...(framework === "livekit"
+      ? [`**LiveKit Agents:** ${liveKitOptions.version} · turn detection: ${liveKitOptions.turnDetection} · noise cancellation: ${liveKitOptions.noiseCancellation}`]
+      : []),
+    ...(fallbackNotice ? [`${fallbackNotice}`] : []),
+    expected
+      ? `**Expected:** ${expected.latencyMs}ms latency, ${expected.quality}/5 quality, $${expected.costPerMin}/min${estimateMark(expected)}`
+      : "**Expected:** no benchmark data",
+    ...warnings.map((warning) => `⚠️ ${warning}`),
+    ...(filtered && eliminated.length > 0
+      ? [
+          `**Constraints:** ${eliminated.map(describeConstraint).join(", ")} (${filtered.considered - filtered.remaining} of ${filtered.considered} stacks excluded)`,
+          ...formatEliminations(eliminated.filter((entry) => entry.rows.length > 0)),
+        ]
+      : []),
+    ...(useCaseNotice ? [`> ⚠️ ${useCaseNotice}`] : []),
+    "",
+  ];
+
+  if (report) {
+    lines.push(report.dryRun ? `### Dry run: \`${report.directory}/\`` : `### Written to \`${report.directory}/\``);
+    lines.push("");
+    report.files.forEach((file) => {
+      const label = FILE_OUTCOME_LABELS[file.outcome][report.dryRun ? "planned" : "done"];
+      lines.push(`- \`${file.path}\`: ${label}${file.reason ? ` (${file.reason})` : ""}`);
+    });
+    if (conflicts.length > 0) {
+      lines.push("");
+      lines.push(`⚠️ ${conflicts.length} file${conflicts.length === 1 ? "" : "s"} left untouched. Pass force: true to overwrite files whose content differs.`);
+    }
+    lines.push("");
+  } else {
+    lines.push(`### Files to create in \`${dir}/\``);
+    lines.push("");
     files.forEach((f) => {
-      const lang = f.path.endsWith(".py") ? "python" : f.path.endsWith(".tsx") ? "tsx" : f.path.endsWith(".yaml") ? "yaml" : f.path.endsWith(".md") ? "markdown" : "";
+      const lang = f.path.endsWith(".py") ? "python" : f.path.endsWith(".tsx") ? "tsx" : f.path.endsWith(".ts") ? "typescript" : f.path.endsWith(".json") ? "json" : f.path.endsWith(".yaml") ? "yaml" : f.path.endsWith(".md") ? "markdown" : "";
       // Use quadruple backticks for files that contain triple backticks (e.g., README.md)
       const fence = f.content.includes("```") ? "````" : "```";
       lines.push(`---`);
@@ -889,40 +2812,86 @@ server.tool(
       lines.push(fence);
       lines.push("");
     });
+  }
 
-    lines.push("### Next Steps");
-    lines.push("1. Create the directory and files above");
-    lines.push("2. Fill in your API keys in `.env`");
-    lines.push(`3. ${framework === "livekit" ? "Run `pip install -r requirements.txt && python agent.py dev`" : "Run `npm install && npm run dev`"}`);
-    lines.push("4. Test with a real conversation");
-    lines.push("");
-    lines.push("> Powered by VoiceForge — https://getvoiceforge.com");
+  lines.push("### Next Steps");
+  lines.push(report && !report.dryRun ? `1. \`cd ${report.directory}\`` : "1. Create the directory and files above");
+  lines.push("2. Fill in your API keys in `.env`");
+  lines.push(`3. ${framework === "livekit"
+    ? "Run `pip install -r requirements.txt && python agent.py dev`"
+    : framework === "pipecat"
+      ? "Run `pip install -r requirements.txt && python bot.py`"
+      : "Run `npm install && npm run dev`"}`);
+  lines.push("4. Test with a real conversation");
+  lines.push("");
+  lines.push("> Powered by VoiceForge — https://getvoiceforge.com");
+
+  return formatToolResponse(output_format, lines.join("\n"), {
+    status: conflicts.length > 0 ? "warning" : "ok",
+    ...(conflicts.length > 0 ? { reason: "file-conflicts" } : {}),
+    agent_name: name,
+    framework,
+    language: resolvedLanguage,
+    use_case: resolvedUseCase,
+    scoring_strategy: scoring,
+    stack: {
+      stt: stack.stt,
+      stt_model: stack.sttModel,
+      llm: stack.llm,
+      llm_model: stack.llmModel,
+      tts: stack.tts,
+      tts_model: stack.ttsModel,
+    },
+    ...(framework === "livekit"
+      ? {
+          livekit: {
+            version: liveKitOptions.version,
+            turn_detection: liveKitOptions.turnDetection,
+            noise_cancellation: liveKitOptions.noiseCancellation,
+          },
+        }
+      : {}),
+    file_count: files.length,
+    files,
+    output_dir: dir,
+    ...(report
+      ? {
+          write: {
+            root: report.root,
+            directory: report.directory,
+            dry_run: report.dryRun,
+            force: report.force,
+            created: report.files.filter((file) => file.outcome === "created").map((file) => file.path),
+            overwritten: report.files.filter((file) => file.outcome === "overwritten").map((file) => file.path),
+            skipped: report.files.filter((file) => file.outcome === "skipped").map((file) => file.path),
+            conflicts: conflicts.map(({ path, reason }) => ({ path, reason })),
+          },
+        }
+      : {}),
+    stack_source: selection.source,
+    benchmark: selection.benchmark,
+    warnings,
+    fallback_notice: fallbackNotice,
+    use_case_source: getUseCaseSource(resolvedUseCase),
+    use_case_notice: useCaseNotice,
+    ...(filtered && eliminated.length > 0 ? { constraints: { applied: constraints, ...filtered } } : {}),
+    expected: expected
+      ? {
+          latency_ms: expected.latencyMs,
+          quality: expected.quality,
+          cost_per_min: expected.costPerMin,
+          metrics_source: expected.metricsSource,
+          ...(expected.estimate ? { estimate: expected.estimate } : {}),
+        }
+      : null,
+  });
+}
 
-    return formatToolResponse(output_format, lines.join("\n"), {
-      status: "ok",
-      agent_name: name,
-      framework,
-      language: resolvedLanguage,
-      use_case: resolvedUseCase,
-      stack: {
-        stt: best.stt,
-        stt_model: best.sttModel,
-        llm: best.llm,
-        llm_model: best.llmModel,
-        tts: best.tts,
-        tts_model: best.ttsModel,
-      },
-      file_count: files.length,
-      files,
-      output_dir: dir,
-      fallback_notice: fallbackNotice || null,
-      expected: {
-        latency_ms: best.latencyMs,
-        quality: best.quality,
-        cost_per_min: best.costPerMin,
-      },
-    });
-  }
+server.tool(
+  "voiceforge_scaffold",
+  "Generate a complete voice AI project with the recommended STT+LLM+TTS stack, or with an explicit stack you choose. Creates all files needed to start building: agent code, config, environment variables, and README. Supports LiveKit Agents (Python or Node/TypeScript), Next.js (TypeScript), Pipecat (Python) and Twilio Media Streams telephony (Node/TypeScript) frameworks.",
+  SCAFFOLD_PARAMS,
+  scaffoldProject
 );
 
 // ─── Tool 5: Validate ───────────────────────────────────────────────
@@ -937,10 +2906,18 @@ server.tool(
     llm_model: z.string().describe("LLM model (e.g., 'gpt-4.1-mini')"),
     tts_provider: z.string().describe("TTS provider name (e.g., 'Cartesia')"),
     tts_model: z.string().describe("TTS model (e.g., 'sonic-3')"),
-    framework: z.enum(["all", "livekit", "nextjs"]).default("all").describe("Optional scaffold target"),
+    framework: z.enum(["all", ...SCAFFOLD_FRAMEWORKS]).default("all").describe("Optional scaffold target"),
+    estimate: z.boolean().default(false).describe(
+      "When no benchmark row matches, estimate metrics from per-component contributions instead of returning an error"
+    ),
+    required_features: REQUIRED_FEATURES_PARAM,
+    ...COMPLIANCE_PARAMS,
     output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
   },
-  async ({ stt_provider, stt_model, llm_provider, llm_model, tts_provider, tts_model, framework, output_format }) => {
+  async ({
+    stt_provider, stt_model, llm_provider, llm_model, tts_provider, tts_model, framework, estimate, required_features,
+    compliance, region, output_format,
+  }) => {
     const resolvedProviders = {
       stt: resolveProvider(stt_provider),
       llm: resolveProvider(llm_provider),
@@ -975,6 +2952,19 @@ server.tool(
       tts_model: tts_model.trim().toLowerCase(),
     };
 
+    const featureGaps = findFeatureGaps({
+      stt: normalizedCombo.stt_provider, sttModel: normalizedCombo.stt_model,
+      llm: normalizedCombo.llm_provider, llmModel: normalizedCombo.llm_model,
+      tts: normalizedCombo.tts_provider, ttsModel: normalizedCombo.tts_model,
+    }, required_features);
+    const complianceGaps = findComplianceGaps({
+      stt: normalizedCombo.stt_provider, llm: normalizedCombo.llm_provider, tts: normalizedCombo.tts_provider,
+    }, { certifications: compliance, region });
+    const stackWarnings = [
+      ...complianceGaps.map((gap) => `⚠️ ${describeComplianceGap(gap)}.`),
+      ...featureGaps.map((gap) => `⚠️ ${describeFeatureGap(gap)}.`),
+    ];
+
     const modelHints = {
       stt: getProviderModels(normalizedCombo.stt_provider, "stt"),
       llm: getProviderModels(normalizedCombo.llm_provider, "llm"),
@@ -1010,6 +3000,8 @@ server.tool(
           llm: modelHints.llm,
           tts: modelHints.tts,
         },
+        feature_gaps: featureGaps,
+        compliance_gaps: complianceGaps,
       };
       if (output_format === "json") {
         return formatToolResponse(output_format, markdown, warningPayload);
@@ -1044,13 +3036,69 @@ server.tool(
         ),
       };
 
+      const estimated = estimate
+        ? getEstimator("include").estimate({
+            stt: normalizedCombo.stt_provider,
+            sttModel: canonicalModel(normalizedCombo.stt_provider, "stt", normalizedCombo.stt_model),
+            llm: normalizedCombo.llm_provider,
+            llmModel: canonicalModel(normalizedCombo.llm_provider, "llm", normalizedCombo.llm_model),
+            tts: normalizedCombo.tts_provider,
+            ttsModel: canonicalModel(normalizedCombo.tts_provider, "tts", normalizedCombo.tts_model),
+          })
+        : null;
+
+      if (estimated?.ok) {
+        const entry = estimated.entry;
+        const details = entry.estimate;
+        const frameworkSupport = getFrameworkSupport(entry);
+        const markdown = [
+          `## VoiceForge Stack Validation`,
+          `**No benchmark for this exact stack — estimated:** ${entry.stt} ${entry.sttModel} → ${entry.llm} ${entry.llmModel} → ${entry.tts} ${entry.ttsModel}`,
+          `**Latency:** ~${entry.latencyMs}ms (95%: ${details.bounds.latencyMs[0]}–${details.bounds.latencyMs[1]}ms)`,
+          `**Quality:** ~${entry.quality}/5 (95%: ${details.bounds.quality[0]}–${details.bounds.quality[1]})`,
+          `**Cost:** ~$${entry.costPerMin}/min (95%: $${details.bounds.costPerMin[0]}–$${details.bounds.costPerMin[1]})`,
+          "",
+          `**Confidence:** ${details.confidence} — fitted on ${details.trainingRows} rows; components appear in ${details.componentSupport.stt}/${details.componentSupport.llm}/${details.componentSupport.tts} (STT/LLM/TTS) of them.`,
+          `- Languages every component was benchmarked in: ${entry.languages.join(", ") || "none in common"}`,
+          ...formatFrameworkSupport(frameworkSupport),
+          ...(stackWarnings.length > 0 ? ["", ...stackWarnings] : []),
+          "",
+          `> Measure this stack and load it with \`voiceforge_ingest\` to replace the estimate.`,
+        ].join("\n");
+        return formatToolResponse(output_format, markdown, {
+          status: "estimated",
+          reason: "no-exact-match",
+          estimated_benchmark: {
+            stt: entry.stt,
+            stt_model: entry.sttModel,
+            llm: entry.llm,
+            llm_model: entry.llmModel,
+            tts: entry.tts,
+            tts_model: entry.ttsModel,
+            latency_ms: entry.latencyMs,
+            quality: entry.quality,
+            cost_per_min: entry.costPerMin,
+            languages: entry.languages,
+            estimate: details,
+          },
+          framework_support: frameworkSupport,
+          requested_stack: normalizedCombo,
+          model_warnings: unknownModels,
+          feature_gaps: featureGaps,
+          compliance_gaps: complianceGaps,
+        });
+      }
+
       const markdown = [
         `No exact benchmark match found for your stack.`,
         `Try this provider combination (if available in benchmark data): STT=${providerHint.stt.join(", ") || "Deepgram, OpenAI, Google, AssemblyAI, Speechmatics"}, LLM=${providerHint.llm.join(", ") || "OpenAI, Anthropic, Google, Groq, ElevenLabs"}, TTS=${providerHint.tts.join(", ") || "Cartesia, ElevenLabs, PlayHT, Rime"}.`,
         unknownModels.length > 0
           ? `Model warning(s): ${unknownModels.join(", ")} are not in provider model catalog.`
           : "",
-      ].filter(Boolean).join("\n");
+        estimated
+          ? `Could not estimate: ${describeEstimateFailure(estimated)}.`
+          : `Pass estimate: true to estimate metrics for this stack from per-component benchmark data.`,
+      ].filter(Boolean).concat(stackWarnings.length > 0 ? ["", ...stackWarnings] : []).join("\n");
       return formatToolResponse(output_format, markdown, {
         status: "error",
         reason: "no-exact-match",
@@ -1061,13 +3109,15 @@ server.tool(
           tts: providerHint.tts,
         },
         model_warnings: unknownModels,
+        feature_gaps: featureGaps,
+        compliance_gaps: complianceGaps,
+        ...(estimated ? { estimate_unavailable: describeEstimateFailure(estimated) } : {}),
       });
     }
 
     const scored = rankBenchmarks(matches, getUseCaseWeights("customer-support"));
     const top = scored[0];
-    const compatLiveKit = isScaffoldCompatible(top, "livekit");
-    const compatNextjs = isScaffoldCompatible(top, "nextjs");
+    const frameworkSupport = getFrameworkSupport(top);
 
     const lines: string[] = [
       ...(unknownModels.length > 0 && output_format === "markdown"
@@ -1085,21 +3135,28 @@ server.tool(
       `**Cost:** $${top.costPerMin}/min`,
       "",
       `**Benchmark matches:** ${matches.length}`,
-      `- LiveKit scaffold: ${compatLiveKit ? "supported" : "not supported"}`,
-      `- Next.js/ElevenLabs scaffold: ${compatNextjs ? "supported" : "not supported"}`,
+      ...formatFrameworkSupport(frameworkSupport),
     ];
 
-    if (framework === "livekit" && !compatLiveKit) {
+    if (framework === "livekit" && !frameworkSupport.livekit) {
       lines.push("");
       lines.push("⚠️ This combination is not scaffoldable with LiveKit in current templates.");
     }
-    if (framework === "nextjs" && !compatNextjs) {
+    if (framework === "nextjs" && !frameworkSupport.nextjs) {
+      lines.push("");
+      lines.push("⚠️ This combination is not scaffoldable with Next.js in current templates (ElevenLabs TTS required; use nextjs-routes for other providers).");
+    }
+    if (framework !== "all" && framework !== "livekit" && framework !== "nextjs" && !frameworkSupport[framework]) {
       lines.push("");
-      lines.push("⚠️ This combination is not scaffoldable with Next.js in current templates (ElevenLabs TTS required).");
+      lines.push(`⚠️ This combination is not scaffoldable with ${FRAMEWORK_LABELS[framework]} in current templates (${unsupportedScaffoldStages(top, framework).map((stage) => `${stage.toUpperCase()} ${top[stage]}`).join(", ")} not supported).`);
+    }
+    if (stackWarnings.length > 0) {
+      lines.push("", ...stackWarnings);
     }
 
     return formatToolResponse(output_format, lines.join("\n"), {
-      status: "ok",
+      status: complianceGaps.length > 0 || featureGaps.length > 0 ? "warning" : "ok",
+      ...(complianceGaps.length > 0 ? { reason: "non-compliant" } : featureGaps.length > 0 ? { reason: "missing-features" } : {}),
       matched_benchmark: {
         stt: top.stt,
         stt_model: top.sttModel,
@@ -1112,12 +3169,11 @@ server.tool(
         cost_per_min: top.costPerMin,
       },
       benchmark_matches: matches.length,
-      framework_support: {
-        livekit: compatLiveKit,
-        nextjs: compatNextjs,
-      },
+      framework_support: frameworkSupport,
       requested_stack: normalizedCombo,
       model_warnings: unknownModels,
+      feature_gaps: featureGaps,
+      compliance_gaps: complianceGaps,
     });
   }
 );
@@ -1142,7 +3198,11 @@ server.tool(
       };
     });
     const livekitCount = all.filter((entry) => isScaffoldCompatible(entry, "livekit")).length;
+    const livekitNodeCount = all.filter((entry) => isScaffoldCompatible(entry, "livekit-node")).length;
     const nextjsCount = all.filter((entry) => isScaffoldCompatible(entry, "nextjs")).length;
+    const nextjsRoutesCount = all.filter((entry) => isScaffoldCompatible(entry, "nextjs-routes")).length;
+    const pipecatCount = all.filter((entry) => isScaffoldCompatible(entry, "pipecat")).length;
+    const twilioCount = all.filter((entry) => isScaffoldCompatible(entry, "twilio")).length;
     const fastest = [...all].sort((a, b) => a.latencyMs - b.latencyMs)[0];
     const highestQuality = [...all].sort((a, b) => b.quality - a.quality)[0];
     const cheapest = [...all].sort((a, b) => a.costPerMin - b.costPerMin)[0];
@@ -1150,30 +3210,74 @@ server.tool(
     const lines: string[] = [
       "## VoiceForge MCP Health",
       `- Total benchmark rows: ${all.length}`,
-      `- Supported use case profiles: ${Object.keys(USE_CASE_PRIORITIES).length}`,
+      `- Supported use case profiles: ${Object.keys(USE_CASE_PRIORITIES).length} (${Object.keys(CUSTOM_USE_CASES).length} custom from ${USE_CASE_REGISTRY.path})`,
       `- Supported languages: ${SUPPORTED_LANGUAGES.length}`,
       `- LiveKit scaffoldable rows: ${livekitCount}`,
+      `- LiveKit Node scaffoldable rows: ${livekitNodeCount}`,
       `- Next.js scaffoldable rows: ${nextjsCount}`,
+      `- Next.js API routes scaffoldable rows: ${nextjsRoutesCount}`,
+      `- Pipecat scaffoldable rows: ${pipecatCount}`,
+      `- Twilio scaffoldable rows: ${twilioCount}`,
       `- Fastest observed: ${fastest?.stt} + ${fastest?.llm} + ${fastest?.tts} (${fastest?.latencyMs}ms)`,
       `- Highest quality: ${highestQuality?.stt} + ${highestQuality?.llm} + ${highestQuality?.tts} (${highestQuality?.quality}/5)`,
       `- Cheapest: ${cheapest?.stt} + ${cheapest?.llm} + ${cheapest?.tts} ($${cheapest?.costPerMin}/min)`,
+      `- Team-local rows: ${LOCAL_BENCHMARKS.length} (${getStoredTurns(LOCAL_STORE).length} turns in ${LOCAL_STORE.path})`,
     ];
+    if (LOCAL_STORE.loadError) lines.push(`- ⚠️ Local store could not be read: ${LOCAL_STORE.loadError}`);
 
     if (verbose) {
       lines.push("", "### Coverage", ...byLanguage.map((entry) => `- ${entry.language}: ${entry.count}`));
     }
 
+    if (DATASET.loadErrors.length > 0) {
+      lines.push(
+        "",
+        `⚠️ Dataset ${DATASET.path} failed validation; serving bundled data instead.`,
+        ...DATASET.loadErrors.map((error) => `- ${error}`)
+      );
+    }
+    if (USE_CASE_REGISTRY.loadErrors.length > 0) {
+      lines.push(
+        "",
+        `⚠️ Use-case profiles in ${USE_CASE_REGISTRY.path} failed validation; only bundled use cases are available.`,
+        ...USE_CASE_REGISTRY.loadErrors.map((error) => `- ${error}`)
+      );
+    }
+
     lines.push("", `Last updated: ${now}`);
-    lines.push(`Data snapshot: ${DATA_SOURCE_UPDATED_AT}`);
+    lines.push(`Dataset: ${DATASET.name} (${DATASET.source}${DATASET.source === "file" ? `: ${DATASET.path}` : ""})`);
+    lines.push(`Data snapshot: ${DATASET.dataSnapshot}`);
     return formatToolResponse(output_format, lines.join("\n"), {
-      status: "ok",
+      status: DATASET.loadErrors.length > 0 || USE_CASE_REGISTRY.loadErrors.length > 0 ? "warning" : "ok",
       timestamp: now,
       total_benchmarks: all.length,
-      data_snapshot: DATA_SOURCE_UPDATED_AT,
+      data_snapshot: DATASET.dataSnapshot,
+      dataset: {
+        name: DATASET.name,
+        source: DATASET.source,
+        path: DATASET.path,
+        load_errors: DATASET.loadErrors,
+      },
+      local_store: {
+        path: LOCAL_STORE.path,
+        batches: LOCAL_STORE.batches.length,
+        turns: getStoredTurns(LOCAL_STORE).length,
+        rows: LOCAL_BENCHMARKS.length,
+        load_error: LOCAL_STORE.loadError,
+      },
       supported_use_cases: Object.keys(USE_CASE_PRIORITIES).length,
+      use_case_registry: {
+        path: USE_CASE_REGISTRY.path,
+        custom: Object.keys(CUSTOM_USE_CASES),
+        load_errors: USE_CASE_REGISTRY.loadErrors,
+      },
       supported_languages: SUPPORTED_LANGUAGES.length,
       livekit_scaffoldable_rows: livekitCount,
+      livekit_node_scaffoldable_rows: livekitNodeCount,
       nextjs_scaffoldable_rows: nextjsCount,
+      nextjs_routes_scaffoldable_rows: nextjsRoutesCount,
+      pipecat_scaffoldable_rows: pipecatCount,
+      twilio_scaffoldable_rows: twilioCount,
       fastest,
       highest_quality: highestQuality,
       cheapest,
@@ -1190,38 +3294,72 @@ server.tool(
   "List all supported voice AI providers with their models, strengths, and links. Covers STT (speech-to-text), LLM (language models), and TTS (text-to-speech) providers.",
   {
     category: z.enum(["all", "stt", "llm", "tts"]).default("all").describe("Filter by category"),
+    required_features: REQUIRED_FEATURES_PARAM.describe(
+      `Only list models with these capabilities (${PROVIDER_FEATURES.join(", ")}); features that don't apply to a category are ignored there`
+    ),
     output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
   },
-  async ({ category, output_format }) => {
+  async ({ category, required_features, output_format }) => {
     const lines: string[] = ["## VoiceForge Provider Directory", ""];
-    const payloadProviders: Record<string, { provider: string; models: string[]; strengths: string; url: string }[]> = {};
+    const payloadProviders: Record<string, {
+      provider: string;
+      models: string[];
+      strengths: string;
+      url: string;
+      capabilities: Record<string, ModelCapabilities>;
+    }[]> = {};
+
+    const formatCapabilities = (model: string, capabilities: ModelCapabilities | undefined): string => {
+      if (!capabilities) return `${model}: unknown`;
+      const context = capabilities.maxContextTokens ? ` (${capabilities.maxContextTokens.toLocaleString("en-US")} ctx)` : "";
+      return `${model}: ${capabilities.features.join(", ") || "none"}${context}`;
+    };
+
+    const renderCategory = (cat: ProviderCategory) => {
+      const applicable = required_features.filter((feature) => FEATURE_STAGES[feature].includes(cat));
+      const providers = Object.entries(PROVIDER_INFO[cat]).flatMap(([name, info]) => {
+        const models = info.models.filter((model) => {
+          const capabilities = getModelCapabilities(cat, name, model);
+          return applicable.every((feature) => capabilities?.features.includes(feature));
+        });
+        if (models.length === 0) return [];
+        const capabilities = Object.fromEntries(models.flatMap((model) => {
+          const found = getModelCapabilities(cat, name, model);
+          return found ? [[model, found]] : [];
+        }));
+        return [{ provider: name, models, strengths: info.strengths, url: info.url, capabilities }];
+      });
 
-    const renderCategory = (cat: string, data: Record<string, { url: string; models: string[]; strengths: string }>) => {
       lines.push(`### ${cat.toUpperCase()} Providers`);
       lines.push("");
-      lines.push("| Provider | Models | Strengths |");
-      lines.push("|----------|--------|-----------|");
-      for (const [name, info] of Object.entries(data)) {
-        lines.push(`| [${name}](${info.url}) | ${info.models.join(", ")} | ${info.strengths} |`);
+      if (applicable.length > 0) {
+        lines.push(`Models with: ${applicable.join(", ")}`);
+        lines.push("");
+      }
+      if (providers.length === 0) {
+        lines.push("_No models have every required feature._");
+      } else {
+        lines.push("| Provider | Models | Strengths | Capabilities |");
+        lines.push("|----------|--------|-----------|--------------|");
+        for (const provider of providers) {
+          const capabilities = provider.models.map((model) => formatCapabilities(model, provider.capabilities[model])).join("; ");
+          lines.push(`| [${provider.provider}](${provider.url}) | ${provider.models.join(", ")} | ${provider.strengths} | ${capabilities} |`);
+        }
       }
       lines.push("");
-      payloadProviders[cat] = Object.entries(data).map(([name, info]) => ({
-        provider: name,
-        models: info.models,
-        strengths: info.strengths,
-        url: info.url,
-      }));
+      payloadProviders[cat] = providers;
     };
 
-    if (category === "all" || category === "stt") renderCategory("stt", PROVIDER_INFO.stt);
-    if (category === "all" || category === "llm") renderCategory("llm", PROVIDER_INFO.llm);
-    if (category === "all" || category === "tts") renderCategory("tts", PROVIDER_INFO.tts);
+    if (category === "all" || category === "stt") renderCategory("stt");
+    if (category === "all" || category === "llm") renderCategory("llm");
+    if (category === "all" || category === "tts") renderCategory("tts");
 
     lines.push("> Data from production deployments across 8 languages at enterprise scale.");
 
     return formatToolResponse(output_format, lines.join("\n"), {
       status: "ok",
       category,
+      required_features,
       providers: output_format === "json" && category !== "all" ? payloadProviders[category] : payloadProviders,
       total: {
         stt: Object.keys(PROVIDER_INFO.stt).length,
@@ -1247,9 +3385,13 @@ server.tool(
     tts_model: z.string().describe("TTS model (e.g., 'sonic-3')"),
     language: z.string().default("English").describe("Primary language"),
     use_case: z.string().default("customer-support").describe("Use case"),
+    ...COMPLIANCE_PARAMS,
     output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
   },
-  async ({ agent_name, stt_provider, stt_model, llm_provider, llm_model, tts_provider, tts_model, language, use_case, output_format }) => {
+  async ({
+    agent_name, stt_provider, stt_model, llm_provider, llm_model, tts_provider, tts_model, language, use_case,
+    compliance, region, output_format,
+  }) => {
     const resolvedLanguage = resolveLanguage(language);
     const resolvedUseCase = resolveUseCase(use_case);
     if (!resolvedLanguage) {
@@ -1297,6 +3439,21 @@ server.tool(
     if (modelWarnings.stt) markdownOutput.push(`- STT model "${stt_model}" is not in known ${resolvedProviders.stt} catalog: ${modelHints.stt.join(", ")}`);
     if (modelWarnings.llm) markdownOutput.push(`- LLM model "${llm_model}" is not in known ${resolvedProviders.llm} catalog: ${modelHints.llm.join(", ")}`);
     if (modelWarnings.tts) markdownOutput.push(`- TTS model "${tts_model}" is not in known ${resolvedProviders.tts} catalog: ${modelHints.tts.join(", ")}`);
+    const profile = CUSTOM_USE_CASES[resolvedUseCase];
+    const certifications = [...new Set([...compliance, ...(profile?.constraints?.compliance ?? [])])];
+    const dataRegion = region ?? profile?.constraints?.region;
+    const complianceGaps = findComplianceGaps(
+      { stt: resolvedProviders.stt, llm: resolvedProviders.llm, tts: resolvedProviders.tts },
+      { certifications, region: dataRegion }
+    );
+    const deploymentRegion = dataRegion ? DEPLOYMENT_REGIONS[dataRegion] : "us-east-1";
+    const useCaseTemplate = USE_CASE_TEMPLATES[resolvedUseCase];
+    const systemPrompt = profile?.systemPrompt ?? (useCaseTemplate ? useCaseSystemPrompt(useCaseTemplate, resolvedLanguage) : [
+      `You are a voice AI agent for ${resolvedUseCase.replace(/-/g, " ")}.`,
+      `Communicate in ${resolvedLanguage}. Keep responses to 1-2 sentences.`,
+      "Be natural, warm, and helpful.",
+    ].join("\n"));
+    const useCaseNotice = describeUseCaseFallback(resolvedUseCase, [DEFAULT_PROMPT_FALLBACK]);
 
     const yaml = `# VoiceForge Agent Configuration
 # Generated by VoiceForge MCP — https://getvoiceforge.com
@@ -1326,9 +3483,7 @@ pipeline:
     temperature: 0.7
     max_tokens: 150
     system_prompt: |
-      You are a voice AI agent for ${resolvedUseCase.replace(/-/g, " ")}.
-      Communicate in ${resolvedLanguage}. Keep responses to 1-2 sentences.
-      Be natural, warm, and helpful.
+${systemPrompt.split("\n").map((line) => `      ${line}`.trimEnd()).join("\n")}
 
   tts:
     provider: ${resolvedProviders.tts.toLowerCase()}
@@ -1353,8 +3508,8 @@ monitoring:
 
 deployment:
   replicas: 2
-  region: us-east-1
-  canary:
+  region: ${deploymentRegion}
+${certifications.length > 0 ? `  compliance: [${certifications.join(", ")}]\n` : ""}  canary:
     enabled: true
     percentage: 10
     duration_min: 30
@@ -1369,10 +3524,12 @@ deployment:
       "",
       "Save this as `voiceforge.yaml` in your project root.",
       ...(markdownOutput.length ? ["", "Model warnings:", ...markdownOutput] : []),
+      ...(complianceGaps.length ? ["", "Compliance warnings:", ...complianceGaps.map((gap) => `- ${describeComplianceGap(gap)}`)] : []),
+      ...(useCaseNotice ? ["", `> ⚠️ ${useCaseNotice}`] : []),
     ].join("\n");
 
   return formatToolResponse(output_format, markdown, {
-      status: modelWarnings.stt || modelWarnings.llm || modelWarnings.tts ? "warning" : "ok",
+      status: modelWarnings.stt || modelWarnings.llm || modelWarnings.tts || complianceGaps.length > 0 ? "warning" : "ok",
       config: {
         agent_name,
         use_case: resolvedUseCase,
@@ -1383,17 +3540,911 @@ deployment:
         tts_provider: resolvedProviders.tts,
         tts_model,
         language: resolvedLanguage,
+        region: deploymentRegion,
+        compliance: certifications,
       },
+      use_case_source: getUseCaseSource(resolvedUseCase),
+      use_case_notice: useCaseNotice,
       supported_models: modelHints,
       unknown_models: modelWarnings,
+      compliance_gaps: complianceGaps,
       yaml,
     });
   }
 );
 
+// ─── Tool 9: Ingest ──────────────────────────────────────────────────
+
+function resolveTurn(turn: RawTurn): { record: TurnRecord } | { error: string } {
+  const stack = turn.stack
+    ? parseComboInput(turn.stack)
+    : {
+        stt: { provider: turn.stt!, model: turn.sttModel },
+        llm: { provider: turn.llm!, model: turn.llmModel },
+        tts: { provider: turn.tts!, model: turn.ttsModel },
+      };
+  if (!stack) return { error: `line ${turn.line}: could not parse stack "${turn.stack}"` };
+
+  const stt = resolveProviderCategory(stack.stt.provider, "stt");
+  const llm = resolveProviderCategory(stack.llm.provider, "llm");
+  const tts = resolveProviderCategory(stack.tts.provider, "tts");
+  const problems: string[] = [];
+  if (!stt) problems.push(`unknown STT provider "${stack.stt.provider}"`);
+  if (!llm) problems.push(`unknown LLM provider "${stack.llm.provider}"`);
+  if (!tts) problems.push(`unknown TTS provider "${stack.tts.provider}"`);
+  if (!stack.stt.model || !stack.llm.model || !stack.tts.model) problems.push("every stage needs a model name");
+  const language = resolveLanguage(turn.language);
+  if (!language) problems.push(`unsupported language "${turn.language}"`);
+  if (problems.length > 0) return { error: `line ${turn.line}: ${problems.join("; ")}` };
+
+  const { line: _line, stack: _stack, ...measurements } = turn;
+  return {
+    record: {
+      ...measurements,
+      stt: stt!,
+      sttModel: canonicalModel(stt!, "stt", stack.stt.model!),
+      llm: llm!,
+      llmModel: canonicalModel(llm!, "llm", stack.llm.model!),
+      tts: tts!,
+      ttsModel: canonicalModel(tts!, "tts", stack.tts.model!),
+      language: language!,
+    },
+  };
+}
+
+server.tool(
+  "voiceforge_ingest",
+  "Ingest your own turn-level call logs (CSV or JSONL) into a local benchmark store. Turns are aggregated per stack into benchmark rows that voiceforge_recommend and voiceforge_benchmark can rank next to the production corpus.",
+  {
+    content: z.string().optional().describe("Log content, CSV with a header row or one JSON object per line"),
+    file_path: z.string().optional().describe("Path to a .csv or .jsonl log file (instead of content)"),
+    format: z.enum(["auto", "csv", "jsonl"]).default("auto").describe("Log format (default: detect from file extension or content)"),
+    label: z.string().optional().describe("Batch label shown in the store, e.g. 'week-40 production'"),
+    mode: z.enum(["append", "replace"]).default("append").describe("append to the store (default) or replace everything already ingested"),
+    dry_run: z.boolean().default(false).describe("Parse and aggregate without writing to the store"),
+    output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+  },
+  async ({ content, file_path, format, label, mode, dry_run, output_format }) => {
+    if (!content === !file_path) {
+      const markdown = "Provide exactly one of `content` or `file_path`.";
+      return formatToolResponse(output_format, markdown, { status: "error", reason: "missing-input" });
+    }
+
+    let text = content ?? "";
+    if (file_path) {
+      try {
+        text = readFileSync(file_path, "utf8");
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "could not be read";
+        return formatToolResponse(output_format, `Could not read ${file_path}: ${message}`, {
+          status: "error",
+          reason: "unreadable-file",
+          file_path,
+          error: message,
+        });
+      }
+    }
+
+    const logFormat = format === "auto" ? detectTurnLogFormat(text, file_path) : format;
+    const parsed = parseTurnLog(text, logFormat);
+    const resolved = parsed.turns.map(resolveTurn);
+    const records = resolved.flatMap((result) => ("record" in result ? [result.record] : []));
+    const rejected = [...parsed.errors, ...resolved.flatMap((result) => ("error" in result ? [result.error] : []))];
+
+    if (records.length === 0) {
+      const markdown = [
+        "No usable turns found in the log.",
+        "Each turn needs a stack, language, latency_ms, utmos (or mos) and cost_per_min.",
+        ...rejected.slice(0, 20).map((error) => `- ${error}`),
+      ].join("\n");
+      return formatToolResponse(output_format, markdown, {
+        status: "error",
+        reason: "no-valid-turns",
+        format: logFormat,
+        rejected_lines: rejected,
+      });
+    }
+
+    const batchRows = aggregateTurns(records);
+    const batch = {
+      id: randomUUID(),
+      label: label || (file_path ? path.basename(file_path) : `ingest ${new Date().toISOString()}`),
+      ingestedAt: new Date().toISOString(),
+      turns: records,
+    };
+
+    let droppedTurns = 0;
+    if (!dry_run) {
+      // Writing now would overwrite batches we failed to load; leave the file for the user to fix or move.
+      if (LOCAL_STORE.loadError) {
+        const markdown = `The local store could not be read, so nothing was written: ${LOCAL_STORE.loadError}\n` +
+          `Fix or move ${LOCAL_STORE.path} and restart the server, or re-run with \`dry_run\` to preview the rows.`;
+        return formatToolResponse(output_format, markdown, {
+          status: "error",
+          reason: "store-unreadable",
+          store_path: LOCAL_STORE.path,
+          error: LOCAL_STORE.loadError,
+        });
+      }
+
+      // Compact and write a copy; the in-memory store only changes once the file does.
+      const candidate = { ...LOCAL_STORE, batches: mode === "replace" ? [batch] : [...LOCAL_STORE.batches, batch] };
+      droppedTurns = compactLocalStore(candidate);
+      try {
+        writeLocalStore(candidate);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "write failed";
+        return formatToolResponse(output_format, `Could not write the local store at ${LOCAL_STORE.path}: ${message}`, {
+          status: "error",
+          reason: "store-write-failed",
+          store_path: LOCAL_STORE.path,
+          error: message,
+        });
+      }
+      LOCAL_STORE.batches = candidate.batches;
+      LOCAL_BENCHMARKS = aggregateTurns(getStoredTurns(LOCAL_STORE));
+      estimators.clear();
+    }
+
+    const lines: string[] = [
+      `## VoiceForge Ingest${dry_run ? " (dry run)" : ""}`,
+      `**Batch:** ${batch.label} | **Format:** ${logFormat} | **Turns accepted:** ${records.length} | **Rejected:** ${rejected.length}`,
+      "",
+      "| STT | LLM | TTS | Languages | Samples | Latency | P95 | Quality | Cost/min |",
+      "|-----|-----|-----|-----------|---------|---------|-----|---------|----------|",
+      ...batchRows.map((row) =>
+        `| ${row.stt} ${row.sttModel} | ${row.llm} ${row.llmModel} | ${row.tts} ${row.ttsModel} | ${row.languages.join(", ")} | ${row.sampleSize} | ${row.latencyMs}ms | ${row.latencyPercentiles?.p95}ms | ${row.quality}/5 | $${row.costPerMin} |`
+      ),
+    ];
+    if (rejected.length > 0) {
+      lines.push("", "### Rejected lines", ...rejected.slice(0, 20).map((error) => `- ${error}`));
+      if (rejected.length > 20) lines.push(`- …and ${rejected.length - 20} more`);
+    }
+    lines.push(
+      "",
+      dry_run
+        ? "Nothing was written. Re-run without `dry_run` to store these rows."
+        : `Stored in \`${LOCAL_STORE.path}\` (${LOCAL_BENCHMARKS.length} team-local rows total). Use \`local_data\` on \`voiceforge_recommend\` / \`voiceforge_benchmark\` to include, exclude or isolate them.`
+    );
+    if (droppedTurns > 0) {
+      lines.push(`Dropped ${droppedTurns} older turns to keep the newest ${MAX_TURNS_PER_STACK_LANGUAGE} per stack and language.`);
+    }
+
+    return formatToolResponse(output_format, lines.join("\n"), {
+      status: rejected.length > 0 ? "warning" : "ok",
+      dry_run,
+      mode,
+      format: logFormat,
+      batch: { id: batch.id, label: batch.label, ingested_at: batch.ingestedAt },
+      accepted_turns: records.length,
+      rejected_lines: rejected,
+      rows: batchRows,
+      store: {
+        path: LOCAL_STORE.path,
+        batches: LOCAL_STORE.batches.length,
+        total_local_rows: LOCAL_BENCHMARKS.length,
+        dropped_turns: droppedTurns,
+      },
+    });
+  }
+);
+
+// ─── Tool 10: Pareto ─────────────────────────────────────────────────
+
+server.tool(
+  "voiceforge_pareto",
+  "Show the trade-off frontier for a language: the stacks no other stack beats on latency, quality and cost at once. Every dominated stack names the stack that beats it and by how much.",
+  {
+    language: z.string().describe(`Target language. Supported: ${SUPPORTED_LANGUAGES.join(", ")}`),
+    provider: z.string().optional().describe("Only consider stacks using this provider (e.g., 'Deepgram')"),
+    use_case: z.string().optional().describe("Order the frontier by this use case's weights (default: balanced)"),
+    latency_basis: z.enum(["mean", "p95"]).default("mean").describe("Compare latency on the mean (default) or on p95"),
+    local_data: LOCAL_DATA_PARAM,
+    output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+  },
+  async ({ language, provider, use_case, latency_basis, local_data, output_format }) => {
+    const resolvedLanguage = resolveLanguage(language);
+    if (!resolvedLanguage) {
+      const suggestions = getLanguageSuggestions(language);
+      const markdown = `Language "${language}" is not recognized.\nTry one of: ${suggestions.join(", ")}.`;
+      return formatToolResponse(output_format, markdown, {
+        status: "error",
+        reason: "unsupported-language",
+        requested_language: language,
+        suggestions,
+      });
+    }
+
+    const resolvedProvider = provider ? resolveProvider(provider) : null;
+    if (provider && !resolvedProvider) {
+      const markdown = `Provider "${provider}" is not recognized.\nTry: ${listKnownProviders().join(", ")}`;
+      return formatToolResponse(output_format, markdown, {
+        status: "error",
+        reason: "unsupported-provider",
+        requested_provider: provider,
+        supported_providers: listKnownProviders(),
+      });
+    }
+
+    const rows = getBenchmarkRows(local_data)
+      .filter((b) => supportsLanguage(b, resolvedLanguage))
+      .filter((b) => !resolvedProvider || stagesUsing(b, resolvedProvider).length > 0)
+      .map((b) => applyLanguageMetrics(b, resolvedLanguage));
+
+    if (rows.length === 0) {
+      const markdown = `No benchmark rows match ${resolvedLanguage}${resolvedProvider ? ` with ${resolvedProvider}` : ""}.`;
+      return formatToolResponse(output_format, markdown, {
+        status: "ok",
+        language: resolvedLanguage,
+        provider: resolvedProvider,
+        local_data,
+        frontier: [],
+        dominated: [],
+      });
+    }
+
+    const resolvedUseCase = use_case ? resolveUseCase(use_case) : null;
+    const weights = resolvedUseCase ? getUseCaseWeights(resolvedUseCase) : DEFAULT_WEIGHTS;
+    const useCaseNotice = resolvedUseCase ? describeUseCaseFallback(resolvedUseCase, [DEFAULT_WEIGHTS_FALLBACK]) : null;
+    const { frontier, dominated } = splitParetoFrontier(rankBenchmarks(rows, weights, latency_basis), latency_basis);
+
+    const lines: string[] = [
+      "## VoiceForge Pareto Frontier",
+      `**${frontier.length} of ${rows.length} stacks** for ${resolvedLanguage}${resolvedProvider ? ` with ${resolvedProvider}` : ""} are not beaten on latency${latency_basis === "p95" ? " (p95)" : ""}, quality and cost at once.`,
+      "",
+      "| # | STT | LLM | TTS | Latency | Quality | Cost/min | Score |",
+      "|---|-----|-----|-----|---------|---------|----------|-------|",
+      ...frontier.map((b, i) =>
+        `| ${i + 1} | ${b.stt} ${b.sttModel} | ${b.llm} ${b.llmModel} | ${b.tts} ${b.ttsModel}${localMark(b)} | ${latencyFor(b, latency_basis)}ms${fallbackMark(b)}${unknownP95Mark(b, latency_basis)} | ${b.quality}/5 | $${b.costPerMin} | ${b.score} |`
+      ),
+    ];
+    if (dominated.length > 0) {
+      lines.push(
+        "",
+        "### Dominated Stacks",
+        "",
+        "| Stack | Dominated by | Margin |",
+        "|-------|--------------|--------|",
+        ...dominated.map(({ row, dominatedBy, margin, dominatorCount }) =>
+          `| ${describeStack(row)}${localMark(row)} | ${describeStack(dominatedBy)}${dominatorCount > 1 ? ` (+${dominatorCount - 1} more)` : ""} | ${formatMargin(margin)} |`
+        )
+      );
+    }
+    const fallbackNote = describeAggregateFallback(rows, resolvedLanguage);
+    if (fallbackNote) lines.push("", fallbackNote);
+    const unknownP95Note = describeUnknownP95(rows, latency_basis);
+    if (unknownP95Note) lines.push("", unknownP95Note);
+    lines.push("", `_Frontier ordered by ${resolvedUseCase ? `${resolvedUseCase} weights` : "balanced weights"}; the score is a tie-breaker, not a filter._`);
+    if (useCaseNotice) lines.push("", `> ⚠️ ${useCaseNotice}`);
+
+    return formatToolResponse(output_format, lines.join("\n"), {
+      status: "ok",
+      language: resolvedLanguage,
+      provider: resolvedProvider,
+      use_case: resolvedUseCase,
+      use_case_source: resolvedUseCase ? getUseCaseSource(resolvedUseCase) : null,
+      use_case_notice: useCaseNotice,
+      latency_basis,
+      local_data,
+      considered: rows.length,
+      aggregate_fallback_count: countAggregateFallbacks(rows),
+      p95_unknown_count: countUnknownP95(rows, latency_basis),
+      frontier,
+      dominated: dominated.map(({ row, dominatedBy, margin, dominatorCount }) => ({
+        stack: describeStack(row),
+        row,
+        dominated_by: describeStack(dominatedBy),
+        dominator_count: dominatorCount,
+        margin: {
+          latency_ms: margin.latencyMs,
+          quality: margin.quality,
+          cost_per_min: margin.costPerMin,
+        },
+      })),
+    });
+  }
+);
+
+// ─── Tool 11: Ask ────────────────────────────────────────────────────
+
+type AskIntent = "recommend" | "compare" | "scaffold";
+type OptimizeFor = "balanced" | "latency" | "quality" | "cost";
+
+type AskInterpretation = {
+  intent: AskIntent;
+  languages: string[];
+  use_case: string | null;
+  optimize_for: OptimizeFor;
+  framework: ScaffoldFramework | null;
+  combos: [string, string] | null;
+  constraints: {
+    max_latency_ms?: number;
+    max_cost_per_min?: number;
+    min_quality?: number;
+    required_providers: string[];
+    excluded_providers: string[];
+    required_features: ProviderFeature[];
+    compliance: Certification[];
+    region?: DataRegion;
+  };
+  /** The phrase behind every extracted value, so a wrong parse is easy to spot. */
+  matched: Array<{ phrase: string; field: string; value: string | number }>;
+  /** Defaults filled in, and extracted values the chosen tool cannot use. */
+  notes: string[];
+};
+
+const OPTIMIZE_PHRASES: Array<[string, OptimizeFor]> = [
+  ["lowest cost", "cost"], ["low cost", "cost"], ["cheapest", "cost"], ["cheaper", "cost"], ["cheap", "cost"],
+  ["budget", "cost"], ["affordable", "cost"], ["inexpensive", "cost"],
+  ["lowest latency", "latency"], ["low latency", "latency"], ["fastest", "latency"], ["quickest", "latency"],
+  ["snappiest", "latency"], ["fast", "latency"],
+  ["best quality", "quality"], ["highest quality", "quality"], ["high quality", "quality"], ["most natural", "quality"],
+  ["best sounding", "quality"], ["natural sounding", "quality"], ["premium", "quality"],
+];
+
+const FEATURE_PHRASES: Array<[string, ProviderFeature]> = [
+  ["speaker diarization", "diarization"], ["diarization", "diarization"],
+  ["word timestamps", "word_timestamps"], ["timestamps", "word_timestamps"],
+  ["custom vocabulary", "custom_vocabulary"], ["keyword boosting", "custom_vocabulary"],
+  ["function calling", "function_calling"], ["tool calling", "function_calling"], ["tool use", "function_calling"],
+  ["ssml", "ssml"], ["voice cloning", "voice_cloning"], ["cloned voice", "voice_cloning"],
+  ["barge in", "barge_in"], ["interruptions", "barge_in"], ["streaming", "streaming"],
+];
+
+const REGION_PHRASES: Array<[string, DataRegion]> = [
+  ["eu", "eu"], ["europe", "eu"], ["european", "eu"],
+  ["apac", "apac"], ["asia pacific", "apac"], ["southeast asia", "apac"], ["asia", "apac"],
+  ["usa", "us"], ["united states", "us"], ["us based", "us"], ["us hosted", "us"], ["us only", "us"],
+];
+
+const FRAMEWORK_PHRASES: Array<[string, ScaffoldFramework]> = [
+  ["livekit", "livekit"], ["live kit", "livekit"], ["nextjs", "nextjs"], ["next js", "nextjs"],
+  ["nextjs routes", "nextjs-routes"], ["next js routes", "nextjs-routes"], ["nextjs api routes", "nextjs-routes"], ["next js api routes", "nextjs-routes"],
+  ["livekit node", "livekit-node"], ["livekit typescript", "livekit-node"], ["livekit ts", "livekit-node"], ["livekit js", "livekit-node"],
+  ["live kit node", "livekit-node"],
+  ["pipecat", "pipecat"], ["pipe cat", "pipecat"],
+  ["twilio", "twilio"], ["telephony", "twilio"], ["pstn", "twilio"], ["phone calls", "twilio"],
+];
+
+const SCAFFOLD_WORDS = ["scaffold", "generate", "boilerplate", "starter", "bootstrap", "set up", "spin up", "build me", "create a project"];
+const NEGATION_WORDS = new Set(["no", "not", "without", "avoid", "except", "excluding", "exclude", "skip"]);
+
+/**
+ * Free-text language match that is stricter than resolveLanguage: prefix
+ * matches count only for whole language names ("thailand") or stems of five
+ * letters or more ("japan"), so everyday words like "can" stay unmatched.
+ */
+function matchLanguageTerm(term: string): string | null {
+  if (term.length < 3) return null;
+  const language = resolveLanguage(term);
+  if (!language) return null;
+  const name = normalizeTerm(language);
+  const isAlias = (LANGUAGE_ALIASES[name] ?? []).some((alias) => normalizeTerm(alias) === term);
+  const isWord = !term.includes(" ");
+  return term === name || isAlias || (isWord && term.startsWith(name)) || (isWord && term.length >= 5 && name.startsWith(term)) ? language : null;
+}
+
+/** Exact use-case names and aliases only (a trailing plural s is allowed); resolveUseCase then canonicalizes. */
+function matchUseCaseTerm(term: string): string | null {
+  const key = normalizeUseCase(term);
+  const singular = key.replace(/s$/, "");
+  const hit = Object.entries(USE_CASE_ALIASES).find(([useCase, aliases]) =>
+    [useCase, ...aliases].some((alias) => {
+      const normalized = normalizeUseCase(alias);
+      return normalized.length > 2 && (normalized === key || normalized === singular);
+    })
+  );
+  if (hit) return resolveUseCase(hit[0]);
+  return USE_CASE_PRIORITIES[key] ? key : null;
+}
+
+/** Splits "A vs B" questions into two combos parseComboInput accepts, or null. */
+function extractComboPair(question: string): [string, string] | null {
+  const sides = question.replace(/[?!]+$/, "").split(/\s+(?:vs\.?|versus|or|against|compared (?:to|with))\s+/i);
+  if (sides.length !== 2) return null;
+  const trim = (side: string): string => {
+    const parts = side.split(/\s*(?:\+|,|->)\s*/);
+    if (parts.length !== 3) return side;
+    const firstWords = parts[0].split(/\s+/);
+    const start = firstWords.findIndex((_, index) => {
+      const match = resolveProviderMatch(firstWords.slice(index).join(" "));
+      return match !== null && normalizeProviderInput(firstWords[index]) === match.matchedAlias.split(" ")[0];
+    });
+    parts[0] = start > 0 ? firstWords.slice(start).join(" ") : parts[0];
+    parts[2] = parts[2].split(/\s+(?:for|in|on|at|when|with|using)\s+/i)[0];
+    return parts.join(" + ");
+  };
+  const pair = sides.map(trim) as [string, string];
+  return pair.every((side) => parseComboInput(side) !== null) ? pair : null;
+}
+
+function interpretQuestion(question: string): AskInterpretation {
+  const text = question.toLowerCase();
+  const words = normalizeTerm(question).split(" ").filter(Boolean);
+  const matched: AskInterpretation["matched"] = [];
+  const consumed = new Set<number>();
+
+  /** Phrases of up to maxWords words, longest first, skipping words an earlier match already used. */
+  const scan = (maxWords: number, match: (phrase: string, start: number) => boolean): void => {
+    for (let size = maxWords; size >= 1; size--) {
+      for (let start = 0; start + size <= words.length; start++) {
+        const indexes = Array.from({ length: size }, (_, offset) => start + offset);
+        if (indexes.some((index) => consumed.has(index))) continue;
+        if (match(words.slice(start, start + size).join(" "), start)) indexes.forEach((index) => consumed.add(index));
+      }
+    }
+  };
+  const scanPhrases = <T,>(phrases: Array<[string, T]>, field: string, onMatch: (value: T) => void): void =>
+    scan(3, (phrase) => {
+      const hit = phrases.find(([candidate]) => candidate === phrase);
+      if (!hit) return false;
+      matched.push({ phrase, field, value: String(hit[1]) });
+      onMatch(hit[1]);
+      return true;
+    });
+
+  const constraints: AskInterpretation["constraints"] = {
+    required_providers: [],
+    excluded_providers: [],
+    required_features: [],
+    compliance: [],
+  };
+
+  const latency = text.match(/(?:under|below|less than|faster than|within|at most|max(?:imum)?|<=?|≤)\s*(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?)\b/);
+  if (latency) {
+    constraints.max_latency_ms = Math.round(Number(latency[1]) * (latency[2].startsWith("m") ? 1 : 1000));
+    matched.push({ phrase: latency[0], field: "max_latency_ms", value: constraints.max_latency_ms });
+  }
+  const dollars = text.match(/(?:under|below|less than|cheaper than|at most|max(?:imum)?|<=?|≤)\s*\$\s*(\d*\.?\d+)/);
+  const cents = text.match(/(?:under|below|less than|cheaper than|at most|max(?:imum)?)\s*(\d+(?:\.\d+)?)\s*(?:cents?|¢)/);
+  if (dollars || cents) {
+    constraints.max_cost_per_min = dollars ? Number(dollars[1]) : roundTo(Number(cents![1]) / 100, 4);
+    matched.push({ phrase: (dollars ?? cents)![0], field: "max_cost_per_min", value: constraints.max_cost_per_min });
+  }
+  const quality = text.match(/(?:quality|utmos|mos)\s*(?:score\s*)?(?:of\s*)?(?:at least|above|over|>=?|≥)\s*(\d(?:\.\d+)?)/) ??
+    text.match(/(?:at least|above|over|>=?|≥)\s*(\d(?:\.\d+)?)\s*(?:\/\s*5|utmos|mos|quality)/);
+  if (quality && Number(quality[1]) <= 5) {
+    constraints.min_quality = Number(quality[1]);
+    matched.push({ phrase: quality[0], field: "min_quality", value: constraints.min_quality });
+  }
+
+  const languages: string[] = [];
+  scan(2, (phrase) => {
+    const language = matchLanguageTerm(phrase);
+    if (!language) return false;
+    if (!languages.includes(language)) languages.push(language);
+    matched.push({ phrase, field: "language", value: language });
+    return true;
+  });
+
+  let useCase: string | null = null;
+  scan(3, (phrase) => {
+    if (useCase) return false;
+    useCase = matchUseCaseTerm(phrase);
+    if (useCase) matched.push({ phrase, field: "use_case", value: useCase });
+    return useCase !== null;
+  });
+
+  const optimizeHits = OPTIMIZE_PHRASES
+    .map(([phrase, goal]) => ({ phrase, goal, at: text.search(new RegExp(`\\b${phrase}\\b`)) }))
+    .filter((hit) => hit.at >= 0)
+    .sort((a, b) => a.at - b.at || b.phrase.length - a.phrase.length);
+  const optimizeFor = optimizeHits[0]?.goal ?? "balanced";
+  if (optimizeHits[0]) matched.push({ phrase: optimizeHits[0].phrase, field: "optimize_for", value: optimizeFor });
+
+  scanPhrases(FEATURE_PHRASES, "required_features", (feature) => {
+    if (!constraints.required_features.includes(feature)) constraints.required_features.push(feature);
+  });
+  scanPhrases(CERTIFICATIONS.map((item) => [item, item] as [string, Certification]), "compliance", (certification) => {
+    if (!constraints.compliance.includes(certification)) constraints.compliance.push(certification);
+  });
+  scanPhrases(REGION_PHRASES, "region", (region) => {
+    constraints.region ??= region;
+  });
+  let framework: ScaffoldFramework | null = null;
+  scanPhrases(FRAMEWORK_PHRASES, "framework", (value) => {
+    framework ??= value;
+  });
+
+  const combos = extractComboPair(question);
+  if (!combos) {
+    scan(2, (phrase, start) => {
+      const match = resolveProviderMatch(phrase);
+      if (!match || match.matchedAlias !== phrase) return false;
+      const negated = words.slice(Math.max(0, start - 2), start).some((word) => NEGATION_WORDS.has(word));
+      const list = negated ? constraints.excluded_providers : constraints.required_providers;
+      if (!list.includes(match.provider)) list.push(match.provider);
+      matched.push({ phrase, field: negated ? "excluded_providers" : "required_providers", value: match.provider });
+      return true;
+    });
+  }
+
+  const wantsScaffold = SCAFFOLD_WORDS.some((word) => new RegExp(`\\b${word}\\b`).test(text));
+  const intent: AskIntent = combos ? "compare" : wantsScaffold ? "scaffold" : "recommend";
+
+  const position = (phrase: string): number => {
+    const at = text.indexOf(phrase);
+    return at < 0 ? text.length : at;
+  };
+  matched.sort((a, b) => position(a.phrase) - position(b.phrase));
+
+  return { intent, languages, use_case: useCase, optimize_for: optimizeFor, framework, combos, constraints, matched, notes: [] };
+}
+
+function describeInterpretation(interpretation: AskInterpretation): string {
+  const { constraints } = interpretation;
+  const parts = [
+    ...(interpretation.combos ? [`${interpretation.combos[0]} vs ${interpretation.combos[1]}`] : []),
+    ...(interpretation.languages.length > 0 ? [interpretation.languages.join(" + ")] : []),
+    ...(interpretation.use_case ? [interpretation.use_case] : []),
+    ...(interpretation.optimize_for !== "balanced" ? [`optimize for ${interpretation.optimize_for}`] : []),
+    ...(constraints.max_latency_ms !== undefined ? [`latency ≤ ${constraints.max_latency_ms}ms`] : []),
+    ...(constraints.max_cost_per_min !== undefined ? [`cost ≤ $${constraints.max_cost_per_min}/min`] : []),
+    ...(constraints.min_quality !== undefined ? [`quality ≥ ${constraints.min_quality}/5`] : []),
+    ...constraints.required_providers.map((provider) => `uses ${provider}`),
+    ...constraints.excluded_providers.map((provider) => `no ${provider}`),
+    ...constraints.required_features.map((feature) => `supports ${feature}`),
+    ...constraints.compliance.map((certification) => `${certification.toUpperCase()} compliant`),
+    ...(constraints.region ? [`processes in ${constraints.region.toUpperCase()}`] : []),
+    ...(interpretation.framework ? [`${interpretation.framework} scaffold`] : []),
+  ];
+  return parts.join(" · ") || "nothing specific";
+}
+
+/** Tool responses are plain text; JSON-mode ones parse, the few text-only errors are wrapped. */
+function parseToolText(response: ToolResponse): unknown {
+  try {
+    return JSON.parse(response.content[0].text);
+  } catch {
+    return { status: "error", message: response.content[0].text };
+  }
+}
+
+/** Extracted values the target tool rejects, e.g. "under 0ms", come back as an error instead of a thrown ZodError. */
+function unparseableQuestion(
+  output_format: ToolOutputFormat,
+  question: string,
+  interpretation: AskInterpretation,
+  tool: string,
+  args: Record<string, unknown>,
+  error: z.ZodError
+): ToolResponse {
+  const issues = error.issues.map((issue) => `${issue.path.map(String).join(".") || "<root>"}: ${issue.message}`);
+  const markdown = [
+    "## VoiceForge Ask",
+    `**Interpreted as:** \`${tool}\` — ${describeInterpretation(interpretation)}`,
+    "",
+    "The question gave values the tool cannot use; rephrase them:",
+    ...issues.map((issue) => `- ${issue}`),
+  ].join("\n");
+  return formatToolResponse(output_format, markdown, {
+    status: "error",
+    reason: "unparseable-question",
+    question,
+    interpretation,
+    tool,
+    arguments: args,
+    issues,
+  });
+}
+
+const ASK_PARAMS = {
+  question: z.string().min(1).describe(
+    "Plain-language question, e.g. 'cheapest Japanese stack under 200ms for appointment reminders that works with LiveKit'"
+  ),
+  output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+};
+
+async function askQuestion({ question, output_format }: ToolArgs<typeof ASK_PARAMS>): Promise<ToolResponse> {
+  const interpretation = interpretQuestion(question);
+  const { intent, constraints } = interpretation;
+  const useCase = interpretation.use_case ?? "customer-support";
+  if (!interpretation.use_case && intent !== "compare") {
+    interpretation.notes.push("No use case recognized; assumed customer-support.");
+  }
+
+  if (intent !== "compare" && interpretation.languages.length === 0) {
+    const markdown = [
+      "## VoiceForge Ask",
+      `**Interpreted as:** ${describeInterpretation(interpretation)}`,
+      "",
+      `Name a language to get a ${intent === "scaffold" ? "scaffold" : "recommendation"}. Supported: ${SUPPORTED_LANGUAGES.join(", ")}.`,
+    ].join("\n");
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "missing-language",
+      question,
+      interpretation,
+      supported_languages: SUPPORTED_LANGUAGES,
+    });
+  }
+
+  let tool: string;
+  let args: Record<string, unknown>;
+  let response: ToolResponse;
+  if (intent === "compare") {
+    tool = "voiceforge_compare";
+    args = { combo_a: interpretation.combos![0], combo_b: interpretation.combos![1], language: interpretation.languages[0] };
+    if (interpretation.languages.length > 1) interpretation.notes.push(`Compared on ${interpretation.languages[0]} only.`);
+    const parsed = z.object(COMPARE_PARAMS).safeParse({ ...args, output_format });
+    if (!parsed.success) return unparseableQuestion(output_format, question, interpretation, tool, args, parsed.error);
+    response = await compareStacks(parsed.data);
+  } else if (intent === "scaffold") {
+    tool = "voiceforge_scaffold";
+    args = {
+      language: interpretation.languages[0],
+      use_case: useCase,
+      framework: interpretation.framework ?? "livekit",
+      compliance: constraints.compliance,
+      ...(constraints.region ? { region: constraints.region } : {}),
+    };
+    const unused = [
+      ...(interpretation.optimize_for !== "balanced" ? [`optimize for ${interpretation.optimize_for}`] : []),
+      ...(constraints.max_latency_ms !== undefined ? ["max latency"] : []),
+      ...(constraints.max_cost_per_min !== undefined ? ["max cost"] : []),
+      ...(constraints.min_quality !== undefined ? ["min quality"] : []),
+      ...(constraints.required_providers.length + constraints.excluded_providers.length > 0 ? ["provider choices"] : []),
+      ...(constraints.required_features.length > 0 ? ["required features"] : []),
+    ];
+    if (unused.length > 0) {
+      interpretation.notes.push(`Scaffold picks the top use-case stack and ignores: ${unused.join(", ")}. Ask for a recommendation to apply them.`);
+    }
+    if (!interpretation.framework) interpretation.notes.push("No framework named; assumed livekit.");
+    if (interpretation.languages.length > 1) interpretation.notes.push(`Scaffolded for ${interpretation.languages[0]} only.`);
+    const parsed = z.object(SCAFFOLD_PARAMS).safeParse({ ...args, output_format });
+    if (!parsed.success) return unparseableQuestion(output_format, question, interpretation, tool, args, parsed.error);
+    response = await scaffoldProject(parsed.data);
+  } else {
+    tool = "voiceforge_recommend";
+    args = {
+      ...(interpretation.languages.length === 1
+        ? { language: interpretation.languages[0] }
+        : { languages: interpretation.languages.map((language) => ({ language })) }),
+      use_case: useCase,
+      optimize_for: interpretation.optimize_for,
+      ...(constraints.max_latency_ms !== undefined ? { max_latency_ms: constraints.max_latency_ms } : {}),
+      ...(constraints.max_cost_per_min !== undefined ? { max_cost_per_min: constraints.max_cost_per_min } : {}),
+      ...(constraints.min_quality !== undefined ? { min_quality: constraints.min_quality } : {}),
+      required_providers: constraints.required_providers,
+      excluded_providers: constraints.excluded_providers,
+      required_features: constraints.required_features,
+      compliance: constraints.compliance,
+      ...(constraints.region ? { region: constraints.region } : {}),
+      ...(interpretation.framework ? { framework: interpretation.framework } : {}),
+    };
+    const parsed = z.object(RECOMMEND_PARAMS).safeParse({ ...args, output_format });
+    if (!parsed.success) return unparseableQuestion(output_format, question, interpretation, tool, args, parsed.error);
+    response = await recommendStacks(parsed.data);
+  }
+
+  if (output_format === "json") {
+    const result = parseToolText(response);
+    return formatToolResponse(output_format, "", {
+      status: (result as { status?: string }).status ?? "ok",
+      question,
+      interpretation,
+      tool,
+      arguments: args,
+      result,
+    });
+  }
+
+  const markdown = [
+    "## VoiceForge Ask",
+    `> ${question}`,
+    "",
+    `**Interpreted as:** \`${tool}\` — ${describeInterpretation(interpretation)}`,
+    ...interpretation.matched.map((entry) => `- "${entry.phrase}" → ${entry.field}: ${entry.value}`),
+    ...interpretation.notes.map((note) => `- ${note}`),
+    "",
+    "---",
+    "",
+    response.content[0].text,
+  ].join("\n");
+  return formatToolResponse(output_format, markdown, null);
+}
+
+server.tool(
+  "voiceforge_ask",
+  "Answer a plain-language question about voice stacks. Extracts language, use case, optimization goal, constraints and framework with deterministic rules (no LLM call), runs recommend, compare or scaffold, and returns the interpretation next to the answer.",
+  ASK_PARAMS,
+  askQuestion
+);
+
+// ─── Tool 12: Swap ───────────────────────────────────────────────────
+
+type SwapAlternative = LanguageBenchmark & {
+  /** latencyP95Ms is null unless both stacks were measured with a latency distribution. */
+  deltas: { latencyMs: number; latencyP95Ms: number | null; quality: number; costPerMin: number };
+  breaksFrameworks: ScaffoldFramework[];
+};
+
+const signedDelta = (value: number, digits: number, unit: (text: string) => string): string =>
+  value === 0 ? "±0" : `${value > 0 ? "+" : "−"}${unit(Math.abs(value).toFixed(digits))}`;
+
+const SWAP_PARAMS = {
+  stack: z.string().describe("Current stack in voiceforge_compare syntax, e.g., 'Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3'"),
+  stage: z.enum(["stt", "llm", "tts"]).describe("Stage to swap; the other two stay fixed"),
+  language: z.string().optional().describe("Compare on the figures measured for this language (default: all-language aggregate)"),
+  framework: z.enum(SCAFFOLD_FRAMEWORKS).optional().describe(
+    "Flag alternatives this scaffold framework cannot wire up (default: every framework the current stack supports)"
+  ),
+  local_data: LOCAL_DATA_PARAM,
+  output_format: z.enum(["markdown", "json"]).default("markdown").describe("Set to json for machine-readable output"),
+};
+
+async function swapStage({ stack, stage, language, framework, local_data, output_format }: ToolArgs<typeof SWAP_PARAMS>): Promise<ToolResponse> {
+  const resolvedLanguage = language ? resolveLanguage(language) : null;
+  if (language && !resolvedLanguage) {
+    const suggestions = getLanguageSuggestions(language);
+    const markdown = `Language "${language}" is not recognized.\nTry one of: ${suggestions.join(", ")}.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unsupported-language",
+      requested_language: language,
+      suggestions,
+    });
+  }
+
+  const rows = getBenchmarkRows(local_data);
+  const resolved = parseComboMatches(stack, rows);
+  if (!resolved) {
+    const markdown = `Could not parse stack "${stack}".\n` +
+      `Expected format: provider-only or provider + model per segment, separated by + or commas, ` +
+      `e.g. "Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3".\n` +
+      `Supported providers: ${listKnownProviders().join(", ")}`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "unparseable-combo",
+      stack,
+      supported_providers: listKnownProviders(),
+    });
+  }
+
+  // A stack the team re-measured is one candidate, resolved like the alternatives below.
+  const matches = [...measuredRowsByStack(resolved.entries).values()];
+  const baseEstimate = matches.length === 0 ? estimateParsedCombo(resolved.parsed, local_data) : null;
+  const baseRows = baseEstimate?.ok ? [baseEstimate.entry] : matches;
+  const base = rankBenchmarks(baseRows.map((row) => applyLanguageMetrics(row, resolvedLanguage)), DEFAULT_WEIGHTS)[0];
+  if (!base) {
+    const markdown = `No benchmark rows found for ${describeParsedCombo(resolved.parsed)}, and it could not be estimated: ${describeEstimateFailure(baseEstimate)}.\n` +
+      `Try adding exact model names from provider catalogs.`;
+    return formatToolResponse(output_format, markdown, {
+      status: "error",
+      reason: "no-matching-combo",
+      stack: describeParsedCombo(resolved.parsed),
+      estimate_unavailable: describeEstimateFailure(baseEstimate),
+    });
+  }
+
+  const { provider: providerField, model: modelField } = STAGE_FIELDS[stage];
+  const checkedFrameworks = framework
+    ? [framework]
+    : SCAFFOLD_FRAMEWORKS.filter((candidate) => isScaffoldCompatible(base, candidate));
+  const measuredKeys = measuredRowsByStack(rows);
+  const { components, estimate } = getEstimator(local_data);
+
+  const unsupported: string[] = [];
+  const alternatives: SwapAlternative[] = components[stage]
+    .filter((component) => !(component[providerField] === base[providerField] && modelMatches(component[modelField], base[modelField])))
+    .flatMap((component) => {
+      const swapped = {
+        stt: base.stt, sttModel: base.sttModel,
+        llm: base.llm, llmModel: base.llmModel,
+        tts: base.tts, ttsModel: base.ttsModel,
+        [providerField]: component[providerField],
+        [modelField]: component[modelField],
+      };
+      const measured = measuredKeys.get(stackKey(swapped));
+      const estimated = measured ? null : estimate(swapped);
+      const row = measured ?? (estimated?.ok ? estimated.entry : null);
+      if (row && resolvedLanguage && !supportsLanguage(row, resolvedLanguage)) {
+        unsupported.push(`${component[providerField]} ${component[modelField]}`);
+        return [];
+      }
+      return row ? [applyLanguageMetrics(row, resolvedLanguage)] : [];
+    })
+    .map((entry) => ({
+      ...entry,
+      deltas: {
+        latencyMs: entry.latencyMs - base.latencyMs,
+        latencyP95Ms: entry.latencyPercentiles && base.latencyPercentiles
+          ? entry.latencyPercentiles.p95 - base.latencyPercentiles.p95
+          : null,
+        quality: roundTo(entry.quality - base.quality, 2),
+        costPerMin: roundTo(entry.costPerMin - base.costPerMin, 4),
+      },
+      breaksFrameworks: checkedFrameworks.filter((candidate) => !isScaffoldCompatible(entry, candidate)),
+    }));
+  const ranked = rankBenchmarks(alternatives, DEFAULT_WEIGHTS);
+
+  const stageLabel = stage.toUpperCase();
+  const describeRow = (entry: LanguageBenchmark): string =>
+    `${entry.stt} ${entry.sttModel} → ${entry.llm} ${entry.llmModel} → ${entry.tts} ${entry.ttsModel}`;
+  const baseFrameworks = SCAFFOLD_FRAMEWORKS.filter((candidate) => isScaffoldCompatible(base, candidate));
+  const lines: string[] = [
+    `## VoiceForge Swap: ${stageLabel}`,
+    "",
+    `**Current:** ${describeRow(base)}${estimateMark(base)} — ${base.latencyMs}ms${fallbackMark(base)}, ${base.quality}/5, $${base.costPerMin}/min` +
+      ` (scaffolds: ${baseFrameworks.join(", ") || "none"})`,
+    `Figures: ${resolvedLanguage ? `${resolvedLanguage} where measured, all-language aggregate otherwise` : "all-language aggregate"}. Deltas are against the current stack; ranked by balanced score.`,
+    "",
+  ];
+
+  if (matches.length > 1) {
+    lines.push(`⚠️ ${matches.length} benchmark rows match "${describeParsedCombo(resolved.parsed)}"; using the best-scoring one. Name models to pick another.`, "");
+  }
+
+  if (ranked.length === 0) {
+    lines.push(`No other ${stageLabel} component appears in the benchmark corpus.`);
+  } else {
+    lines.push(`| # | ${stageLabel} | Latency | Δ | Quality | Δ | Cost | Δ | Flags |`);
+    lines.push("|---|-----|---------|---|---------|---|------|---|-------|");
+    ranked.forEach((entry, index) => {
+      const flags = [
+        entry.source === "estimate" ? "≈ estimated" : "",
+        ...entry.breaksFrameworks.map((candidate) => `breaks ${candidate}`),
+      ].filter(Boolean);
+      lines.push(
+        `| ${index + 1} | ${entry[providerField]} ${entry[modelField]}${localMark(entry)}${estimateMark(entry)} | ` +
+        `${entry.latencyMs}ms${fallbackMark(entry)} | ${signedDelta(entry.deltas.latencyMs, 0, (text) => `${text}ms`)} | ` +
+        `${entry.quality}/5 | ${signedDelta(entry.deltas.quality, 2, (text) => text)} | ` +
+        `$${entry.costPerMin}/min | ${signedDelta(entry.deltas.costPerMin, 4, (text) => `$${text}`)} | ${flags.join("; ") || "—"} |`
+      );
+    });
+  }
+  if (unsupported.length > 0) {
+    lines.push("", `Left out because they have no ${resolvedLanguage} support: ${unsupported.join(", ")}.`);
+  }
+  const fallbackNote = resolvedLanguage ? describeAggregateFallback([base, ...ranked], resolvedLanguage) : null;
+  if (fallbackNote) lines.push("", fallbackNote);
+  if (base.source === "estimate" || ranked.some((entry) => entry.source === "estimate")) lines.push("", ESTIMATE_FOOTNOTE);
+
+  return formatToolResponse(output_format, lines.join("\n"), {
+    status: "ok",
+    stage,
+    language: resolvedLanguage,
+    local_data,
+    current: {
+      ...base,
+      latencyP95Ms: latencyFor(base, "p95"),
+      scaffold_compatibility: baseFrameworks,
+    },
+    requested: describeParsedCombo(resolved.parsed),
+    candidate_count: matches.length,
+    ambiguity: matches.length > 1,
+    checked_frameworks: checkedFrameworks,
+    unsupported_language: unsupported,
+    alternatives: ranked.map(({ deltas, breaksFrameworks, ...entry }) => ({
+      provider: entry[providerField],
+      model: entry[modelField],
+      ...entry,
+      latencyP95Ms: latencyFor(entry, "p95"),
+      estimated: entry.source === "estimate",
+      deltas,
+      breaks_frameworks: breaksFrameworks,
+    })),
+  });
+}
+
+server.tool(
+  "voiceforge_swap",
+  "What-if analysis for one stage of a stack: keep the other two components and list every STT, LLM or TTS alternative from the benchmark corpus with latency, quality and cost deltas. Flags estimated alternatives and ones that break scaffold framework compatibility.",
+  SWAP_PARAMS,
+  swapStage
+);
+
 // ─── Start Server ────────────────────────────────────────────────────
 
 async function main() {
+  if (process.argv.includes("--print-dataset-schema")) {
+    process.stdout.write(`${JSON.stringify(getDatasetJsonSchema(), null, 2)}\n`);
+    return;
+  }
+  if (DATASET.loadErrors.length > 0) {
+    console.error(`VoiceForge: dataset ${DATASET.path} is invalid, using bundled data:\n${DATASET.loadErrors.join("\n")}`);
+  }
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
@@ -0,0 +1,72 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { expect, test } from "vitest";
+import { BENCHMARK_DATA, BENCHMARK_DATA_SNAPSHOT } from "../src/data/benchmarks.js";
+import { DATASET_ENV_VAR, loadDataset, resolveDatasetPath } from "../src/data/dataset.js";
+
+const fixture = (name: string) => path.resolve(process.cwd(), "tests", "fixtures", name);
+
+test("uses the bundled corpus when no dataset path is configured", () => {
+  const dataset = loadDataset(null);
+  expect(dataset.source).toBe("bundled");
+  expect(dataset.dataSnapshot).toBe(BENCHMARK_DATA_SNAPSHOT);
+  expect(dataset.benchmarks).toEqual(BENCHMARK_DATA.map((row) => ({ ...row, source: "bundled" })));
+});
+
+test("CLI flag takes precedence over the environment variable", () => {
+  const env = { [DATASET_ENV_VAR]: "/from/env.json" };
+  expect(resolveDatasetPath(["--dataset", "/from/flag.yaml"], env)).toBe("/from/flag.yaml");
+  expect(resolveDatasetPath(["--dataset=/from/flag.json"], env)).toBe("/from/flag.json");
+  expect(resolveDatasetPath([], env)).toBe("/from/env.json");
+  expect(resolveDatasetPath([], {})).toBeNull();
+});
+
+test("loads a YAML dataset and keeps bundled defaults for omitted sections", () => {
+  const dataset = loadDataset(fixture("team-dataset.yaml"));
+  expect(dataset.loadErrors).toEqual([]);
+  expect(dataset.source).toBe("file");
+  expect(dataset.name).toBe("acme-q3");
+  expect(dataset.dataSnapshot).toBe("2026-09-30T00:00:00Z");
+  expect(dataset.benchmarks).toHaveLength(1);
+  expect(dataset.benchmarks[0].source).toBe("dataset");
+  expect(dataset.supportedLanguages).toContain("Thai");
+});
+
+test("reports row-level errors and falls back to bundled data", () => {
+  const dataset = loadDataset(fixture("invalid-dataset.json"));
+  expect(dataset.source).toBe("bundled");
+  expect(dataset.benchmarks).toHaveLength(BENCHMARK_DATA.length);
+  expect(dataset.loadErrors).toEqual([
+    expect.stringMatching(/^benchmarks\[0\] \(Deepgram nova-3 \+ OpenAI gpt-4\.1-mini \+ Cartesia sonic-3\)\.latencyMs: /),
+  ]);
+});
+
+test("reports unknown languages once the row shape is valid", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "voiceforge-dataset-"));
+  const file = path.join(dir, "dataset.json");
+  writeFileSync(file, JSON.stringify({
+    data_snapshot: "2026-09-30",
+    benchmarks: [{
+      stt: "Deepgram", sttModel: "nova-3",
+      llm: "OpenAI", llmModel: "gpt-4.1",
+      tts: "Cartesia", ttsModel: "sonic-3",
+      latencyMs: 190, quality: 4.5, costPerMin: 0.01,
+      languages: ["Klingon"],
+      codeSwitching: [{ languages: ["Klingon", "Thai"], sttAccuracy: 0.9 }],
+    }],
+  }));
+
+  const dataset = loadDataset(file);
+  expect(dataset.source).toBe("bundled");
+  expect(dataset.loadErrors).toEqual([
+    'benchmarks[0] (Deepgram nova-3 + OpenAI gpt-4.1 + Cartesia sonic-3).languages: "Klingon" is not in supported_languages',
+    'benchmarks[0] (Deepgram nova-3 + OpenAI gpt-4.1 + Cartesia sonic-3).codeSwitching[0]: "Thai" is not listed in the row\'s languages',
+  ]);
+});
+
+test("reports unreadable dataset files", () => {
+  const dataset = loadDataset(fixture("missing.json"));
+  expect(dataset.source).toBe("bundled");
+  expect(dataset.loadErrors[0]).toMatch(/missing\.json/);
+});
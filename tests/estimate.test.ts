@@ -0,0 +1,74 @@
+import { expect, test } from "vitest";
+import { BENCHMARK_DATA, type BenchmarkEntry } from "../src/data/benchmarks.js";
+import { buildEstimator } from "../src/data/estimate.js";
+
+const STT = { fast: 40, slow: 90 };
+const LLM = { small: 80, large: 160 };
+const TTS = { lite: 30, studio: 70 };
+
+/** Rows generated from a known additive model, with a little deterministic noise. */
+function syntheticRows(skip: string[]): BenchmarkEntry[] {
+  const rows: BenchmarkEntry[] = [];
+  let i = 0;
+  for (const [sttModel, sttMs] of Object.entries(STT)) {
+    for (const [llmModel, llmMs] of Object.entries(LLM)) {
+      for (const [ttsModel, ttsMs] of Object.entries(TTS)) {
+        if (skip.includes(`${sttModel}/${llmModel}/${ttsModel}`)) continue;
+        const noise = (i++ % 3) - 1;
+        rows.push({
+          stt: "Deepgram", sttModel, llm: "OpenAI", llmModel, tts: "Cartesia", ttsModel,
+          latencyMs: sttMs + llmMs + ttsMs + noise * 4,
+          quality: 4 + (ttsModel === "studio" ? 0.4 : 0) + noise * 0.05,
+          costPerMin: 0.004 + (llmModel === "large" ? 0.006 : 0),
+          languages: ["English", ...(sttModel === "fast" ? ["Thai"] : [])],
+        });
+      }
+    }
+  }
+  return rows;
+}
+
+test("estimates an untested stack close to its additive truth, inside its bounds", () => {
+  const { estimate } = buildEstimator(syntheticRows(["slow/large/studio"]));
+  const result = estimate({ stt: "Deepgram", sttModel: "slow", llm: "OpenAI", llmModel: "large", tts: "Cartesia", ttsModel: "studio" });
+  expect(result.ok).toBe(true);
+  if (!result.ok) return;
+
+  const { entry } = result;
+  const truth = STT.slow + LLM.large + TTS.studio;
+  expect(entry.source).toBe("estimate");
+  expect(Math.abs(entry.latencyMs - truth)).toBeLessThan(40);
+  expect(entry.estimate.bounds.latencyMs[0]).toBeLessThanOrEqual(truth);
+  expect(entry.estimate.bounds.latencyMs[1]).toBeGreaterThanOrEqual(truth);
+  expect(entry.estimate.bounds.costPerMin[0]).toBeLessThanOrEqual(entry.costPerMin);
+  expect(entry.estimate.componentSupport).toEqual({ stt: 3, llm: 3, tts: 3 });
+  expect(entry.estimate.trainingRows).toBe(7);
+  // Only languages every component was benchmarked in.
+  expect(entry.languages).toEqual(["English"]);
+});
+
+test("refuses to estimate components no row has measured", () => {
+  const { estimate } = buildEstimator(syntheticRows([]));
+  const result = estimate({ stt: "Deepgram", sttModel: "fast", llm: "OpenAI", llmModel: "huge", tts: "Rime", ttsModel: "arcana-v3" });
+  expect(result).toEqual({ ok: false, missing: ["LLM OpenAI huge", "TTS Rime arcana-v3"] });
+});
+
+test("bounds on the bundled corpus are wide where components are rarely measured", () => {
+  const { estimate, components } = buildEstimator(BENCHMARK_DATA);
+  expect(components.stt.length).toBeGreaterThan(1);
+
+  const result = estimate({
+    stt: "Speechmatics", sttModel: "enhanced",
+    llm: "Anthropic", llmModel: "claude-sonnet-4-5",
+    tts: "ElevenLabs", ttsModel: "eleven_v3",
+  });
+  expect(result.ok).toBe(true);
+  if (!result.ok) return;
+
+  const [low, high] = result.entry.estimate.bounds.latencyMs;
+  expect(result.entry.estimate.confidence).toBe("low");
+  expect(low).toBeLessThan(result.entry.latencyMs);
+  expect(high).toBeGreaterThan(result.entry.latencyMs);
+  expect(high - low).toBeGreaterThan(50);
+  expect(result.entry.costPerMin).toBeGreaterThan(0);
+});
@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { expect, test } from "vitest";
+import { aggregateTurns, detectTurnLogFormat, parseTurnLog, type TurnRecord } from "../src/data/ingest.js";
+import { compactLocalStore, readLocalStore, type LocalStore } from "../src/data/local-store.js";
+
+const STACK = {
+  stt: "Deepgram", sttModel: "nova-3",
+  llm: "OpenAI", llmModel: "gpt-4.1-mini",
+  tts: "Cartesia", ttsModel: "sonic-3",
+};
+
+test("detects log format from file name, then content", () => {
+  expect(detectTurnLogFormat("stack,language", "calls.csv")).toBe("csv");
+  expect(detectTurnLogFormat("{}", "calls.ndjson")).toBe("jsonl");
+  expect(detectTurnLogFormat("  {\"stack\": \"x\"}")).toBe("jsonl");
+  expect(detectTurnLogFormat("stack,language\n")).toBe("csv");
+});
+
+test("parses CSV with quoted stack column and reports bad lines by number", () => {
+  const csv = [
+    "Stack,Language,Latency (ms),UTMOS,Cost per min,Call ID",
+    "\"Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3\",Thai,180,4.3,0.007,c1",
+    "\"Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3\",Thai,not-a-number,4.3,0.007,c1",
+    ",English,150,4.5,0.007,c2",
+  ].join("\n");
+
+  const { turns, errors } = parseTurnLog(csv, "csv");
+  expect(turns).toHaveLength(1);
+  expect(turns[0]).toMatchObject({ line: 2, language: "Thai", latencyMs: 180, quality: 4.3, costPerMin: 0.007, callId: "c1" });
+  expect(errors).toEqual([
+    "line 3: latency_ms must be a non-negative number",
+    expect.stringMatching(/^line 4: stack is missing/),
+  ]);
+});
+
+test("parses JSONL with explicit provider columns and MOS-only quality", () => {
+  const jsonl = [
+    JSON.stringify({ ...toColumns(STACK), language: "English", latency_ms: 160, mos: 4.1, cost_per_min: 0.006 }),
+    "not json",
+  ].join("\n");
+
+  const { turns, errors } = parseTurnLog(jsonl, "jsonl");
+  expect(turns[0]).toMatchObject({ stt: "Deepgram", ttsModel: "sonic-3", quality: 4.1, mos: 4.1 });
+  expect(errors).toHaveLength(1);
+  expect(errors[0]).toMatch(/^line 2: /);
+});
+
+test("aggregates turns per stack with percentiles, per-language figures and call counts", () => {
+  const turns: TurnRecord[] = [
+    ...[100, 120, 140, 160, 480].map((latencyMs, i) => ({
+      ...STACK, language: "Thai", callId: `thai-${i % 2}`, latencyMs, quality: 4.0, costPerMin: 0.008,
+    })),
+    { ...STACK, language: "English", callId: "en-1", latencyMs: 100, quality: 4.6, costPerMin: 0.006,
+      sttFinalizationMs: 30, llmTtftMs: 50, ttsTtfbMs: 20 },
+  ];
+
+  const [row, ...rest] = aggregateTurns(turns);
+  expect(rest).toHaveLength(0);
+  expect(row).toMatchObject({
+    ...STACK,
+    source: "local",
+    latencyMs: 183,
+    latencyPercentiles: { p50: 120, p95: 480, p99: 480 },
+    languages: ["Thai", "English"],
+    sampleSize: 3,
+    latencyBreakdown: { sttFinalizationMs: 30, llmTtftMs: 50, ttsTtfbMs: 20 },
+  });
+  expect(row.languageMetrics?.Thai).toMatchObject({ latencyMs: 200, quality: 4, sampleSize: 2 });
+  expect(row.languageMetrics?.English).toMatchObject({ latencyMs: 100, quality: 4.6, sampleSize: 1 });
+});
+
+test("compacts the local store to the newest turns per stack and language", () => {
+  const turn = (language: string, latencyMs: number): TurnRecord => ({ ...STACK, language, latencyMs, quality: 4, costPerMin: 0.007 });
+  const store: LocalStore = {
+    path: "unused",
+    loadError: null,
+    batches: [
+      { id: "old", label: "old", ingestedAt: "2025-01-01", turns: [turn("Thai", 100), turn("Thai", 110)] },
+      { id: "mid", label: "mid", ingestedAt: "2025-02-01", turns: [turn("Thai", 120), turn("English", 130)] },
+      { id: "new", label: "new", ingestedAt: "2025-03-01", turns: [turn("Thai", 140)] },
+    ],
+  };
+
+  expect(compactLocalStore(store, 2)).toBe(2);
+  expect(store.batches.map((batch) => batch.id)).toEqual(["mid", "new"]);
+  expect(store.batches.flatMap((batch) => batch.turns.map((t) => t.latencyMs))).toEqual([120, 130, 140]);
+});
+
+test("reads a malformed local store as empty and reports why", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "voiceforge-store-"));
+  try {
+    const storePath = path.join(dir, "local-benchmarks.json");
+    writeFileSync(storePath, JSON.stringify({ version: 2, batches: [] }));
+    expect(readLocalStore(storePath)).toMatchObject({ batches: [], loadError: expect.stringMatching(/expected version 1/) });
+
+    writeFileSync(storePath, JSON.stringify({ version: 1, batches: [{ id: "a", label: "a", ingestedAt: "2025-01-01" }] }));
+    expect(readLocalStore(storePath)).toMatchObject({ batches: [], loadError: expect.stringMatching(/batches\.0\.turns: Required/) });
+
+    writeFileSync(storePath, JSON.stringify({ version: 1, batches: [{ id: "a", label: "a", ingestedAt: "2025-01-01", turns: [{ ...STACK, language: "Thai", latencyMs: 120 }] }] }));
+    expect(readLocalStore(storePath).loadError).toMatch(/batches\.0\.turns\.0\.quality: Required/);
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function toColumns(stack: typeof STACK) {
+  return {
+    stt: stack.stt, stt_model: stack.sttModel,
+    llm: stack.llm, llm_model: stack.llmModel,
+    tts: stack.tts, tts_model: stack.ttsModel,
+  };
+}
@@ -1,3 +1,5 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import { afterAll, beforeAll, expect, test } from "vitest";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
@@ -12,6 +14,7 @@ type HealthPayload = {
   timestamp: string;
   total_benchmarks: number;
   data_snapshot: string;
+  dataset: { name: string; source: string; path: string | null; load_errors: string[] };
   supported_languages: number;
   coverage_by_language: Array<{ language: string; count: number }>;
   verbose: boolean;
@@ -22,10 +25,13 @@ type ComparePayload = {
   reason?: string;
   candidate_counts?: { a: number; b: number };
   matches_found?: { a: number; b: number };
-  winners?: { latency: string; quality: string; cost: string };
+  winners?: { latency: string; latency_p95: string; quality: string; cost: string };
+  latency_breakdown?: { a: Record<string, number> | null; b: Record<string, number> | null };
+  latency_percentiles?: { a: Record<string, number> | null; b: Record<string, number> | null };
 };
 
 const serverPath = path.resolve(process.cwd(), "dist", "index.js");
+const storeDir = mkdtempSync(path.join(os.tmpdir(), "voiceforge-e2e-"));
 
 let client: Client;
 
@@ -40,7 +46,12 @@ const parseToolPayload = (result: ToolResult): Record<string, unknown> => {
 beforeAll(async () => {
   const transport = new StdioClientTransport({
     command: process.execPath,
-    args: [serverPath],
+    args: [
+      serverPath,
+      "--store", path.join(storeDir, "local-benchmarks.json"),
+      "--use-cases", path.resolve(process.cwd(), "tests", "fixtures", "use-cases.yaml"),
+      "--scaffold-root", storeDir,
+    ],
     stderr: "pipe",
   });
 
@@ -54,19 +65,25 @@ beforeAll(async () => {
 
 afterAll(async () => {
   await client?.close();
+  rmSync(storeDir, { recursive: true, force: true });
 });
 
 test("exposes all expected tools", async () => {
   const toolsResult = await client.listTools();
   const names = toolsResult.tools.map((tool) => tool.name).sort();
   expect(names).toEqual([
+    "voiceforge_ask",
     "voiceforge_benchmark",
     "voiceforge_compare",
+    "voiceforge_compare_matrix",
     "voiceforge_config",
     "voiceforge_health",
+    "voiceforge_ingest",
+    "voiceforge_pareto",
     "voiceforge_providers",
     "voiceforge_recommend",
     "voiceforge_scaffold",
+    "voiceforge_swap",
     "voiceforge_validate",
   ].sort());
 });
@@ -83,6 +100,12 @@ test("health endpoint returns reproducible status payload", async () => {
   const payload = parseToolPayload(result as ToolResult) as HealthPayload;
   expect(payload.status).toBe("ok");
   expect(payload.data_snapshot).toBe("2026-02-15T00:00:00Z");
+  expect(payload.dataset).toEqual({
+    name: "voiceforge-bundled",
+    source: "bundled",
+    path: null,
+    load_errors: [],
+  });
   expect(payload.total_benchmarks).toBeGreaterThan(0);
   expect(payload.supported_languages).toBe(10);
   expect(payload.coverage_by_language).toHaveLength(10);
@@ -144,11 +167,14 @@ test("compare accepts alias-heavy provider input and returns structured winners"
   expect(payload.status).toBe("ok");
   expect(payload.winners).toEqual({
     latency: expect.any(String),
+    latency_p95: expect.any(String),
     quality: expect.any(String),
     cost: expect.any(String),
   });
   expect(payload.candidate_counts?.a).toBe(1);
   expect(payload.candidate_counts?.b).toBe(1);
+  expect(payload.latency_breakdown?.a).toEqual({ sttFinalizationMs: 48, llmTtftMs: 84, ttsTtfbMs: 36 });
+  expect(payload.latency_percentiles?.b).toEqual({ p50: 171, p95: 258, p99: 342 });
 });
 
 test("compare returns clear no-matching-combo error for invalid model", async () => {
@@ -170,6 +196,425 @@ test("compare returns clear no-matching-combo error for invalid model", async ()
   });
 });
 
+test("compare matrix ranks several stacks with winners and head-to-head records", async () => {
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_compare_matrix",
+    arguments: {
+      combos: ["Deepgram + OpenAI + Cartesia", "OpenAI + OpenAI + ElevenLabs", "Deepgram + Groq + Cartesia", "Deepgram + Google"],
+      output_format: "json",
+    },
+  }) as ToolResult);
+  expect(payload.status).toBe("error");
+  expect(payload.reason).toBe("unparseable-combo");
+  expect(payload.missing).toEqual(["D"]);
+
+  const matrix = parseToolPayload(await client.callTool({
+    name: "voiceforge_compare_matrix",
+    arguments: {
+      combos: ["Deepgram + OpenAI + Cartesia", "OpenAI + OpenAI + ElevenLabs", "Deepgram + Groq + Cartesia"],
+      output_format: "json",
+    },
+  }) as ToolResult) as {
+    status: string;
+    stacks: Array<{ label: string; scaffold_compatibility: Record<string, boolean>; ambiguity: boolean; record: { wins: number; losses: number; ties: number } }>;
+    winners: Record<string, string[]>;
+    head_to_head: Array<{ stacks: string[]; winner: string | null }>;
+  };
+  expect(matrix.status).toBe("ok");
+  expect(matrix.stacks.map((stack) => stack.label)).toEqual(["A", "B", "C"]);
+  expect(matrix.stacks[1].scaffold_compatibility).toEqual({ livekit: true, "livekit-node": true, nextjs: true, "nextjs-routes": true, pipecat: true, twilio: false });
+  expect(matrix.stacks[2].scaffold_compatibility).toEqual({ livekit: false, "livekit-node": true, nextjs: false, "nextjs-routes": true, pipecat: true, twilio: true });
+  expect(matrix.stacks.every((stack) => stack.ambiguity === false)).toBe(true);
+  expect(matrix.winners.quality).toEqual(["B"]);
+  expect(matrix.winners.language_coverage).toEqual(["A"]);
+  expect(matrix.head_to_head).toHaveLength(3);
+  for (const stack of matrix.stacks) {
+    expect(stack.record.wins + stack.record.losses + stack.record.ties).toBe(2);
+  }
+});
+
+test("swap lists alternatives for one stage with deltas and compatibility flags", async () => {
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_swap",
+    arguments: {
+      stack: "Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3",
+      stage: "llm",
+      output_format: "json",
+    },
+  }) as ToolResult) as {
+    status: string;
+    checked_frameworks: string[];
+    alternatives: Array<{
+      provider: string;
+      model: string;
+      stt: string;
+      tts: string;
+      estimated: boolean;
+      deltas: { latencyMs: number; latencyP95Ms: number | null };
+      breaks_frameworks: string[];
+    }>;
+  };
+  expect(payload.status).toBe("ok");
+  expect(payload.checked_frameworks).toEqual(["livekit", "livekit-node", "nextjs-routes", "pipecat", "twilio"]);
+  expect(payload.alternatives.some((alt) => alt.provider === "OpenAI" && alt.model === "gpt-4.1-mini")).toBe(false);
+  expect(payload.alternatives.every((alt) => alt.stt === "Deepgram" && alt.tts === "Cartesia")).toBe(true);
+
+  const groq = payload.alternatives.find((alt) => alt.provider === "Groq");
+  expect(groq?.estimated).toBe(false);
+  expect(groq?.breaks_frameworks).toEqual(["livekit"]);
+  expect(groq?.deltas.latencyMs).toBe(-12);
+
+  const estimated = payload.alternatives.find((alt) => alt.estimated);
+  expect(estimated?.deltas.latencyP95Ms).toBeNull();
+});
+
+test("scaffold writes files inside the scaffold root and reports conflicts on rerun", async () => {
+  const args = { language: "English", use_case: "sales", output_dir: "written-agent", write: true, output_format: "json" };
+  const dryRun = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { ...args, dry_run: true },
+  }) as ToolResult) as { status: string; write: { created: string[] } };
+  expect(dryRun.status).toBe("ok");
+  expect(dryRun.write.created).toContain("agent.py");
+  expect(existsSync(path.join(storeDir, "written-agent"))).toBe(false);
+
+  const first = parseToolPayload(await client.callTool({ name: "voiceforge_scaffold", arguments: args }) as ToolResult) as {
+    write: { directory: string; created: string[] };
+  };
+  expect(first.write.created).toContain("agent.py");
+  expect(readFileSync(path.join(first.write.directory, "agent.py"), "utf8")).toContain("livekit.plugins");
+
+  writeFileSync(path.join(first.write.directory, "agent.py"), "# edited by hand\n");
+  const rerun = parseToolPayload(await client.callTool({ name: "voiceforge_scaffold", arguments: args }) as ToolResult) as {
+    status: string;
+    reason: string;
+    write: { created: string[]; skipped: string[]; conflicts: Array<{ path: string }> };
+  };
+  expect(rerun.status).toBe("warning");
+  expect(rerun.reason).toBe("file-conflicts");
+  expect(rerun.write.created).toEqual([]);
+  expect(rerun.write.skipped).toContain("README.md");
+  expect(rerun.write.conflicts.map((file) => file.path)).toEqual(["agent.py"]);
+  expect(readFileSync(path.join(first.write.directory, "agent.py"), "utf8")).toBe("# edited by hand\n");
+
+  const escape = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { ...args, output_dir: "../outside-agent" },
+  }) as ToolResult);
+  expect(escape.status).toBe("error");
+  expect(escape.reason).toBe("outside-root");
+});
+
+test("scaffold generates an explicit stack and warns when it has no benchmark row", async () => {
+  const explicit = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: {
+      language: "English",
+      use_case: "sales",
+      stack: "Deepgram nova-3 + Anthropic claude-sonnet-4-5 + ElevenLabs eleven_v3",
+      output_format: "json",
+    },
+  }) as ToolResult) as {
+    status: string;
+    stack_source: string;
+    benchmark: string;
+    warnings: string[];
+    stack: Record<string, string>;
+    expected: { estimate?: unknown } | null;
+  };
+  expect(explicit.status).toBe("ok");
+  expect(explicit.stack_source).toBe("explicit");
+  expect(explicit.stack).toEqual({
+    stt: "Deepgram", stt_model: "nova-3",
+    llm: "Anthropic", llm_model: "claude-sonnet-4-5",
+    tts: "ElevenLabs", tts_model: "eleven_v3",
+  });
+  expect(explicit.benchmark).toBe("estimated");
+  expect(explicit.warnings[0]).toContain("No benchmark row");
+  expect(explicit.expected?.estimate).toBeDefined();
+
+  const filled = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "Thai", use_case: "sales", stack: "Deepgram + Anthropic + Cartesia", llm_model: "claude-sonnet-4-5", output_format: "json" },
+  }) as ToolResult) as { benchmark: string; warnings: string[]; stack: Record<string, string> };
+  expect(filled.benchmark).toBe("measured");
+  expect(filled.warnings).toEqual([]);
+  expect(filled.stack.tts_model).toBe("sonic-3");
+
+  const incompatible = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "English", use_case: "sales", stack: "Deepgram + Groq + Cartesia", output_format: "json" },
+  }) as ToolResult);
+  expect(incompatible.reason).toBe("framework-incompatible");
+  expect(incompatible.unsupported_stages).toEqual(["llm"]);
+
+  const unknownModel = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "English", use_case: "sales", stt_provider: "Deepgram", stt_model: "nova-9", llm_provider: "OpenAI", tts_provider: "Cartesia", output_format: "json" },
+  }) as ToolResult);
+  expect(unknownModel.reason).toBe("unsupported-model");
+  expect(unknownModel.unknown_models).toEqual(["stt"]);
+});
+
+test("scaffold generates a Pipecat bot with provider service classes", async () => {
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: {
+      language: "Thai",
+      use_case: "sales",
+      framework: "pipecat",
+      stack: "Deepgram nova-3 + Groq llama-4-maverick + Cartesia sonic-3",
+      output_format: "json",
+    },
+  }) as ToolResult) as { status: string; benchmark: string; files: Array<{ path: string; content: string }> };
+  expect(payload.status).toBe("ok");
+  expect(payload.benchmark).toBe("measured");
+  expect(payload.files.map((file) => file.path)).toEqual([".env.example", "bot.py", "requirements.txt", "README.md"]);
+
+  const bot = payload.files.find((file) => file.path === "bot.py")?.content ?? "";
+  expect(bot).toContain('live_options=LiveOptions(model="nova-3", language="th"),');
+  expect(bot).toContain('GroqLLMService(api_key=os.getenv("GROQ_API_KEY"), model="llama-4-maverick")');
+  expect(bot).toContain("CartesiaTTSService(");
+  expect(bot).toContain("context_aggregator.user()");
+  expect(payload.files.find((file) => file.path === "requirements.txt")?.content).toContain("pipecat-ai[daily,silero,deepgram,groq,cartesia]");
+
+  const livekitOnly = parseToolPayload(await client.callTool({
+    name: "voiceforge_validate",
+    arguments: {
+      stt_provider: "Deepgram", stt_model: "nova-3",
+      llm_provider: "Groq", llm_model: "llama-4-maverick",
+      tts_provider: "Cartesia", tts_model: "sonic-3",
+      output_format: "json",
+    },
+  }) as ToolResult);
+  expect(livekitOnly.framework_support).toEqual({ livekit: false, "livekit-node": true, nextjs: false, "nextjs-routes": true, pipecat: true, twilio: true });
+});
+
+test("scaffold generates a LiveKit Node agent sharing voiceforge.yaml with the Python template", async () => {
+  const args = {
+    language: "English",
+    use_case: "customer-support",
+    stack: "Deepgram nova-3 + OpenAI gpt-4.1-mini + ElevenLabs turbo_v2.5",
+    region: "us",
+    output_format: "json",
+  };
+  type Files = { status: string; files: Array<{ path: string; content: string }> };
+  const node = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { ...args, framework: "livekit-node" },
+  }) as ToolResult) as Files;
+  expect(node.status).toBe("ok");
+  expect(node.files.map((file) => file.path)).toEqual([".env.example", "src/agent.ts", "package.json", "tsconfig.json", "voiceforge.yaml", "README.md"]);
+  const fileOf = (payload: Files, path: string): string => payload.files.find((file) => file.path === path)?.content ?? "";
+
+  const agent = fileOf(node, "src/agent.ts");
+  expect(agent).toContain('new deepgram.STT({ model: "nova-3" })');
+  expect(agent).toContain('new elevenlabs.TTS({ modelID: "turbo_v2.5" })');
+  expect(agent).toContain("new voice.AgentSession({");
+  const pkg = JSON.parse(fileOf(node, "package.json")) as { dependencies: Record<string, string> };
+  expect(Object.keys(pkg.dependencies)).toEqual(expect.arrayContaining(["@livekit/agents", "@livekit/agents-plugin-deepgram", "@livekit/agents-plugin-openai", "@livekit/agents-plugin-elevenlabs", "@livekit/agents-plugin-silero"]));
+  expect(JSON.parse(fileOf(node, "tsconfig.json")).compilerOptions.module).toBe("NodeNext");
+
+  const python = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { ...args, framework: "livekit" },
+  }) as ToolResult) as Files;
+  expect(fileOf(node, "voiceforge.yaml")).toContain("deployment:\n  region: ");
+  expect(fileOf(node, "voiceforge.yaml")).toBe(fileOf(python, "voiceforge.yaml"));
+  expect(fileOf(node, ".env.example")).toBe(fileOf(python, ".env.example"));
+
+  const groq = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { ...args, stack: "Deepgram nova-3 + Groq llama-4-maverick + Cartesia sonic-3", framework: "livekit-node" },
+  }) as ToolResult) as Files;
+  expect(fileOf(groq, "src/agent.ts")).toContain('openai.LLM.withGroq({ model: "llama-4-maverick" })');
+
+  const unsupported = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { ...args, stack: "Deepgram nova-3 + Anthropic claude-sonnet-4-5 + Cartesia sonic-3", framework: "livekit-node" },
+  }) as ToolResult);
+  expect(unsupported.reason).toBe("framework-incompatible");
+  expect(unsupported.unsupported_stages).toEqual(["llm"]);
+});
+
+test("scaffold generates a Twilio Media Streams server with a mu-law codec and replay harness", async () => {
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: {
+      language: "English",
+      use_case: "debt-collections",
+      framework: "twilio",
+      stack: "AssemblyAI universal-3-pro + Anthropic claude-sonnet-4-5 + ElevenLabs turbo_v2.5",
+      output_format: "json",
+    },
+  }) as ToolResult) as { status: string; files: Array<{ path: string; content: string }> };
+  expect(payload.status).toBe("ok");
+  expect(payload.files.map((file) => file.path)).toEqual([
+    ".env.example", "src/server.ts", "src/pipeline.ts", "src/mulaw.ts", "src/stt.ts", "src/llm.ts", "src/tts.ts", "src/replay.ts",
+    "package.json", "tsconfig.json", "README.md",
+  ]);
+  const fileOf = (path: string): string => payload.files.find((file) => file.path === path)?.content ?? "";
+
+  expect(fileOf("src/server.ts")).toContain("<Stream url=\"wss://' + PUBLIC_HOST + '/media-stream\" />");
+  expect(fileOf("src/server.ts")).toContain('send({ event: "clear", streamSid })');
+  expect(fileOf("src/mulaw.ts")).toContain("export function decodeMulaw(");
+  expect(fileOf("src/mulaw.ts")).toContain("export function encodeMulaw(");
+  expect(fileOf("src/stt.ts")).toContain("wss://streaming.assemblyai.com/v3/ws");
+  expect(fileOf("src/stt.ts")).toContain('const LANGUAGE: string = "en";');
+  expect(fileOf("src/llm.ts")).toContain('model: "claude-sonnet-4-5"');
+  expect(fileOf("src/tts.ts")).toContain("output_format=pcm_8000");
+  expect(fileOf("src/replay.ts")).toContain("new CallPipeline(");
+  expect(JSON.parse(fileOf("package.json")).scripts.replay).toBe("tsx src/replay.ts");
+  expect(fileOf(".env.example")).toContain("ELEVENLABS_VOICE_ID=");
+
+  const unsupported = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: {
+      language: "English",
+      use_case: "debt-collections",
+      framework: "twilio",
+      stack: "OpenAI gpt-4o-transcribe + OpenAI gpt-4.1-mini + ElevenLabs turbo_v2.5",
+      output_format: "json",
+    },
+  }) as ToolResult);
+  expect(unsupported.reason).toBe("framework-incompatible");
+  expect(unsupported.unsupported_stages).toEqual(["stt"]);
+});
+
+test("nextjs-routes scaffolds API routes for the chosen providers and nextjs keeps the ElevenLabs widget", async () => {
+  const scaffold = async (framework: string, stack: string) => parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "English", use_case: "scheduling", framework, stack, output_format: "json" },
+  }) as ToolResult) as { status: string; reason?: string; unsupported_stages?: string[]; files: Array<{ path: string; content: string }> };
+
+  const routes = await scaffold("nextjs-routes", "Deepgram nova-3 + Groq llama-4-maverick + Cartesia sonic-3");
+  expect(routes.status).toBe("ok");
+  expect(routes.files.map((file) => file.path)).toEqual([
+    ".env.example", "app/api/stt/route.ts", "app/api/llm/route.ts", "app/api/tts/route.ts",
+    "lib/voice/stt.ts", "lib/voice/llm.ts", "lib/voice/tts.ts", "components/voice-agent.tsx", "README.md",
+  ]);
+  const fileOf = (path: string): string => routes.files.find((file) => file.path === path)?.content ?? "";
+  expect(fileOf("lib/voice/stt.ts")).toContain("https://api.deepgram.com/v1/listen");
+  expect(fileOf("lib/voice/llm.ts")).toContain("https://api.groq.com/openai/v1/chat/completions");
+  expect(fileOf("lib/voice/tts.ts")).toContain('container: "mp3"');
+  expect(fileOf("app/api/tts/route.ts")).toContain("new Response(upstream.body");
+  expect(fileOf("components/voice-agent.tsx")).toContain("new MediaRecorder(stream)");
+  expect(fileOf(".env.example")).not.toContain("ELEVENLABS");
+  expect(fileOf(".env.example")).toContain("GROQ_API_KEY=");
+
+  const widgetOnly = await scaffold("nextjs-routes", "Deepgram nova-3 + ElevenLabs eleven-turbo + ElevenLabs eleven_v3");
+  expect(widgetOnly.reason).toBe("framework-incompatible");
+  expect(widgetOnly.unsupported_stages).toEqual(["llm"]);
+
+  const widget = await scaffold("nextjs", "Deepgram nova-3 + ElevenLabs eleven-turbo + ElevenLabs eleven_v3");
+  expect(widget.status).toBe("ok");
+  expect(widget.files.map((file) => file.path)).toEqual([".env.example", "components/voice-widget.tsx"]);
+  expect(widget.files[1].content).toContain("useConversation");
+});
+
+test("livekit scaffold targets the AgentSession API and can still generate the legacy pipeline", async () => {
+  type Scaffold = {
+    status: string;
+    reason?: string;
+    error?: string;
+    warnings?: string[];
+    livekit?: { version: string; turn_detection: string; noise_cancellation: string };
+    files: Array<{ path: string; content: string }>;
+  };
+  const scaffold = async (options: Record<string, unknown>) => parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "Thai", use_case: "sales", framework: "livekit", output_format: "json", ...options },
+  }) as ToolResult) as Scaffold;
+  const fileOf = (payload: Scaffold, path: string): string => payload.files.find((file) => file.path === path)?.content ?? "";
+
+  const current = await scaffold({ noise_cancellation: "bvc" });
+  expect(current.livekit).toEqual({ version: "1.x", turn_detection: "model", noise_cancellation: "bvc" });
+  const agent = fileOf(current, "agent.py");
+  expect(agent).toContain("session = AgentSession(");
+  expect(agent).toContain("class Assistant(Agent):");
+  expect(agent).toContain("turn_detection=MultilingualModel(),");
+  expect(agent).toContain("room_input_options=RoomInputOptions(noise_cancellation=noise_cancellation.BVC()),");
+  expect(agent).not.toContain("VoicePipelineAgent");
+  expect(fileOf(current, "requirements.txt")).toContain("livekit-plugins-turn-detector>=1.0.0");
+  expect(fileOf(current, "requirements.txt")).toContain("livekit-plugins-noise-cancellation");
+
+  const legacy = await scaffold({ livekit_version: "0.x" });
+  expect(legacy.livekit).toEqual({ version: "0.x", turn_detection: "vad", noise_cancellation: "none" });
+  expect(fileOf(legacy, "agent.py")).toContain("from livekit.agents.pipeline import VoicePipelineAgent");
+  expect(fileOf(legacy, "agent.py")).toContain('vad=ctx.proc.userdata["vad"]');
+  expect(fileOf(legacy, "requirements.txt")).toContain("livekit-agents>=0.12,<1.0");
+
+  const legacyStt = await scaffold({ livekit_version: "0.x", turn_detection: "stt" });
+  expect(legacyStt.reason).toBe("template-generation-failed");
+  expect(legacyStt.error).toContain("0.x has no STT turn detection");
+
+  const ignored = await scaffold({ framework: "pipecat", turn_detection: "vad" });
+  expect(ignored.status).toBe("ok");
+  expect(ignored.livekit).toBeUndefined();
+  expect(ignored.warnings?.[0]).toContain("only apply to the livekit framework");
+});
+
+test("scaffold writes use-case prompts and wires function tool stubs into the LiveKit agent", async () => {
+  const agentFor = async (useCase: string, options: Record<string, unknown> = {}) => {
+    const payload = parseToolPayload(await client.callTool({
+      name: "voiceforge_scaffold",
+      arguments: { language: "English", use_case: useCase, framework: "livekit", output_format: "json", ...options },
+    }) as ToolResult) as { files: Array<{ path: string; content: string }> };
+    return payload.files.find((file) => file.path === "agent.py")?.content ?? "";
+  };
+
+  const scheduling = await agentFor("appointments");
+  expect(scheduling).toContain("You are a scheduling assistant that books appointments.");
+  expect(scheduling).toContain("    @function_tool()\n    async def check_availability(\n        self,\n        context: RunContext,\n        date: str,\n        duration_minutes: int,\n    ) -> str:");
+  expect(scheduling).not.toContain("Be natural, warm, and helpful.");
+
+  const collections = await agentFor("debt-collections");
+  expect(collections).toContain('frequency: Literal["weekly", "biweekly", "monthly"],');
+  expect(collections).toContain('DISCLOSURE = "This is an attempt to collect a debt');
+  expect(collections).toContain("await session.say(DISCLOSURE, allow_interruptions=False)\n    await session.generate_reply(");
+
+  const triage = await agentFor("healthcare-triage");
+  expect(triage).toContain("RED_FLAG_SYMPTOMS = (");
+  expect(triage).toContain("async def check_red_flags(");
+  expect(triage).toContain("async def escalate_to_clinician(");
+
+  const legacyLeads = await agentFor("lead-qualification", { livekit_version: "0.x" });
+  expect(legacyLeads).toContain("class AssistantFunctions(llm.FunctionContext):");
+  expect(legacyLeads).toContain('qualified: Annotated[bool, llm.TypeInfo(description="Whether the lead meets your qualification criteria.")],');
+  expect(legacyLeads).toContain("fnc_ctx=AssistantFunctions(),");
+
+  const sales = await agentFor("sales");
+  expect(sales).toContain("You are an outbound sales agent.");
+  expect(sales).not.toContain("function_tool");
+
+  const pipecat = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "English", use_case: "debt-collections", framework: "pipecat", output_format: "json" },
+  }) as ToolResult) as { files: Array<{ path: string; content: string }> };
+  const botPy = pipecat.files.find((file) => file.path === "bot.py")?.content;
+  expect(botPy).toContain("disclosure word for word");
+  expect(botPy).toContain("await task.queue_frames([TTSSpeakFrame(DISCLOSURE), context_aggregator.user().get_context_frame()])");
+  expect(botPy).toContain("STTMuteStrategy.FIRST_SPEECH");
+
+  const collectionsFile = async (framework: string, filePath: string) => {
+    const payload = parseToolPayload(await client.callTool({
+      name: "voiceforge_scaffold",
+      arguments: { language: "English", use_case: "debt-collections", framework, output_format: "json" },
+    }) as ToolResult) as { warnings: string[]; files: Array<{ path: string; content: string }> };
+    return { warnings: payload.warnings, content: payload.files.find((file) => file.path === filePath)?.content };
+  };
+  const twilio = await collectionsFile("twilio", "src/pipeline.ts");
+  expect(twilio.content).toContain('const DISCLOSURE = "This is an attempt to collect a debt');
+  expect(twilio.content).toContain("this.enqueue(() => this.speak(DISCLOSURE, false));\n    this.enqueue(() => this.speak(GREETING));");
+  expect(twilio.warnings).toEqual([expect.stringMatching(/offer_payment_plan\) are only generated for the livekit framework/)]);
+
+  const node = await collectionsFile("livekit-node", "src/agent.ts");
+  expect(node.content).toContain("await session.say(DISCLOSURE, { allowInterruptions: false }).waitForPlayout();");
+
+  const routes = await collectionsFile("nextjs-routes", "app/api/chat/route.ts");
+  expect(routes.warnings).toContainEqual(expect.stringMatching(/disclosure is only requested in the system prompt/));
+});
+
 test("validate returns warning payload for unknown model but keeps guidance", async () => {
   const result = await client.callTool({
     name: "voiceforge_validate",
@@ -180,6 +625,7 @@ test("validate returns warning payload for unknown model but keeps guidance", as
       llm_model: "gpt-not-a-real-model",
       tts_provider: "Cartesia",
       tts_model: "sonic-3",
+      compliance: ["pdpa"],
       output_format: "json",
     },
   });
@@ -188,8 +634,10 @@ test("validate returns warning payload for unknown model but keeps guidance", as
   expect(payload).toMatchObject({
     status: "warning",
     reason: "unsupported-model",
+    feature_gaps: [],
   });
   expect((payload.unknown_models as string[])).toContain("llm");
+  expect((payload.compliance_gaps as Array<{ provider: string }>).map((gap) => gap.provider)).toEqual(["Deepgram", "OpenAI", "Cartesia"]);
 });
 
 test("config generates valid YAML scaffold payload with quality targets", async () => {
@@ -227,3 +675,548 @@ test("config generates valid YAML scaffold payload with quality targets", async
   expect(yaml).toMatch(/quality_targets:\n\s{4}latency_p95_ms: 250/);
   expect(yaml).toMatch(/min_utmos: 4\.0/);
 });
+
+test("recommend ranks on per-language figures and flags aggregate fallbacks", async () => {
+  const result = await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: {
+      language: "Thai",
+      use_case: "debt-collections",
+      max_results: 10,
+      output_format: "json",
+    },
+  });
+
+  const payload = parseToolPayload(result as ToolResult) as {
+    aggregate_fallback_count: number;
+    top: Array<{ sttModel: string; llmModel: string; latencyMs: number; metricsSource: string; sampleSize: number | null }>;
+  };
+  const flagship = payload.top.find((row) => row.sttModel === "nova-3" && row.llmModel === "gpt-4.1-mini");
+  expect(flagship).toMatchObject({ latencyMs: 196, metricsSource: "language", sampleSize: 1850 });
+  expect(payload.aggregate_fallback_count).toBe(
+    payload.top.filter((row) => row.metricsSource === "aggregate").length
+  );
+  expect(payload.aggregate_fallback_count).toBeGreaterThan(0);
+});
+
+test("recommend optimizing for latency ranks on p95", async () => {
+  const result = await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: {
+      language: "English",
+      use_case: "sales",
+      optimize_for: "latency",
+      max_results: 10,
+      output_format: "json",
+    },
+  });
+
+  const payload = parseToolPayload(result as ToolResult) as {
+    latency_basis: string;
+    top: Array<{ latencyMs: number; latencyPercentiles?: { p95: number }; latencyBreakdown?: Record<string, number> }>;
+  };
+  expect(payload.latency_basis).toBe("p95");
+  expect(payload.top[0].latencyBreakdown).toBeDefined();
+  expect(payload.top[0].latencyPercentiles?.p95).toBe(
+    Math.min(...payload.top.map((row) => row.latencyPercentiles?.p95 ?? row.latencyMs))
+  );
+});
+
+test("ingested call logs become tagged local rows that recommend can isolate", async () => {
+  const turns = [180, 200, 220].map((latency_ms, i) => JSON.stringify({
+    stack: "deepgram nova-3 + open ai gpt-4.1-mini + cartesia sonic-3",
+    language: "th",
+    call_id: `call-${i}`,
+    latency_ms,
+    utmos: 4.2,
+    cost_per_min: 0.0065,
+  }));
+  const ingest = parseToolPayload(await client.callTool({
+    name: "voiceforge_ingest",
+    arguments: {
+      content: [...turns, JSON.stringify({ stack: "Nope + OpenAI gpt-4.1 + Cartesia sonic-3", language: "Thai", latency_ms: 1, utmos: 4, cost_per_min: 0.01 })].join("\n"),
+      label: "e2e batch",
+      output_format: "json",
+    },
+  }) as ToolResult);
+  expect(ingest).toMatchObject({ status: "warning", accepted_turns: 3, store: { total_local_rows: 1 } });
+  expect(ingest.rejected_lines).toEqual([expect.stringMatching(/^line 4: could not parse stack/)]);
+
+  const recommend = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "Thai", use_case: "sales", local_data: "only", output_format: "json" },
+  }) as ToolResult) as { top: Array<Record<string, unknown>> };
+  expect(recommend.top).toHaveLength(1);
+  expect(recommend.top[0]).toMatchObject({
+    source: "local",
+    stt: "Deepgram",
+    llmModel: "gpt-4.1-mini",
+    latencyMs: 200,
+    sampleSize: 3,
+    metricsSource: "language",
+  });
+
+  const benchmark = parseToolPayload(await client.callTool({
+    name: "voiceforge_benchmark",
+    arguments: { language: "Thai", local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as { rows: Array<{ source: string }> };
+  expect(benchmark.rows.every((row) => row.source === "bundled")).toBe(true);
+
+  const swap = parseToolPayload(await client.callTool({
+    name: "voiceforge_swap",
+    arguments: { stack: "Deepgram nova-3 + Groq llama-4-maverick + Cartesia sonic-3", stage: "llm", language: "Thai", output_format: "json" },
+  }) as ToolResult) as { alternatives: Array<{ llmModel: string; source: string; sampleSize?: number }> };
+  expect(swap.alternatives.find((alt) => alt.llmModel === "gpt-4.1-mini")).toMatchObject({ source: "local", sampleSize: 3 });
+
+  const ttsSwap = parseToolPayload(await client.callTool({
+    name: "voiceforge_swap",
+    arguments: { stack: "Deepgram nova-3 + OpenAI gpt-4.1-mini + Cartesia sonic-3", stage: "tts", language: "Thai", output_format: "json" },
+  }) as ToolResult) as {
+    current: { source: string; latencyMs: number };
+    candidate_count: number;
+    ambiguity: boolean;
+    unsupported_language: string[];
+    alternatives: Array<{ provider: string; metricsSource: string }>;
+  };
+  expect(ttsSwap).toMatchObject({ current: { source: "local", latencyMs: 200 }, candidate_count: 1, ambiguity: false });
+  expect(ttsSwap.unsupported_language).toContain("PlayHT play-3.0-mini");
+  expect(ttsSwap.alternatives.some((alt) => alt.provider === "PlayHT")).toBe(false);
+  expect(ttsSwap.alternatives.every((alt) => alt.metricsSource === "aggregate" || alt.metricsSource === "language")).toBe(true);
+});
+
+test("untested stacks are estimated on request and flagged with bounds", async () => {
+  const stack = {
+    stt_provider: "Speechmatics",
+    stt_model: "enhanced",
+    llm_provider: "Anthropic",
+    llm_model: "claude-sonnet-4-5",
+    tts_provider: "ElevenLabs",
+    tts_model: "eleven_v3",
+  };
+  const refused = parseToolPayload(await client.callTool({
+    name: "voiceforge_validate",
+    arguments: { ...stack, compliance: ["pdpa"], output_format: "json" },
+  }) as ToolResult) as { status: string; reason: string; compliance_gaps: Array<{ provider: string }>; feature_gaps: unknown[] };
+  expect(refused).toMatchObject({ status: "error", reason: "no-exact-match", feature_gaps: [] });
+  expect(refused.compliance_gaps.map((gap) => gap.provider)).toContain("Anthropic");
+
+  const validate = parseToolPayload(await client.callTool({
+    name: "voiceforge_validate",
+    arguments: { ...stack, estimate: true, output_format: "json" },
+  }) as ToolResult) as { status: string; estimated_benchmark: { latency_ms: number; estimate: { bounds: { latencyMs: [number, number] } } } };
+  expect(validate.status).toBe("estimated");
+  const [low, high] = validate.estimated_benchmark.estimate.bounds.latencyMs;
+  expect(low).toBeLessThan(validate.estimated_benchmark.latency_ms);
+  expect(high).toBeGreaterThan(validate.estimated_benchmark.latency_ms);
+
+  const recommend = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "sales", include_estimates: true, max_results: 10, local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as { estimated_count: number; top: Array<{ source: string; estimate?: unknown }> };
+  expect(recommend.estimated_count).toBeGreaterThan(0);
+  expect(recommend.estimated_count).toBe(recommend.top.filter((row) => row.source === "estimate").length);
+  expect(recommend.top.filter((row) => row.source === "estimate").every((row) => row.estimate)).toBe(true);
+  expect(recommend.top.filter((row) => row.source !== "estimate").every((row) => !row.estimate)).toBe(true);
+});
+
+test("recommend applies custom weights and reports what each constraint eliminated", async () => {
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: {
+      language: "English",
+      use_case: "sales",
+      weights: { latency: 80, quality: 40, cost: 20 },
+      max_latency_ms: 200,
+      excluded_providers: ["eleven labs"],
+      max_results: 10,
+      local_data: "exclude",
+      output_format: "json",
+    },
+  }) as ToolResult) as {
+    weights_source: string;
+    weights: Record<string, number>;
+    constraints: {
+      considered: number;
+      remaining: number;
+      eliminated: Array<{ constraint: string; limit: number | string; rows: Array<{ stack: string; value: number | string }> }>;
+    };
+    top: Array<{ latencyMs: number; stt: string; llm: string; tts: string }>;
+  };
+
+  expect(payload.weights_source).toBe("custom");
+  expect(payload.weights).toEqual({ latency: 80, quality: 40, cost: 20 });
+  expect(payload.top.length).toBe(payload.constraints.remaining);
+  expect(payload.top.every((row) => row.latencyMs <= 200)).toBe(true);
+  expect(payload.top.every((row) => ![row.stt, row.llm, row.tts].includes("ElevenLabs"))).toBe(true);
+
+  const [latency, excluded] = payload.constraints.eliminated;
+  expect(latency).toMatchObject({ constraint: "max_latency_ms", limit: 200 });
+  expect(latency.rows.length).toBeGreaterThan(0);
+  expect(latency.rows.every((row) => (row.value as number) > 200)).toBe(true);
+  expect(excluded).toMatchObject({ constraint: "excluded_providers", limit: "ElevenLabs" });
+  expect(excluded.rows.length).toBeGreaterThan(0);
+  expect(latency).toMatchObject({ basis: "mean" });
+
+  const tail = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "sales", optimize_for: "latency", max_latency_ms: 300, max_results: 10, local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    constraints: { eliminated: Array<{ constraint: string; basis?: string }> };
+    top: Array<{ latencyMs: number; latencyPercentiles?: { p95: number } }>;
+  };
+  expect(tail.constraints.eliminated[0]).toMatchObject({ constraint: "max_latency_ms", basis: "p95" });
+  expect(tail.top.length).toBeGreaterThan(0);
+  expect(tail.top.every((row) => row.latencyPercentiles !== undefined && row.latencyPercentiles.p95 <= 300)).toBe(true);
+
+  const japaneseTail = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "Japanese", use_case: "sales", optimize_for: "latency", max_latency_ms: 200, include_estimates: true, local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as { constraints: { eliminated: Array<{ rows: Array<{ stack: string; value: number | string }> }> } };
+  const tailRows = japaneseTail.constraints.eliminated[0].rows;
+  expect(tailRows.find((row) => row.stack === "Deepgram nova-3 → OpenAI gpt-4.1-mini → Cartesia sonic-3")?.value).toBe(241);
+  expect(tailRows.some((row) => row.value === "p95 unknown")).toBe(true);
+
+  const impossible = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "sales", max_cost_per_min: 0.001, output_format: "json" },
+  }) as ToolResult);
+  expect(impossible).toMatchObject({ status: "error", reason: "no-stack-meets-constraints" });
+});
+
+test("pareto splits stacks into a non-dominated frontier and explains each dominated row", async () => {
+  type Row = { latencyMs: number; quality: number; costPerMin: number };
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_pareto",
+    arguments: { language: "English", local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    considered: number;
+    frontier: Row[];
+    dominated: Array<{ row: Row; dominated_by: string; margin: { latency_ms: number; quality: number; cost_per_min: number } }>;
+  };
+
+  expect(payload.frontier.length).toBeGreaterThan(0);
+  expect(payload.dominated.length).toBeGreaterThan(0);
+  expect(payload.frontier.length + payload.dominated.length).toBe(payload.considered);
+
+  const beats = (a: Row, b: Row) =>
+    a.latencyMs <= b.latencyMs && a.quality >= b.quality && a.costPerMin <= b.costPerMin &&
+    (a.latencyMs < b.latencyMs || a.quality > b.quality || a.costPerMin < b.costPerMin);
+  const all = [...payload.frontier, ...payload.dominated.map((entry) => entry.row)];
+  expect(payload.frontier.every((row) => !all.some((other) => beats(other, row)))).toBe(true);
+
+  for (const { margin } of payload.dominated) {
+    expect(margin.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(margin.quality).toBeGreaterThanOrEqual(0);
+    expect(margin.cost_per_min).toBeGreaterThanOrEqual(0);
+    expect(margin.latency_ms + margin.quality + margin.cost_per_min).toBeGreaterThan(0);
+  }
+});
+
+test("recommend explain breaks each score into weighted sub-scores and margins", async () => {
+  type Explanation = {
+    rank: number;
+    score: number;
+    subScores: Record<string, number>;
+    weightShares: Record<string, number>;
+    contributions: Record<string, number>;
+    vsNext: { stack: string; decidedBy: string; scoreMargin: number } | null;
+  };
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "healthcare", explain: true, max_results: 3, local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as { top: Array<{ score: number; stt: string }>; explanation: Explanation[] };
+
+  expect(payload.explanation).toHaveLength(3);
+  payload.explanation.forEach((explanation, i) => {
+    expect(explanation.rank).toBe(i + 1);
+    expect(explanation.score).toBe(payload.top[i].score);
+    const shares = Object.values(explanation.weightShares).reduce((sum, value) => sum + value, 0);
+    expect(shares).toBeCloseTo(1, 2);
+    const contributions = Object.values(explanation.contributions).reduce((sum, value) => sum + value, 0);
+    expect(Math.abs(contributions - explanation.score)).toBeLessThanOrEqual(0.2);
+    expect(explanation.vsNext).not.toBeNull();
+    expect(["score", "latency", "quality", "cost", "tie"]).toContain(explanation.vsNext!.decidedBy);
+    expect(explanation.vsNext!.scoreMargin).toBeGreaterThanOrEqual(0);
+  });
+  expect(payload.explanation[0].vsNext!.scoreMargin).toBeCloseTo(payload.top[0].score - payload.top[1].score, 1);
+});
+
+test("scoring strategies normalize over the considered stacks and are recorded in JSON", async () => {
+  type Payload = { scoring_strategy: string; top: Array<{ score: number }>; explanation: Array<{ subScores: Record<string, number> }> };
+  const run = async (scoring?: string) => parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "Thai", use_case: "sales", explain: true, max_results: 10, local_data: "exclude", output_format: "json", ...(scoring ? { scoring } : {}) },
+  }) as ToolResult) as Payload;
+
+  expect((await run()).scoring_strategy).toBe("linear");
+
+  for (const scoring of ["minmax", "rank"]) {
+    const payload = await run(scoring);
+    expect(payload.scoring_strategy).toBe(scoring);
+    const subScores = payload.explanation.flatMap((row) => Object.values(row.subScores));
+    expect(Math.min(...subScores)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...subScores)).toBe(100);
+  }
+
+  const zscore = await run("zscore");
+  const mean = zscore.top.reduce((sum, row) => sum + row.score, 0) / zscore.top.length;
+  expect(mean).toBeCloseTo(50, 0);
+
+  const scaffold = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "English", use_case: "sales", scoring: "rank", output_format: "json" },
+  }) as ToolResult);
+  expect(scaffold).toMatchObject({ status: "ok", scoring_strategy: "rank" });
+});
+
+test("recommend sensitivity reports grid win shares, the nearest flip and a robustness label", async () => {
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "customer-support", sensitivity: true, local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    top: Array<{ stt: string; sttModel: string; llm: string; llmModel: string; tts: string; ttsModel: string }>;
+    sensitivity: {
+      gridPoints: number;
+      topPick: string;
+      topPickWinShare: number;
+      label: string;
+      nearestFlip: { winner: string; distance: number } | null;
+      winShares: Array<{ stack: string; wins: number }>;
+      flipRegions: Array<{ winner: string; points: number }>;
+    };
+  };
+
+  const { sensitivity, top } = payload;
+  expect(sensitivity.gridPoints).toBe(66);
+  expect(sensitivity.topPick).toBe(`${top[0].stt} ${top[0].sttModel} → ${top[0].llm} ${top[0].llmModel} → ${top[0].tts} ${top[0].ttsModel}`);
+  expect(["robust", "fragile"]).toContain(sensitivity.label);
+  expect(sensitivity.winShares.reduce((sum, entry) => sum + entry.wins, 0)).toBe(66);
+  const flipPoints = sensitivity.flipRegions.reduce((sum, region) => sum + region.points, 0);
+  expect(flipPoints).toBe(Math.round(66 * (1 - sensitivity.topPickWinShare)));
+  if (flipPoints > 0) expect(sensitivity.nearestFlip?.winner).not.toBe(sensitivity.topPick);
+});
+
+test("recommend ranks several languages on worst-case figures and filters on measured code-switching", async () => {
+  const languages = [{ language: "Thai" }, { language: "English" }, { language: "Japanese", required: false }];
+  const multi = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { languages, use_case: "debt collections", max_results: 10, local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    languages: { required: string[]; nice_to_have: string[] };
+    top: Array<{ sttModel: string; llmModel: string; latencyMs: number; quality: number; niceToHaveCovered: string[]; worstCaseLanguages?: Record<string, string> }>;
+  };
+  expect(multi.languages).toEqual({ required: ["Thai", "English"], nice_to_have: ["Japanese"] });
+  const flagship = multi.top.find((row) => row.sttModel === "nova-3" && row.llmModel === "gpt-4.1-mini");
+  // Thai is the slower and lower-quality of the two measured languages for this stack.
+  expect(flagship).toMatchObject({ latencyMs: 196, quality: 4.3, niceToHaveCovered: ["Japanese"], worstCaseLanguages: { latency: "Thai", quality: "Thai" } });
+
+  const switching = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { languages, use_case: "debt collections", code_switching: true, local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    top: Array<{ stt: string; codeSwitchingAccuracy: Record<string, number | null> }>;
+    constraints: { eliminated: Array<{ constraint: string; rows: Array<{ stack: string; value: string }> }> };
+  };
+  expect(switching.top.map((row) => row.stt)).toEqual(["Speechmatics"]);
+  expect(switching.top[0].codeSwitchingAccuracy).toEqual({ "Thai/English": 0.94 });
+  const dropped = switching.constraints.eliminated.find((entry) => entry.constraint === "code_switching")!;
+  expect(dropped.rows).toContainEqual({ stack: "Deepgram nova-3 → OpenAI gpt-4.1-mini → Cartesia sonic-3", value: "71% accuracy" });
+});
+
+test("required_features filters providers, eliminates stacks in recommend and warns in validate", async () => {
+  const providers = parseToolPayload(await client.callTool({
+    name: "voiceforge_providers",
+    arguments: { category: "tts", required_features: ["ssml", "diarization"], output_format: "json" },
+  }) as ToolResult) as { providers: Array<{ provider: string; models: string[]; capabilities: Record<string, { features: string[] }> }> };
+  const ttsProviders = providers.providers;
+  // diarization is an STT feature, so only ssml narrows the TTS list.
+  expect(ttsProviders.find((entry) => entry.provider === "ElevenLabs")?.models).toEqual(["turbo_v2.5"]);
+  expect(ttsProviders.every((entry) => entry.models.every((model) => entry.capabilities[model].features.includes("ssml")))).toBe(true);
+
+  const recommend = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "customer-support", required_features: ["ssml"], local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    top: Array<{ tts: string; ttsModel: string }>;
+    constraints: { eliminated: Array<{ constraint: string; limit: string; rows: Array<{ stack: string; value: string }> }> };
+  };
+  expect(recommend.top.some((row) => row.ttsModel === "eleven_v3")).toBe(false);
+  const ssml = recommend.constraints.eliminated.find((entry) => entry.constraint === "required_features")!;
+  expect(ssml.limit).toBe("ssml");
+  expect(ssml.rows).toContainEqual({
+    stack: "Deepgram nova-3 → ElevenLabs eleven-turbo → ElevenLabs eleven_v3",
+    value: "TTS ElevenLabs eleven_v3 lacks ssml",
+  });
+
+  const validate = parseToolPayload(await client.callTool({
+    name: "voiceforge_validate",
+    arguments: {
+      stt_provider: "OpenAI", stt_model: "gpt-4o-transcribe",
+      llm_provider: "OpenAI", llm_model: "gpt-4.1",
+      tts_provider: "ElevenLabs", tts_model: "eleven_v3",
+      required_features: ["diarization", "function_calling"],
+      output_format: "json",
+    },
+  }) as ToolResult);
+  expect(validate).toMatchObject({
+    status: "warning",
+    reason: "missing-features",
+    feature_gaps: [{ feature: "diarization", stage: "stt", provider: "OpenAI", model: "gpt-4o-transcribe", reason: "unsupported" }],
+  });
+});
+
+test("compliance and region constraints exclude providers with reasons and set the deployment region", async () => {
+  const recommend = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "healthcare-triage", compliance: ["hipaa"], region: "eu", local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    top: Array<{ llm: string; tts: string }>;
+    constraints: { eliminated: Array<{ constraint: string; limit: string; rows: Array<{ stack: string; value: string }> }> };
+  };
+  expect(recommend.top.every((row) => row.tts === "ElevenLabs" && row.llm !== "Groq")).toBe(true);
+  const region = recommend.constraints.eliminated.find((entry) => entry.constraint === "region")!;
+  expect(region.limit).toBe("EU");
+  expect(region.rows).toContainEqual({
+    stack: "Deepgram nova-3 → Groq llama-4-maverick → Cartesia sonic-3",
+    value: "LLM Groq no EU processing; TTS Cartesia no EU processing",
+  });
+
+  const validate = parseToolPayload(await client.callTool({
+    name: "voiceforge_validate",
+    arguments: {
+      stt_provider: "Deepgram", stt_model: "nova-3",
+      llm_provider: "Groq", llm_model: "llama-4-maverick",
+      tts_provider: "Cartesia", tts_model: "sonic-3",
+      compliance: ["hipaa"],
+      output_format: "json",
+    },
+  }) as ToolResult);
+  expect(validate).toMatchObject({
+    status: "warning",
+    reason: "non-compliant",
+    compliance_gaps: [{ stage: "llm", provider: "Groq", missing_certifications: ["hipaa"], missing_region: null, unknown: false }],
+  });
+
+  const scaffold = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "English", use_case: "healthcare-triage", compliance: ["gdpr"], region: "eu", output_format: "json" },
+  }) as ToolResult) as { stack: { tts: string }; files: Array<{ path: string; content: string }> };
+  expect(scaffold.stack.tts).toBe("ElevenLabs");
+  expect(scaffold.files.find((file) => file.path === "voiceforge.yaml")?.content).toContain("region: eu-central-1");
+
+  const config = parseToolPayload(await client.callTool({
+    name: "voiceforge_config",
+    arguments: {
+      agent_name: "eu-agent",
+      stt_provider: "Deepgram", stt_model: "nova-3",
+      llm_provider: "OpenAI", llm_model: "gpt-4.1-mini",
+      tts_provider: "ElevenLabs", tts_model: "eleven_v3",
+      region: "eu",
+      output_format: "json",
+    },
+  }) as ToolResult) as { status: string; yaml: string };
+  expect(config.status).toBe("ok");
+  expect(config.yaml).toContain("region: eu-central-1");
+  expect(config.yaml).not.toContain("us-east-1");
+});
+
+test("custom use-case profiles resolve by alias and unregistered use cases say they fell back", async () => {
+  const custom = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "prescription refill", local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as {
+    use_case: string;
+    use_case_source: string;
+    use_case_notice: string | null;
+    weights: Record<string, number>;
+    top: Array<{ llm: string }>;
+    constraints: { applied: { compliance: string[]; excluded_providers: string[] } };
+  };
+  expect(custom).toMatchObject({
+    use_case: "pharmacy-refills",
+    use_case_source: "custom",
+    use_case_notice: null,
+    weights: { latency: 40, quality: 90, cost: 30 },
+  });
+  expect(custom.constraints.applied).toMatchObject({ compliance: ["hipaa"], excluded_providers: ["Groq"] });
+  expect(custom.top.some((row) => row.llm === "Groq")).toBe(false);
+
+  const scaffold = parseToolPayload(await client.callTool({
+    name: "voiceforge_scaffold",
+    arguments: { language: "English", use_case: "refills", output_format: "json" },
+  }) as ToolResult) as { use_case_source: string; files: Array<{ path: string; content: string }> };
+  expect(scaffold.use_case_source).toBe("custom");
+  expect(scaffold.files.find((file) => file.path === "agent.py")?.content).toContain("date of birth");
+
+  const fallback = parseToolPayload(await client.callTool({
+    name: "voiceforge_recommend",
+    arguments: { language: "English", use_case: "dog grooming", local_data: "exclude", output_format: "json" },
+  }) as ToolResult) as { use_case_source: string; use_case_notice: string; weights: Record<string, number> };
+  expect(fallback.use_case_source).toBe("default");
+  expect(fallback.weights).toEqual({ latency: 70, quality: 70, cost: 60 });
+  expect(fallback.use_case_notice).toContain('No profile for use case "dog-grooming"; using default weights');
+
+  const config = parseToolPayload(await client.callTool({
+    name: "voiceforge_config",
+    arguments: {
+      agent_name: "groomer",
+      stt_provider: "Deepgram", stt_model: "nova-3",
+      llm_provider: "OpenAI", llm_model: "gpt-4.1-mini",
+      tts_provider: "Cartesia", tts_model: "sonic-3",
+      use_case: "dog grooming",
+      output_format: "json",
+    },
+  }) as ToolResult) as { use_case_notice: string };
+  expect(config.use_case_notice).toContain("the generic system prompt");
+});
+
+test("ask turns a free-text question into recommend arguments and returns the interpretation", async () => {
+  const payload = parseToolPayload(await client.callTool({
+    name: "voiceforge_ask",
+    arguments: {
+      question: "cheapest Japanese stack under 200ms for appointment reminders that works with LiveKit",
+      output_format: "json",
+    },
+  }) as ToolResult) as {
+    tool: string;
+    interpretation: { intent: string; languages: string[]; use_case: string; optimize_for: string; framework: string };
+    arguments: Record<string, unknown>;
+    result: { top: Array<{ latencyMs: number; stt: string; llm: string; tts: string }>; constraints: { applied: Record<string, unknown> } };
+  };
+  expect(payload.tool).toBe("voiceforge_recommend");
+  expect(payload.interpretation).toMatchObject({
+    intent: "recommend",
+    languages: ["Japanese"],
+    use_case: "appointment-reminders",
+    optimize_for: "cost",
+    framework: "livekit",
+  });
+  expect(payload.arguments).toMatchObject({ language: "Japanese", max_latency_ms: 200, framework: "livekit" });
+  expect(payload.result.top.length).toBeGreaterThan(0);
+  for (const row of payload.result.top) {
+    expect(row.latencyMs).toBeLessThanOrEqual(200);
+    expect(["Deepgram", "OpenAI", "Google"]).toContain(row.stt);
+  }
+
+  const compare = parseToolPayload(await client.callTool({
+    name: "voiceforge_ask",
+    arguments: { question: "Deepgram + OpenAI + Cartesia vs Deepgram + Groq + Cartesia for Thai?", output_format: "json" },
+  }) as ToolResult) as { tool: string; interpretation: { combos: string[]; constraints: { required_providers: string[] } } };
+  expect(compare.tool).toBe("voiceforge_compare");
+  expect(compare.interpretation.combos).toEqual(["Deepgram + OpenAI + Cartesia", "Deepgram + Groq + Cartesia"]);
+  expect(compare.interpretation.constraints.required_providers).toEqual([]);
+
+  // "can" must not be read as Cantonese.
+  const vague = parseToolPayload(await client.callTool({
+    name: "voiceforge_ask",
+    arguments: { question: "what can you recommend?", output_format: "json" },
+  }) as ToolResult);
+  expect(vague).toMatchObject({ status: "error", reason: "missing-language", interpretation: { languages: [] } });
+
+  const outOfRange = parseToolPayload(await client.callTool({
+    name: "voiceforge_ask",
+    arguments: { question: "English stack under 0ms for sales", output_format: "json" },
+  }) as ToolResult) as { status: string; reason: string; tool: string; issues: string[] };
+  expect(outOfRange).toMatchObject({ status: "error", reason: "unparseable-question", tool: "voiceforge_recommend" });
+  expect(outOfRange.issues[0]).toMatch(/^max_latency_ms: /);
+});
@@ -0,0 +1,72 @@
+import { mkdirSync, mkdtempSync, readFileSync, symlinkSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { expect, test } from "vitest";
+import { SCAFFOLD_ROOT_ENV_VAR, resolveScaffoldRoot, writeScaffold } from "../src/data/scaffold-writer.js";
+
+const files = [
+  { path: "agent.py", content: "print('hi')\n" },
+  { path: "config/voiceforge.yaml", content: "stack: {}\n" },
+];
+
+const tempRoot = () => mkdtempSync(path.join(os.tmpdir(), "voiceforge-scaffold-"));
+
+test("defaults to the working directory and lets the CLI flag win over the environment", () => {
+  expect(resolveScaffoldRoot([], {}, "/work")).toBe("/work");
+  expect(resolveScaffoldRoot(["--scaffold-root", "/from/flag"], { [SCAFFOLD_ROOT_ENV_VAR]: "/from/env" }, "/work")).toBe("/from/flag");
+  expect(resolveScaffoldRoot([], { [SCAFFOLD_ROOT_ENV_VAR]: "projects" }, "/work")).toBe("/work/projects");
+});
+
+test("a dry run plans without writing; a write creates, skips unchanged files and leaves conflicts alone", () => {
+  const root = tempRoot();
+  const dryRun = writeScaffold(root, "agent", files, { dryRun: true, force: false });
+  expect(dryRun.ok && dryRun.report.files.map((file) => file.outcome)).toEqual(["created", "created"]);
+  expect(() => readFileSync(path.join(root, "agent", "agent.py"))).toThrow();
+
+  writeScaffold(root, "agent", files, { dryRun: false, force: false });
+  expect(readFileSync(path.join(root, "agent", "config", "voiceforge.yaml"), "utf8")).toBe("stack: {}\n");
+
+  writeFileSync(path.join(root, "agent", "agent.py"), "# mine\n");
+  const rerun = writeScaffold(root, "agent", files, { dryRun: false, force: false });
+  expect(rerun.ok && rerun.report.files).toEqual([
+    { path: "agent.py", outcome: "conflict", reason: "exists with different content" },
+    { path: "config/voiceforge.yaml", outcome: "skipped" },
+  ]);
+  expect(readFileSync(path.join(root, "agent", "agent.py"), "utf8")).toBe("# mine\n");
+
+  const forced = writeScaffold(root, "agent", files, { dryRun: false, force: true });
+  expect(forced.ok && forced.report.files[0].outcome).toBe("overwritten");
+  expect(readFileSync(path.join(root, "agent", "agent.py"), "utf8")).toBe("print('hi')\n");
+});
+
+test("refuses directories and files that resolve outside the root", () => {
+  const root = tempRoot();
+  const outside = tempRoot();
+  expect(writeScaffold(root, "../elsewhere", files, { dryRun: false, force: false })).toMatchObject({ ok: false, reason: "outside-root" });
+  expect(writeScaffold(root, outside, files, { dryRun: false, force: false })).toMatchObject({ ok: false, reason: "outside-root" });
+
+  symlinkSync(outside, path.join(root, "link"));
+  expect(writeScaffold(root, "link/agent", files, { dryRun: false, force: false })).toMatchObject({ ok: false, reason: "outside-root" });
+
+  mkdirSync(path.join(root, "agent"));
+  const traversal = writeScaffold(root, "agent", [{ path: "../../escape.py", content: "" }], { dryRun: false, force: false });
+  expect(traversal.ok && traversal.report.files[0]).toMatchObject({ outcome: "conflict", reason: "resolves outside the output directory" });
+});
+
+test("accepts names inside the root that start with two dots", () => {
+  const root = tempRoot();
+  const result = writeScaffold(root, "..agents", [{ path: "..env", content: "KEY=\n" }], { dryRun: false, force: false });
+  expect(result.ok && result.report.files).toEqual([{ path: "..env", outcome: "created" }]);
+  expect(readFileSync(path.join(root, "..agents", "..env"), "utf8")).toBe("KEY=\n");
+});
+
+test("reports a filesystem error with the files written before it", () => {
+  const root = tempRoot();
+  const clash = [
+    { path: "notes.txt", content: "first\n" },
+    { path: "notes.txt/inner.txt", content: "second\n" },
+  ];
+  const result = writeScaffold(root, "agent", clash, { dryRun: false, force: false });
+  expect(result).toMatchObject({ ok: false, reason: "write-failed", written: ["notes.txt"] });
+  expect(readFileSync(path.join(root, "agent", "notes.txt"), "utf8")).toBe("first\n");
+});
@@ -0,0 +1,38 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { expect, test } from "vitest";
+import { USE_CASES_ENV_VAR, loadUseCaseRegistry, resolveUseCasesPath } from "../src/data/use-cases.js";
+
+const fixture = (name: string) => path.resolve(process.cwd(), "tests", "fixtures", name);
+
+test("defaults to ~/.voiceforge/use-cases.yaml and lets the CLI flag win over the environment", () => {
+  expect(resolveUseCasesPath([], {})).toBe(path.join(os.homedir(), ".voiceforge", "use-cases.yaml"));
+  expect(resolveUseCasesPath(["--use-cases", "/from/flag.yaml"], { [USE_CASES_ENV_VAR]: "/from/env.yaml" })).toBe("/from/flag.yaml");
+  expect(resolveUseCasesPath([], { [USE_CASES_ENV_VAR]: "/from/env.yaml" })).toBe("/from/env.yaml");
+});
+
+test("loads profiles with weights, aliases, system prompt and constraints", () => {
+  const registry = loadUseCaseRegistry(fixture("use-cases.yaml"));
+  expect(registry.loadErrors).toEqual([]);
+  expect(registry.profiles["pharmacy-refills"]).toMatchObject({
+    weights: { latency: 40, quality: 90, cost: 30 },
+    aliases: ["refills", "prescription refill"],
+    constraints: { compliance: ["hipaa"], excluded_providers: ["Groq"], required_providers: [] },
+  });
+  expect(registry.profiles["pharmacy-refills"].systemPrompt).toContain("date of birth");
+});
+
+test("a missing file is an empty registry; an invalid one reports why", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "voiceforge-use-cases-"));
+  expect(loadUseCaseRegistry(path.join(dir, "absent.yaml"))).toEqual({ path: path.join(dir, "absent.yaml"), profiles: {}, loadErrors: [] });
+
+  const invalid = path.join(dir, "use-cases.yaml");
+  writeFileSync(invalid, "use_cases:\n  refills:\n    weights: { latency: 0, quality: 0, cost: 0 }\n    constraints: { region: mars }\n");
+  const registry = loadUseCaseRegistry(invalid);
+  expect(registry.profiles).toEqual({});
+  expect(registry.loadErrors).toEqual([
+    expect.stringContaining("use_cases.refills.weights: at least one weight must be positive"),
+    expect.stringContaining("use_cases.refills.constraints.region"),
+  ]);
+});